@@ -7,7 +7,9 @@ import * as db from './db';
 import { sseService } from './SSEService';
 import { VectorClockOps } from '../crdt/VectorClock';
 import { serverPool } from './ServerPool';
+import { batchOperations } from './pendingBatch';
 import type { StoredList, StoredItem, PendingOperation } from './db';
+import type { BatchedChange } from './pendingBatch';
 
 export interface ShoppingList extends StoredList {
   items: StoredItem[];
@@ -773,9 +775,16 @@ class SyncService {
       return;
     }
 
-    console.log(`📤 Syncing ${pending.length} change${pending.length > 1 ? 's' : ''}...`);
+    const steps = batchOperations(pending);
+    console.log(`📤 Syncing ${pending.length} change${pending.length > 1 ? 's' : ''} in ${steps.length} request${steps.length > 1 ? 's' : ''}...`);
 
-    for (const operation of pending) {
+    for (const step of steps) {
+      if (step.kind === 'changes') {
+        await this.sendChangesToServer(step.changes);
+        continue;
+      }
+
+      const { operation } = step;
       try {
         const result = await this.sendOperationToServer(operation);
         
@@ -791,6 +800,37 @@ class SyncService {
     }
   }
 
+  /**
+   * Sends the item changes of a push in one request. Each change the server
+   * acknowledges, or whose item no longer exists, is marked synced with every
+   * update folded into it; the rest stay queued for the next retry.
+   */
+  private async sendChangesToServer(batch: BatchedChange[]): Promise<void> {
+    const server = serverPool.getNextServer();
+    console.log(`📡 [CHANGES] ${batch.length} item${batch.length > 1 ? 's' : ''} → ${server}`);
+    const response = await fetch(`${server}/api/items/changes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes: batch.map(({ change }) => change) }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to send item changes: ${response.status}`);
+    }
+
+    const { acknowledged, failed }: { acknowledged: string[]; failed: Array<{ id: string; status: number }> } = await response.json();
+    const done = new Set([...acknowledged, ...failed.filter(failure => failure.status === 404).map(failure => failure.id)]);
+    for (const { change, covers } of batch) {
+      if (!done.has(change.id)) continue;
+      for (const op of covers) {
+        await db.markOperationSynced(op.id);
+      }
+    }
+
+    if (done.size < batch.length) {
+      throw new Error(`Failed to apply ${batch.length - done.size} item change(s)`);
+    }
+  }
+
   private async sendOperationToServer(operation: PendingOperation): Promise<{ status: number }> {
     const { type, data } = operation;
 
@@ -847,61 +887,6 @@ class SyncService {
         return { status: response.status };
       }
 
-      case 'TOGGLE_CHECK': {
-        const server = serverPool.getNextServer();
-        console.log(`📡 [${type}] ${data.id} → ${server}`);
-        const response = await fetch(`${server}/api/items/${data.id}/toggle`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            acquired: data.acquired,
-            vectorClock: data.vectorClock,
-            lastUpdated: data.lastUpdated
-          })
-        });
-        if (!response.ok) {
-          throw new Error(`Failed to toggle item: ${response.status}`);
-        }
-        return { status: response.status };
-      }
-
-      case 'UPDATE_QUANTITY': {
-        const server = serverPool.getNextServer();
-        console.log(`📡 [${type}] qty=${data.quantity} → ${server}`);
-        const response = await fetch(`${server}/api/items/${data.id}/quantity`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            quantity: data.quantity,
-            acquired: data.acquired,
-            vectorClock: data.vectorClock,
-            lastUpdated: data.lastUpdated
-          }),
-        });
-        if (!response.ok) {
-          throw new Error(`Failed to update quantity: ${response.status}`);
-        }
-        return { status: response.status };
-      }
-
-      case 'UPDATE_NAME': {
-        const server = serverPool.getNextServer();
-        console.log(`📡 [${type}] name="${data.name}" → ${server}`);
-        const response = await fetch(`${server}/api/items/${data.id}/name`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            name: data.name,
-            vectorClock: data.vectorClock,
-            lastUpdated: data.lastUpdated
-          }),
-        });
-        if (!response.ok) {
-          throw new Error(`Failed to update name: ${response.status}`);
-        }
-        return { status: response.status };
-      }
-
       case 'REMOVE_ITEM': {
         const server = serverPool.getNextServer();
         console.log(`📡 [${type}] ${data.itemId} → ${server}`);
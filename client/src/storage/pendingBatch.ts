@@ -0,0 +1,84 @@
+/**
+ * Batching of the pending operations queue before it is pushed to the server.
+ */
+
+import type { PendingOperation } from './db';
+
+/**
+ * The fields of one item that a sync changes, as sent to `POST /api/items/changes`.
+ * `id` is the pending operation of the last update folded in; the server
+ * acknowledges the change under it.
+ */
+export interface ItemChange {
+  id: string;
+  itemId: string;
+  fields: { name?: string; quantity?: number; acquired?: number };
+  vectorClock: Record<string, number>;
+  lastUpdated: number;
+}
+
+export interface BatchedChange {
+  change: ItemChange;
+  covers: PendingOperation[]; // Every update folded into the change, acknowledged together
+}
+
+export type SyncStep =
+  | { kind: 'operation'; operation: PendingOperation }
+  | { kind: 'changes'; changes: BatchedChange[] };
+
+/** Item fields each update sets. */
+const WRITTEN_FIELDS: Partial<Record<PendingOperation['type'], Array<keyof ItemChange['fields']>>> = {
+  TOGGLE_CHECK: ['acquired'],
+  UPDATE_QUANTITY: ['quantity', 'acquired'],
+  UPDATE_NAME: ['name']
+};
+
+/**
+ * Splits pending operations into the steps of a push. Item updates are folded
+ * into one change per item holding only the fields they set, with the clock of
+ * the last one (which covers every earlier local change), and the changes of all
+ * items go to the server in a single request. Other operations are sent one by
+ * one, in order; removing an item or deleting a list sends the changes gathered
+ * so far first, so they never reach the server after the delete.
+ */
+export function batchOperations(pending: PendingOperation[]): SyncStep[] {
+  const steps: SyncStep[] = [];
+  let changes: BatchedChange[] = [];
+
+  for (const operation of pending) {
+    const written = WRITTEN_FIELDS[operation.type];
+    if (!written) {
+      const removes = operation.type === 'DELETE_LIST' ||
+        (operation.type === 'REMOVE_ITEM' && changes.some(({ change }) => change.itemId === operation.data.itemId));
+      if (removes && changes.length > 0) {
+        steps.push({ kind: 'changes', changes });
+        changes = [];
+      }
+      steps.push({ kind: 'operation', operation });
+      continue;
+    }
+
+    const { id: itemId, vectorClock, lastUpdated } = operation.data;
+    const fields: ItemChange['fields'] = {};
+    for (const field of written) {
+      if (operation.data[field] !== undefined) fields[field] = operation.data[field];
+    }
+
+    const batched = changes.find(({ change }) => change.itemId === itemId);
+    if (batched) {
+      batched.change = {
+        ...batched.change,
+        id: operation.id,
+        fields: { ...batched.change.fields, ...fields },
+        vectorClock,
+        lastUpdated: Math.max(batched.change.lastUpdated, lastUpdated ?? 0)
+      };
+      batched.covers.push(operation);
+    } else {
+      changes.push({ change: { id: operation.id, itemId, fields, vectorClock, lastUpdated: lastUpdated ?? 0 }, covers: [operation] });
+    }
+  }
+
+  if (changes.length > 0) steps.push({ kind: 'changes', changes });
+  return steps;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'vitest';
+import { batchOperations } from '../src/storage/pendingBatch';
+import type { SyncStep } from '../src/storage/pendingBatch';
+import type { PendingOperation } from '../src/storage/db';
+
+let seq = 0;
+function op(type: PendingOperation['type'], data: any): PendingOperation {
+  seq++;
+  return { id: `op-${seq}`, type, data: { vectorClock: { client: seq }, lastUpdated: seq, ...data }, timestamp: seq, synced: 0 };
+}
+
+function steps(batch: SyncStep[]) {
+  return batch.map(step => step.kind === 'operation'
+    ? step.operation.id
+    : step.changes.map(({ change, covers }) => [change.id, covers.map(c => c.id)]));
+}
+
+describe('batchOperations', () => {
+  test('should fold the updates of an item into one change holding the fields they set', () => {
+    const toggle = op('TOGGLE_CHECK', { id: 'a', acquired: 1 });
+    const name = op('UPDATE_NAME', { id: 'a', name: 'Milk' });
+    const quantity = op('UPDATE_QUANTITY', { id: 'a', quantity: 2, acquired: 0 });
+
+    const [step] = batchOperations([toggle, name, quantity]);
+
+    expect(step).toEqual({
+      kind: 'changes',
+      changes: [{
+        change: { id: quantity.id, itemId: 'a', fields: { name: 'Milk', quantity: 2, acquired: 0 }, vectorClock: quantity.data.vectorClock, lastUpdated: quantity.data.lastUpdated },
+        covers: [toggle, name, quantity]
+      }]
+    });
+  });
+
+  test('should send the changes of every item in one request after the operations they pass', () => {
+    const add = op('ADD_ITEM', { id: 'b', listId: 'l1', name: 'Bread', quantity: 1 });
+    const first = op('UPDATE_NAME', { id: 'a', name: 'Eggs' });
+    const second = op('TOGGLE_CHECK', { id: 'b', acquired: 1 });
+
+    expect(steps(batchOperations([first, add, second]))).toEqual([
+      add.id,
+      [[first.id, [first.id]], [second.id, [second.id]]]
+    ]);
+  });
+
+  test('should send the changes gathered so far before removing their item or deleting a list', () => {
+    const beforeRemove = op('UPDATE_NAME', { id: 'a', name: 'Brown eggs' });
+    const remove = op('REMOVE_ITEM', { itemId: 'a' });
+    const readd = op('ADD_ITEM', { id: 'a', listId: 'l1', name: 'Eggs', quantity: 1 });
+    const afterReadd = op('UPDATE_NAME', { id: 'a', name: 'Free-range eggs' });
+    const deleteList = op('DELETE_LIST', { listId: 'l1' });
+
+    expect(steps(batchOperations([beforeRemove, remove, readd, afterReadd, deleteList]))).toEqual([
+      [[beforeRemove.id, [beforeRemove.id]]],
+      remove.id,
+      readd.id,
+      [[afterReadd.id, [afterReadd.id]]],
+      deleteList.id
+    ]);
+  });
+
+  test('should not send the changes of other items early when an item is removed', () => {
+    const other = op('UPDATE_QUANTITY', { id: 'b', quantity: 3, acquired: 0 });
+    const remove = op('REMOVE_ITEM', { itemId: 'a' });
+
+    expect(steps(batchOperations([other, remove]))).toEqual([remove.id, [[other.id, [other.id]]]]);
+  });
+});
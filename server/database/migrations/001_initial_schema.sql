@@ -0,0 +1,73 @@
+-- Schema as it stood when versioned migrations were introduced. Every statement is
+-- IF NOT EXISTS, so databases created before then are adopted with their data.
+
+CREATE TABLE IF NOT EXISTS lists (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_updated INTEGER NOT NULL,
+    vector_clock TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS items (
+    id TEXT PRIMARY KEY,
+    list_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 1,
+    acquired INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    last_updated INTEGER NOT NULL,
+    vector_clock TEXT NOT NULL,
+    FOREIGN KEY (list_id) REFERENCES lists (id) ON DELETE CASCADE
+);
+
+-- CRDT state of items: LWW register and PN-counter states plus AWORSet add/remove tags.
+-- Rows outlive removed items so that their remove tags survive a restart.
+CREATE TABLE IF NOT EXISTS item_crdt (
+    id TEXT PRIMARY KEY,
+    list_id TEXT NOT NULL,
+    element TEXT,
+    add_tags TEXT NOT NULL,
+    remove_tags TEXT NOT NULL
+);
+
+-- Hinted handoff: updates waiting for an unreachable replica (survives restarts).
+-- target_port holds the replica's host:port address.
+CREATE TABLE IF NOT EXISTS hints (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    target_port TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+-- Tombstones: deleted lists and items, kept with their vector clock until garbage collected
+CREATE TABLE IF NOT EXISTS tombstones (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    list_id TEXT,
+    vector_clock TEXT NOT NULL,
+    deleted_at INTEGER NOT NULL,
+    PRIMARY KEY (kind, id)
+);
+
+-- Siblings: concurrent versions of a list or item kept next to the stored one until a write resolves them
+CREATE TABLE IF NOT EXISTS siblings (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    clock TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (kind, id, clock)
+);
+
+-- Node-local cluster state that must survive restarts, e.g. the ring the data was last placed on
+CREATE TABLE IF NOT EXISTS cluster_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_items_list_id ON items (list_id);
+CREATE INDEX IF NOT EXISTS idx_items_name ON items (name);
+CREATE INDEX IF NOT EXISTS idx_lists_name ON lists (name);
+CREATE INDEX IF NOT EXISTS idx_hints_target ON hints (target_port, id);
+CREATE INDEX IF NOT EXISTS idx_tombstones_deleted_at ON tombstones (deleted_at);
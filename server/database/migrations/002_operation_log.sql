@@ -0,0 +1,10 @@
+-- Write-ahead log of accepted operations. Each row holds every storage write of one
+-- operation and is appended before any of them is applied; rows already reflected in
+-- the tables above are removed at checkpoints.
+CREATE TABLE operation_log (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    operation TEXT NOT NULL,
+    vector_clock TEXT NOT NULL,
+    writes TEXT NOT NULL,
+    logged_at INTEGER NOT NULL
+);
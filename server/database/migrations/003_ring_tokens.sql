@@ -0,0 +1,11 @@
+-- Ring position of each list, item and tombstone: its id's SHA-1 as 40 hex digits,
+-- so that text order is ring order and a ring range is an index range scan.
+-- Rows from before this migration, or restored from a snapshot taken before it, get
+-- theirs filled in by the store, in one transaction, when it opens or restores.
+ALTER TABLE lists ADD COLUMN ring_token TEXT;
+ALTER TABLE items ADD COLUMN ring_token TEXT;
+ALTER TABLE tombstones ADD COLUMN ring_token TEXT;
+
+CREATE INDEX idx_lists_ring_token ON lists (ring_token);
+CREATE INDEX idx_items_ring_token ON items (ring_token);
+CREATE INDEX idx_tombstones_ring_token ON tombstones (ring_token);
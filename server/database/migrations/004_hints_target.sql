@@ -0,0 +1,3 @@
+-- Hints have been addressed to host:port replicas, not ports, since nodes are
+-- identified by address; name the column after what it holds.
+ALTER TABLE hints RENAME COLUMN target_port TO target;
@@ -0,0 +1,79 @@
+import cloudConfig from './cloudConfig.json';
+
+/**
+ * A storage node's identity in the cluster: the `host:port` its HTTP API is
+ * reached at. Its messaging (ZeroMQ) endpoint is on the same host, at the HTTP
+ * port plus `cloudConfig.storage.zmqPortOffset`.
+ */
+export type NodeAddress = string;
+
+/**
+ * Interfaces a process listens on, as host:port, when they differ from the
+ * address it is reached at (e.g. 0.0.0.0 behind NAT or in a container).
+ */
+export interface NodeBindings {
+  http?: string;
+  zmq?: string;
+}
+
+export interface HostPort {
+  host: string;
+  port: number;
+}
+
+/**
+ * Splits a `host:port` address. Throws on anything else, including bare ports.
+ */
+export function parseAddress(address: string): HostPort {
+  const match = /^(.+):(\d{1,5})$/.exec(address ?? '');
+  const port = match ? Number(match[2]) : NaN;
+  if (!match || port < 1 || port > 65535) {
+    throw new Error(`Invalid address '${address}', expected host:port`);
+  }
+  return { host: match[1], port };
+}
+
+export function formatAddress({ host, port }: HostPort): string {
+  return `${host}:${port}`;
+}
+
+export function isAddress(value: unknown): value is NodeAddress {
+  try {
+    parseAddress(value as string);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Address of a node on this host, for single-machine setups and tests.
+ */
+export function localAddress(port: number): NodeAddress {
+  return `127.0.0.1:${port}`;
+}
+
+/**
+ * `host:port` of a node's ZeroMQ socket.
+ */
+export function messagingAddress(node: NodeAddress): string {
+  const { host, port } = parseAddress(node);
+  return formatAddress({ host, port: port + cloudConfig.storage.zmqPortOffset });
+}
+
+/**
+ * ZeroMQ endpoint for a `host:port` address.
+ */
+export function tcpEndpoint(address: string): string {
+  return `tcp://${address}`;
+}
+
+/**
+ * Orders addresses by host, then numerically by port, so views and logs list
+ * nodes the same way everywhere.
+ */
+export function compareAddresses(a: NodeAddress, b: NodeAddress): number {
+  const left = parseAddress(a);
+  const right = parseAddress(b);
+  return left.host === right.host ? left.port - right.port : left.host < right.host ? -1 : 1;
+}
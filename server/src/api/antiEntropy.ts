@@ -0,0 +1,305 @@
+import { MerkleTree, MerkleEntry, digestOf } from './merkle';
+import { NodeAddress } from './addresses';
+import { Partitioner, RingRange, hashKey, rangeContains } from './partitioning';
+import { replicatedFields } from './versions';
+
+/**
+ * A list or item as exchanged during anti-entropy. Deleted keys carry their
+ * tombstone with `deleted: true`.
+ */
+export interface AntiEntropyEntry {
+  kind: 'list' | 'item';
+  id: string;
+  data: any;
+}
+
+export interface AntiEntropyStats {
+  rounds: number;
+  rangesCompared: number;
+  rangesDiverged: number;
+  entriesSent: number;
+  entriesReceived: number;
+}
+
+/**
+ * How far a recovering node got in reconciling its ranges with the other replicas.
+ */
+export interface RecoveryProgress {
+  ranges: number;
+  synced: number;
+  peers: NodeAddress[]; // Replicas reconciled with
+}
+
+interface AntiEntropyOptions {
+  node: NodeAddress;
+  leafCount?: number;
+  getPartitioner: () => Partitioner | undefined;
+  loadEntries: (range: RingRange) => Promise<AntiEntropyEntry[]>; // Lists, items and tombstones whose id hashes into the range
+  applyEntry: (entry: AntiEntropyEntry) => Promise<void>;
+  send: (node: NodeAddress, message: any) => Promise<any>;
+}
+
+export interface WireRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * Background replica reconciliation using Merkle trees (Dynamo section 4.7).
+ * For every key range a node replicates, it compares tree roots with the other
+ * replicas of that range, descends into differing leaves and exchanges only the
+ * lists and items whose digests differ. Merging is left to the node's usual
+ * vector clock and CRDT update path.
+ */
+export class AntiEntropyService {
+  private options: AntiEntropyOptions;
+  private leafCount: number;
+  private running: boolean = false;
+  private stopped: boolean = false;
+  private stats: AntiEntropyStats = {
+    rounds: 0,
+    rangesCompared: 0,
+    rangesDiverged: 0,
+    entriesSent: 0,
+    entriesReceived: 0
+  };
+
+  constructor(options: AntiEntropyOptions) {
+    this.options = options;
+    // MerkleTree rounds to a power of two; bucket lookups must use the same count
+    this.leafCount = new MerkleTree([], options.leafCount ?? 16).getLeafCount();
+  }
+
+  getStats(): AntiEntropyStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Ends a recovery still retrying unreachable replicas.
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Compares every replicated range with each peer that shares it.
+   * Rounds never overlap; a round still in progress makes the next one a no-op.
+   */
+  async runRound(): Promise<void> {
+    const partitioner = this.options.getPartitioner();
+    if (!partitioner || this.running) return;
+
+    this.running = true;
+    try {
+      const rangesByPeer = new Map<NodeAddress, RingRange[]>();
+      for (const { range, replicas } of partitioner.getReplicaRanges(this.options.node)) {
+        for (const peer of replicas) {
+          if (peer === this.options.node) continue;
+          if (!rangesByPeer.has(peer)) rangesByPeer.set(peer, []);
+          rangesByPeer.get(peer)!.push(range);
+        }
+      }
+
+      for (const [peer, ranges] of rangesByPeer) {
+        try {
+          await this.syncWithPeer(peer, ranges);
+        } catch (err) {
+          console.warn(`⚠️ Anti-entropy with node ${peer} failed:`, (err as Error).message);
+        }
+      }
+
+      this.stats.rounds++;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Reconciles every range this node replicates with each of its other
+   * replicas, retrying the ranges no replica could be reached for until one is
+   * or `deadline` passes. Used at startup to catch up on writes missed while the
+   * node was down; periodic rounds wait until it is done.
+   */
+  async recover(deadline: number, retryDelayMs: number = 1000): Promise<RecoveryProgress> {
+    const partitioner = this.options.getPartitioner();
+    const replicaRanges = (partitioner?.getReplicaRanges(this.options.node) ?? [])
+      .filter(({ replicas }) => replicas.some(peer => peer !== this.options.node));
+    const pending = new Set(replicaRanges.map(({ range }) => range));
+    const peers = new Set<NodeAddress>();
+
+    this.running = true;
+    try {
+      while (pending.size > 0) {
+        const rangesByPeer = new Map<NodeAddress, RingRange[]>();
+        for (const { range, replicas } of replicaRanges) {
+          if (!pending.has(range)) continue;
+          for (const peer of replicas) {
+            if (peer === this.options.node || peers.has(peer)) continue;
+            if (!rangesByPeer.has(peer)) rangesByPeer.set(peer, []);
+            rangesByPeer.get(peer)!.push(range);
+          }
+        }
+
+        const synced: RingRange[] = [];
+        for (const [peer, ranges] of rangesByPeer) {
+          try {
+            const done = await this.syncWithPeer(peer, ranges);
+            synced.push(...done);
+            if (done.length === ranges.length) peers.add(peer);
+          } catch (err) {
+            console.warn(`⚠️ Recovery sync with node ${peer} failed:`, (err as Error).message);
+          }
+        }
+        synced.forEach(range => pending.delete(range));
+
+        const remaining = deadline - Date.now();
+        if (pending.size === 0 || remaining <= 0 || this.stopped) break;
+        await new Promise(resolve => setTimeout(resolve, Math.min(retryDelayMs, remaining)));
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return { ranges: replicaRanges.length, synced: replicaRanges.length - pending.size, peers: [...peers] };
+  }
+
+  /**
+   * Answers anti-entropy requests from a peer. Returns null for unrelated messages.
+   */
+  async handleMessage(message: any): Promise<any | null> {
+    switch (message.type) {
+      case 'MERKLE_ROOTS': {
+        const roots: string[] = [];
+        for (const range of message.ranges.map((r: WireRange) => this.fromWire(r))) {
+          roots.push(this.buildTree(await this.options.loadEntries(range), range).root());
+        }
+        return { ok: true, roots };
+      }
+      case 'MERKLE_LEAVES': {
+        const range = this.fromWire(message.range);
+        return { ok: true, leaves: this.buildTree(await this.options.loadEntries(range), range).leaves() };
+      }
+      case 'ANTI_ENTROPY_PULL': {
+        // Return what the peer is missing or holds differently, plus our digests
+        const range = this.fromWire(message.range);
+        const local = this.entriesIn(await this.options.loadEntries(range), range, message.buckets);
+        const digests = this.digestsOf(local);
+        const entries = local.filter(e => message.digests[this.keyOf(e)] !== digests[this.keyOf(e)]);
+        return { ok: true, entries, digests };
+      }
+      case 'ANTI_ENTROPY_PUSH': {
+        await this.applyAll(message.entries);
+        return { ok: true };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the ranges that were fully reconciled with the peer.
+   */
+  private async syncWithPeer(peer: NodeAddress, ranges: RingRange[]): Promise<RingRange[]> {
+    const entries: AntiEntropyEntry[][] = [];
+    for (const range of ranges) {
+      entries.push(await this.options.loadEntries(range));
+    }
+    const trees = ranges.map((range, i) => this.buildTree(entries[i], range));
+    const rootsReply = await this.options.send(peer, { type: 'MERKLE_ROOTS', ranges: ranges.map(r => this.toWire(r)) });
+    if (rootsReply?.status !== 'ok') throw new Error('Peer did not return Merkle roots');
+
+    const synced: RingRange[] = [];
+    for (let i = 0; i < ranges.length; i++) {
+      this.stats.rangesCompared++;
+      if (rootsReply.roots[i] === trees[i].root()) {
+        synced.push(ranges[i]);
+        continue;
+      }
+
+      this.stats.rangesDiverged++;
+      const leavesReply = await this.options.send(peer, { type: 'MERKLE_LEAVES', range: this.toWire(ranges[i]) });
+      if (leavesReply?.status !== 'ok') continue;
+
+      const buckets = trees[i].diffLeaves(leavesReply.leaves);
+      if (buckets.length === 0) {
+        synced.push(ranges[i]);
+        continue;
+      }
+
+      // Pull first and merge, then push our merged view of whatever still differs.
+      // Pushing after merging keeps concurrent versions from swapping back and forth.
+      const before = this.entriesIn(entries[i], ranges[i], buckets);
+      const pullReply = await this.options.send(peer, {
+        type: 'ANTI_ENTROPY_PULL',
+        range: this.toWire(ranges[i]),
+        buckets,
+        digests: this.digestsOf(before)
+      });
+      if (pullReply?.status !== 'ok') continue;
+
+      await this.applyAll(pullReply.entries);
+      this.stats.entriesReceived += pullReply.entries.length;
+      synced.push(ranges[i]);
+
+      const after = this.entriesIn(await this.options.loadEntries(ranges[i]), ranges[i], buckets);
+      const theirDigests: Record<string, string> = pullReply.digests;
+      const ourDigests = this.digestsOf(after);
+      const toPush = after.filter(e => theirDigests[this.keyOf(e)] !== ourDigests[this.keyOf(e)]);
+
+      if (toPush.length > 0) {
+        const pushReply = await this.options.send(peer, { type: 'ANTI_ENTROPY_PUSH', entries: toPush });
+        if (pushReply?.status === 'ok') this.stats.entriesSent += toPush.length;
+      }
+
+      console.log(
+        `🌳 Anti-entropy with node ${peer}: ${buckets.length} differing buckets, ` +
+        `received ${pullReply.entries.length}, sent ${toPush.length} entries`
+      );
+    }
+    return synced;
+  }
+
+  /**
+   * Applies lists before items so that an item's parent list exists.
+   */
+  private async applyAll(entries: AntiEntropyEntry[]): Promise<void> {
+    const ordered = [...entries].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'list' ? -1 : 1));
+    for (const entry of ordered) {
+      await this.options.applyEntry(entry);
+    }
+  }
+
+  private buildTree(entries: AntiEntropyEntry[], range: RingRange): MerkleTree {
+    const leaves: MerkleEntry[] = entries
+      .filter(e => rangeContains(range, hashKey(e.id)))
+      .map(e => ({ key: this.keyOf(e), digest: digestOf(replicatedFields(e.kind, e.data)) }));
+    return new MerkleTree(leaves, this.leafCount);
+  }
+
+  private entriesIn(entries: AntiEntropyEntry[], range: RingRange, buckets: number[]): AntiEntropyEntry[] {
+    const wanted = new Set(buckets);
+    return entries.filter(e =>
+      rangeContains(range, hashKey(e.id)) && wanted.has(MerkleTree.bucketOf(this.keyOf(e), this.leafCount))
+    );
+  }
+
+  private digestsOf(entries: AntiEntropyEntry[]): Record<string, string> {
+    const digests: Record<string, string> = {};
+    for (const entry of entries) {
+      digests[this.keyOf(entry)] = digestOf(replicatedFields(entry.kind, entry.data));
+    }
+    return digests;
+  }
+
+  private keyOf(entry: AntiEntropyEntry): string {
+    return `${entry.kind}:${entry.id}`;
+  }
+
+  private toWire(range: RingRange): WireRange {
+    return { start: range.start.toString(16), end: range.end.toString(16) };
+  }
+
+  private fromWire(range: WireRange): RingRange {
+    return { start: BigInt('0x' + range.start), end: BigInt('0x' + range.end) };
+  }
+}
@@ -0,0 +1,99 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import cloudConfig from './cloudConfig.json';
+import { Envelope, ProtocolError } from './protocol';
+
+let warnedAboutDevSecret = false;
+
+export interface AuthOptions {
+  /** How far a message's timestamp may be from the local clock. */
+  maxClockSkewMs: number;
+}
+
+/**
+ * Signs and verifies envelopes with an HMAC-SHA256 over a secret shared by every
+ * node and the coordinator. A signature covers the envelope's header fields, a
+ * timestamp and the payload, so nothing can be altered in transit. A message is
+ * accepted once: its id is remembered for as long as its timestamp is within the
+ * allowed clock skew, and anything older is rejected outright.
+ */
+export class MessageAuthenticator {
+  private secret: Buffer;
+  private options: AuthOptions;
+  private seen: Map<string, number> = new Map(); // sender/id -> when it may be forgotten
+  private lastPrune = 0;
+
+  constructor(secret: string | Buffer, options: Partial<AuthOptions> = {}) {
+    if (!secret || secret.length === 0) {
+      throw new Error('Message authentication needs a non-empty secret');
+    }
+    this.secret = Buffer.isBuffer(secret) ? secret : Buffer.from(secret);
+    this.options = { maxClockSkewMs: cloudConfig.auth.maxClockSkewMs, ...options };
+  }
+
+  /**
+   * Authenticator using the secret in the environment variable named by
+   * `cloudConfig.auth.secretEnv`, or the development secret when it is unset.
+   */
+  static fromConfig(): MessageAuthenticator {
+    const secret = process.env[cloudConfig.auth.secretEnv];
+    if (!secret && !warnedAboutDevSecret) {
+      warnedAboutDevSecret = true;
+      console.warn(`⚠️ ${cloudConfig.auth.secretEnv} is not set; signing messages with the development secret`);
+    }
+    return new MessageAuthenticator(secret || cloudConfig.auth.devSecret);
+  }
+
+  /**
+   * Stamps the envelope with the current time and its signature.
+   */
+  sign(envelope: Envelope): void {
+    envelope.timestamp = Date.now();
+    envelope.signature = this.signatureOf(envelope);
+  }
+
+  /**
+   * Throws UNAUTHENTICATED unless the envelope carries a valid signature, is
+   * recent and has not been seen before.
+   */
+  verify(envelope: Envelope, now: number = Date.now()): void {
+    if (typeof envelope.signature !== 'string' || typeof envelope.timestamp !== 'number') {
+      throw new ProtocolError(`Message from ${envelope.sender} is not signed`, 'UNAUTHENTICATED');
+    }
+
+    const expected = Buffer.from(this.signatureOf(envelope), 'hex');
+    const actual = Buffer.from(envelope.signature, 'hex');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new ProtocolError(`Message from ${envelope.sender} has an invalid signature`, 'UNAUTHENTICATED');
+    }
+
+    if (Math.abs(now - envelope.timestamp) > this.options.maxClockSkewMs) {
+      throw new ProtocolError(`Message from ${envelope.sender} is ${now - envelope.timestamp}ms off`, 'UNAUTHENTICATED');
+    }
+
+    this.prune(now);
+    const key = `${envelope.sender}/${envelope.id}`;
+    if (this.seen.has(key)) {
+      throw new ProtocolError(`Message ${envelope.id} from ${envelope.sender} is a replay`, 'UNAUTHENTICATED');
+    }
+    this.seen.set(key, envelope.timestamp + this.options.maxClockSkewMs);
+  }
+
+  private signatureOf(envelope: Envelope): string {
+    const { version, id, sender, type, replyTo, timestamp, payload } = envelope;
+    return createHmac('sha256', this.secret)
+      .update(`${version}\n${id}\n${sender}\n${type}\n${replyTo ?? ''}\n${timestamp}\n`)
+      .update(JSON.stringify(payload))
+      .digest('hex');
+  }
+
+  /**
+   * Forgets ids that are too old to be accepted anyway, at most once a second.
+   */
+  private prune(now: number): void {
+    if (now - this.lastPrune < 1000) return;
+    this.lastPrune = now;
+    for (const [key, forgetAt] of this.seen) {
+      if (forgetAt < now) this.seen.delete(key);
+    }
+  }
+}
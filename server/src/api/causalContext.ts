@@ -0,0 +1,60 @@
+import express from 'express';
+import { VectorClock } from '../crdt/VectorClock';
+import { Clock, mergeClocks } from './versions';
+
+/**
+ * Header carrying a causal context as JSON: the merged vector clock of every
+ * version a reader has seen. Reads return it; writes that send it back are
+ * treated as resolving all of those versions. Writes may also pass it as `context` in the body.
+ */
+export const CAUSAL_CONTEXT_HEADER = 'X-Causal-Context';
+
+/**
+ * Parses a causal context. Returns null for anything that is not a map of node ids to counters.
+ */
+export function parseCausalContext(value: unknown): Clock | null {
+  let context: any = value;
+  if (typeof value === 'string') {
+    try {
+      context = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!context || typeof context !== 'object' || Array.isArray(context)) return null;
+  const valid = Object.values(context).every(counter => Number.isInteger(counter) && (counter as number) >= 0);
+  return valid ? context : null;
+}
+
+/**
+ * Express middleware that reads a causal context into `res.locals.causalContext`
+ * (null when the request carries none). Malformed contexts are rejected with 400.
+ */
+export function causalContextMiddleware(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const supplied = req.get(CAUSAL_CONTEXT_HEADER) ?? req.body?.context;
+  if (supplied === undefined) {
+    res.locals.causalContext = null;
+    return next();
+  }
+
+  const context = parseCausalContext(supplied);
+  if (!context) {
+    res.status(400).json({ error: `Invalid causal context: ${typeof supplied === 'string' ? supplied : JSON.stringify(supplied)}` });
+    return;
+  }
+
+  res.locals.causalContext = context;
+  next();
+}
+
+/**
+ * Clock for a write that resolves the versions covered by `context`: it descends
+ * from both the local version and the context, plus one event at `nodeId`.
+ */
+export function resolvingClock(vectorClock: Clock | string | undefined, context: Clock, nodeId: string): Clock {
+  const vc = new VectorClock();
+  vc.fromObject(mergeClocks([vectorClock, context]));
+  vc.increment(nodeId);
+  return vc.toObject();
+}
@@ -1,16 +1,12 @@
 import { ShoppingListServer } from './server';
 import cloudConfig from './cloudConfig.json';
-import { hashKey, hashNode } from './partitioning';
+import { Partitioner } from './partitioning';
+import { NodeAddress } from './addresses';
 import { VectorClock } from '../crdt/VectorClock';
 
 interface Node {
   server: ShoppingListServer;
-  port: number;
-}
-
-interface RingNode {
-  port: number;
-  hash: bigint;
+  address: NodeAddress;
 }
 
 /**
@@ -19,7 +15,7 @@ interface RingNode {
  */
 export class ShoppingListCloud {
   private nodes: Node[] = [];
-  private ring: RingNode[] = [];
+  private partitioner: Partitioner;
   private replicaCount = 3;
   private R: number;
   private W: number;
@@ -27,76 +23,96 @@ export class ShoppingListCloud {
   constructor() {
     this.W = Math.ceil(this.replicaCount / 2);
     this.R = Math.ceil(this.replicaCount / 2);
+    this.partitioner = new Partitioner([], { replicationFactor: this.replicaCount });
     this.initializeNodes();
     this.initializeRing();
   }
 
   private initializeNodes() {
     for (let i = 0; i < cloudConfig.numServers; i++) {
-      const port = cloudConfig.servers[i];
-      const node = new ShoppingListServer(port);
-      this.nodes.push({ server: node, port });
+      const address = cloudConfig.servers[i];
+      const node = new ShoppingListServer(address);
+      this.nodes.push({ server: node, address });
     }
   }
 
   private initializeRing() {
-    this.ring = this.nodes
-      .map(node => ({ port: node.port, hash: hashNode(node.port) }))
-      .sort((a, b) => (a.hash < b.hash ? -1 : 1));
+    this.partitioner.setNodes(this.nodes.map(node => node.address));
 
     console.log(
       'Consistent Hash Ring:',
-      this.ring.map(n => `${n.port}:${n.hash.toString().slice(0, 6)}`).join(' -> ')
+      this.partitioner.getNodes()
+        .map(address => `${address}=${(this.partitioner.getOwnershipShare(address, true) * 100).toFixed(1)}%`)
+        .join(' ')
     );
   }
 
-  public getReplicas(key: string): number[] {
-    if (this.ring.length === 0) throw new Error('Hash ring not initialized');
-
-    const keyHash = hashKey(key);
-    let idx = this.ring.findIndex(n => n.hash >= keyHash);
-    if (idx === -1) idx = 0;
-
-    const replicas: number[] = [];
-    for (let i = 0; i < this.replicaCount; i++) {
-      replicas.push(this.ring[(idx + i) % this.ring.length].port);
-    }
+  public getReplicas(key: string): NodeAddress[] {
+    return this.partitioner.getPreferenceList(key);
+  }
 
-    return replicas;
+  public getPartitioner(): Partitioner {
+    return this.partitioner;
   }
 
   public async startCloud() {
     for (const node of this.nodes) {
       await node.server.start();
-      console.log(`Node running at http://localhost:${node.port}`);
+      console.log(`Node running at http://${node.address}`);
     }
 
     await this.initializeMessaging();
   }
 
   private async initializeMessaging() {
-    const total = this.nodes.length;
-    const coordinatorPort = cloudConfig.coordinator.zmqPort;
-
-    for (let i = 0; i < total; i++) {
-      const node = this.nodes[i];
-      
+    for (const node of this.nodes) {
       // For quorum to work with N=3, each node needs to connect to ALL other nodes
-      const allOtherZmqPorts: number[] = [];
-      
-      for (let j = 0; j < total; j++) {
-        if (i !== j) {
-          const otherHttpPort = cloudConfig.servers[j];
-          allOtherZmqPorts.push(otherHttpPort + cloudConfig.storage.zmqPortOffset);
-        }
-      }
-
-      const repPort = node.port + cloudConfig.storage.zmqPortOffset;
-      console.log(
-        `Node ${node.port}: ZMQ REP on ${repPort}, connecting to all nodes: ${allOtherZmqPorts.join(', ')}`
-      );
-
-      await node.server.initMessaging(repPort, allOtherZmqPorts, coordinatorPort);
+      const others = this.nodes.filter(other => other !== node).map(other => other.address);
+      console.log(`Node ${node.address}: connecting to all nodes: ${others.join(', ')}`);
+
+      await node.server.initMessaging(others, cloudConfig.coordinator.zmq);
+    }
+  }
+
+  /**
+   * Starts a new storage node and joins it to the running cluster.
+   * An existing member announces the new view, so every node updates its ring.
+   */
+  public async addNode(address: NodeAddress): Promise<void> {
+    if (this.nodes.some(n => n.address === address)) {
+      throw new Error(`Node ${address} is already part of the cloud`);
     }
+
+    const server = new ShoppingListServer(address);
+    await server.start();
+    await server.initMessaging(this.nodes.map(n => n.address), cloudConfig.coordinator.zmq);
+
+    const sponsor = this.nodes[0];
+    this.nodes.push({ server, address });
+    if (sponsor) {
+      await sponsor.server.joinNode(address);
+    }
+
+    this.initializeRing();
+    console.log(`Node ${address} joined the cloud`);
+  }
+
+  /**
+   * Retires a storage node: the remaining members drop it from their ring, then it is stopped.
+   */
+  public async removeNode(address: NodeAddress): Promise<void> {
+    const node = this.nodes.find(n => n.address === address);
+    if (!node) throw new Error(`Node ${address} is not part of the cloud`);
+
+    const sponsor = this.nodes.find(n => n.address !== address);
+    if (sponsor) {
+      await sponsor.server.leaveNode(address);
+    }
+
+    await node.server.stop();
+    this.nodes = this.nodes.filter(n => n.address !== address);
+
+    this.initializeRing();
+    console.log(`Node ${address} left the cloud`);
   }
 }
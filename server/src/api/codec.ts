@@ -0,0 +1,276 @@
+/**
+ * Serializes protocol envelopes to bytes. Which codec a message uses is told by
+ * its first byte, so a receiver can decode anything it supports and answer in kind.
+ */
+export interface Codec {
+  readonly name: CodecName;
+  encode(value: any): Buffer;
+  decode(data: Buffer): any;
+}
+
+export type CodecName = 'json' | 'binary';
+
+export const JSON_CODEC: Codec = {
+  name: 'json',
+  encode: value => Buffer.from(JSON.stringify(value)),
+  decode: data => JSON.parse(data.toString())
+};
+
+// First two bytes of a binary message: a byte JSON never starts with, then the format version
+const BINARY_MAGIC = 0xb1;
+const BINARY_FORMAT = 1;
+
+const enum Tag {
+  Null = 0x00,
+  False = 0x01,
+  True = 0x02,
+  Int = 0x03,
+  Float = 0x04,
+  String = 0x05,
+  StringRef = 0x06,
+  Hex = 0x07,
+  Uuid = 0x08,
+  Array = 0x09,
+  Object = 0x0a
+}
+
+const HEX = /^(?:[0-9a-f]{2}){8,}$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const MAX_VARINT_INT = 2 ** 51;
+
+class Writer {
+  private buffer = Buffer.allocUnsafe(256);
+  private length = 0;
+  private strings = new Map<string, number>();
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  /** Unsigned LEB128; arithmetic rather than bitwise so it holds up to 2^53. */
+  varint(value: number): void {
+    while (value >= 0x80) {
+      this.byte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  bytes(data: Buffer): void {
+    this.reserve(data.length);
+    data.copy(this.buffer, this.length);
+    this.length += data.length;
+  }
+
+  float(value: number): void {
+    this.reserve(8);
+    this.buffer.writeDoubleLE(value, this.length);
+    this.length += 8;
+  }
+
+  /**
+   * Strings are interned: a repeat (field names, ids, node ids in vector clocks)
+   * is written as the index of its first occurrence. Hex digests and UUIDs are
+   * packed into raw bytes.
+   */
+  string(value: string): void {
+    const seen = this.strings.get(value);
+    if (seen !== undefined) {
+      this.byte(Tag.StringRef);
+      this.varint(seen);
+      return;
+    }
+    this.strings.set(value, this.strings.size);
+
+    if (UUID.test(value)) {
+      this.byte(Tag.Uuid);
+      this.bytes(Buffer.from(value.replace(/-/g, ''), 'hex'));
+    } else if (HEX.test(value)) {
+      this.byte(Tag.Hex);
+      this.varint(value.length / 2);
+      this.bytes(Buffer.from(value, 'hex'));
+    } else {
+      const data = Buffer.from(value, 'utf8');
+      this.byte(Tag.String);
+      this.varint(data.length);
+      this.bytes(data);
+    }
+  }
+
+  value(value: any): void {
+    if (value === null || value === undefined) {
+      this.byte(Tag.Null);
+    } else if (typeof value === 'boolean') {
+      this.byte(value ? Tag.True : Tag.False);
+    } else if (typeof value === 'number') {
+      if (Number.isInteger(value) && Math.abs(value) < MAX_VARINT_INT) {
+        // Zig-zag so small negative numbers stay short
+        this.byte(Tag.Int);
+        this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+      } else {
+        this.byte(Tag.Float);
+        this.float(value);
+      }
+    } else if (typeof value === 'string') {
+      this.string(value);
+    } else if (Array.isArray(value)) {
+      this.byte(Tag.Array);
+      this.varint(value.length);
+      value.forEach(element => this.value(element));
+    } else if (typeof value === 'object') {
+      if (typeof value.toJSON === 'function') return this.value(value.toJSON());
+      // Like JSON, fields that are undefined are left out
+      const entries = Object.entries(value).filter(([, field]) => field !== undefined);
+      this.byte(Tag.Object);
+      this.varint(entries.length);
+      for (const [key, field] of entries) {
+        this.string(key);
+        this.value(field);
+      }
+    } else {
+      throw new Error(`Cannot encode a ${typeof value}`);
+    }
+  }
+
+  result(): Buffer {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + size));
+    this.buffer.copy(grown, 0, 0, this.length);
+    this.buffer = grown;
+  }
+}
+
+class Reader {
+  private offset = 0;
+  private strings: string[] = [];
+
+  constructor(private data: Buffer) {}
+
+  byte(): number {
+    if (this.offset >= this.data.length) throw new Error('Unexpected end of binary message');
+    return this.data[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  bytes(length: number): Buffer {
+    if (this.offset + length > this.data.length) throw new Error('Unexpected end of binary message');
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  string(): string {
+    const value = this.value();
+    if (typeof value !== 'string') throw new Error('Expected a string key in binary message');
+    return value;
+  }
+
+  value(): any {
+    const tag = this.byte();
+    switch (tag) {
+      case Tag.Null:
+        return null;
+      case Tag.False:
+        return false;
+      case Tag.True:
+        return true;
+      case Tag.Int: {
+        const zigzag = this.varint();
+        return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+      }
+      case Tag.Float:
+        return this.bytes(8).readDoubleLE(0);
+      case Tag.String:
+        return this.intern(this.bytes(this.varint()).toString('utf8'));
+      case Tag.Hex:
+        return this.intern(this.bytes(this.varint()).toString('hex'));
+      case Tag.Uuid: {
+        const hex = this.bytes(16).toString('hex');
+        return this.intern(`${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`);
+      }
+      case Tag.StringRef: {
+        const index = this.varint();
+        if (index >= this.strings.length) throw new Error(`Unknown string reference ${index}`);
+        return this.strings[index];
+      }
+      case Tag.Array: {
+        const length = this.varint();
+        const array = [];
+        for (let i = 0; i < length; i++) array.push(this.value());
+        return array;
+      }
+      case Tag.Object: {
+        const count = this.varint();
+        const object: Record<string, any> = {};
+        for (let i = 0; i < count; i++) {
+          const key = this.string();
+          object[key] = this.value();
+        }
+        return object;
+      }
+      default:
+        throw new Error(`Unknown tag 0x${tag.toString(16)} in binary message`);
+    }
+  }
+
+  end(): void {
+    if (this.offset !== this.data.length) throw new Error('Trailing bytes after binary message');
+  }
+
+  private intern(value: string): string {
+    this.strings.push(value);
+    return value;
+  }
+}
+
+/**
+ * Hand-rolled compact encoding of JSON-compatible values: tagged values,
+ * varint integers, interned strings and packed hex digests and UUIDs.
+ */
+export const BINARY_CODEC: Codec = {
+  name: 'binary',
+  encode: value => {
+    const writer = new Writer();
+    writer.byte(BINARY_MAGIC);
+    writer.byte(BINARY_FORMAT);
+    writer.value(value);
+    return writer.result();
+  },
+  decode: data => {
+    const reader = new Reader(data);
+    reader.byte();
+    const format = reader.byte();
+    if (format !== BINARY_FORMAT) throw new Error(`Unsupported binary format ${format}`);
+    const value = reader.value();
+    reader.end();
+    return value;
+  }
+};
+
+const CODECS: Record<CodecName, Codec> = { json: JSON_CODEC, binary: BINARY_CODEC };
+
+export function codecNamed(name: string): Codec | undefined {
+  return CODECS[name as CodecName];
+}
+
+/**
+ * Codec a received message was encoded with.
+ */
+export function detectCodec(data: Buffer): Codec {
+  return data[0] === BINARY_MAGIC ? BINARY_CODEC : JSON_CODEC;
+}
@@ -0,0 +1,48 @@
+import express from 'express';
+
+/**
+ * How many replicas must acknowledge an operation.
+ * ONE: any single replica, QUORUM: R for reads and W for writes, ALL: every replica in the preference list.
+ */
+export type ConsistencyLevel = 'ONE' | 'QUORUM' | 'ALL';
+
+export const CONSISTENCY_LEVELS: ConsistencyLevel[] = ['ONE', 'QUORUM', 'ALL'];
+export const DEFAULT_CONSISTENCY: ConsistencyLevel = 'QUORUM';
+
+/** Request header (or `consistency` query parameter) selecting the level. */
+export const CONSISTENCY_HEADER = 'X-Consistency-Level';
+/** Response header reporting the level the replicas actually reached. */
+export const ACHIEVED_CONSISTENCY_HEADER = 'X-Consistency-Achieved';
+
+/**
+ * Parses a level case-insensitively. Returns null for unknown values.
+ */
+export function parseConsistencyLevel(value: unknown): ConsistencyLevel | null {
+  if (typeof value !== 'string') return null;
+  const level = value.trim().toUpperCase() as ConsistencyLevel;
+  return CONSISTENCY_LEVELS.includes(level) ? level : null;
+}
+
+/**
+ * Express middleware that reads the requested level into `res.locals.consistency`.
+ * The header takes precedence over the query parameter; unknown levels are rejected with 400.
+ */
+export function consistencyMiddleware(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const requested = req.get(CONSISTENCY_HEADER) ?? req.query.consistency;
+  if (requested === undefined) {
+    res.locals.consistency = DEFAULT_CONSISTENCY;
+    return next();
+  }
+
+  const level = parseConsistencyLevel(requested);
+  if (!level) {
+    res.status(400).json({
+      error: `Invalid consistency level: ${requested}`,
+      allowed: CONSISTENCY_LEVELS
+    });
+    return;
+  }
+
+  res.locals.consistency = level;
+  next();
+}
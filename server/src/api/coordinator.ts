@@ -1,6 +1,17 @@
 import express from 'express';
-import { Reply } from 'zeromq';
+import { Router } from 'zeromq';
 import cloudConfig from './cloudConfig.json';
+import { ClusterMembership, MembershipView } from './membership';
+import { Partitioner } from './partitioning';
+import { detectCodec } from './codec';
+import { Envelope, errorReply, operationOf, Operation, ProtocolError } from './protocol';
+import { combineTrafficStats, TrafficStats, WireEndpoint } from './wire';
+import { PeerChannel, serveRequests } from './peerChannel';
+import { clusterLiveness, LivenessReport } from './failureDetector';
+import { isAddress, messagingAddress, NodeAddress, NodeBindings, parseAddress, tcpEndpoint } from './addresses';
+
+/** Sender id of the coordinator in protocol envelopes. */
+const COORDINATOR_SENDER = 'coordinator';
 
 /**
  * Coordinator server for Dynamo-style architecture.
@@ -10,15 +21,27 @@ import cloudConfig from './cloudConfig.json';
 export class CoordinatorServer {
   private app: express.Application;
   private port: number;
-  private repSocket!: Reply;
+  private bind: NodeBindings;
+  private routerSocket!: Router;
   private sseClients: Map<express.Response, NodeJS.Timeout> = new Map();
   private isRunning: boolean = false;
   private zmqListenerAbortController?: AbortController;
   private httpServer?: any;
+  // Seeded from cloudConfig.servers at version 0 and replaced by the views storage nodes report
+  private membership: ClusterMembership = new ClusterMembership();
+  private nodeChannels: Map<NodeAddress, PeerChannel> = new Map();
+  private partitioner: Partitioner = new Partitioner(cloudConfig.servers);
+  private wire: WireEndpoint = new WireEndpoint(COORDINATOR_SENDER);
 
-  constructor(port: number = cloudConfig.coordinator.httpPort) {
+  /**
+   * @param bind host:port to listen on; HTTP defaults to every interface at the
+   *   port of `cloudConfig.coordinator.http`, ZeroMQ to `cloudConfig.coordinator.zmq`
+   */
+  constructor(bind: NodeBindings = {}) {
     this.app = express();
-    this.port = port;
+    this.bind = bind;
+    this.port = parseAddress(bind.http ?? cloudConfig.coordinator.http).port;
+    this.membership.onChange(view => this.partitioner.setNodes(view.members));
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -46,6 +69,76 @@ export class CoordinatorServer {
       res.json({ status: 'OK', role: 'coordinator', timestamp: Date.now() });
     });
 
+    this.app.get('/api/cluster/members', (_req, res) => {
+      res.json(this.membership.getView());
+    });
+
+    // Admin view of ring placement: ownership per node
+    this.app.get('/api/cluster/ring', (_req, res) => {
+      res.json(this.partitioner.getNodes().map(node => ({
+        node,
+        primaryShare: this.partitioner.getOwnershipShare(node, true),
+        replicaShare: this.partitioner.getOwnershipShare(node),
+        ranges: this.partitioner.getOwnershipRanges(node).map(r => ({
+          start: r.start.toString(16),
+          end: r.end.toString(16)
+        }))
+      })));
+    });
+
+    // Admin view of ring placement: preference list for a key
+    this.app.get('/api/cluster/ring/:key', (req, res) => {
+      res.json({ key: req.params.key, replicas: this.partitioner.getPreferenceList(req.params.key) });
+    });
+
+    // Replication traffic per message type, per node and summed over the cluster
+    this.app.get('/api/cluster/traffic', async (_req, res) => {
+      const nodes: Record<NodeAddress, TrafficStats> = {};
+      await Promise.all(this.membership.getMembers().map(async node => {
+        try {
+          const reply = await this.sendToNode(node, { type: 'TRAFFIC_STATS' }, 1000);
+          if (reply?.status === 'ok') nodes[node] = reply.traffic;
+        } catch (err) {
+          console.warn(`⚠️ Node ${node} did not report traffic:`, (err as Error).message);
+        }
+      }));
+
+      const coordinator = this.wire.getStats();
+      res.json({ nodes, coordinator, total: combineTrafficStats([...Object.values(nodes), coordinator]) });
+    });
+
+    // Each member's view of the others' liveness, and the verdict most of them agree on
+    this.app.get('/api/cluster/health', async (_req, res) => {
+      const members = this.membership.getMembers();
+      const views: Record<NodeAddress, LivenessReport[]> = {};
+      await Promise.all(members.map(async node => {
+        try {
+          const reply = await this.sendToNode(node, { type: 'LIVENESS' }, 1000);
+          if (reply?.status === 'ok') views[node] = reply.members;
+        } catch (err) {
+          console.warn(`⚠️ Node ${node} did not report liveness:`, (err as Error).message);
+        }
+      }));
+
+      res.json({ members: clusterLiveness(members, views), views });
+    });
+
+    this.app.post('/api/cluster/join', async (req, res) => {
+      const address = req.body.address;
+      if (!isAddress(address)) return res.status(400).json({ error: 'Node address (host:port) is required' });
+
+      const { status, body } = await this.changeMembership('join', address);
+      res.status(status).json(body);
+    });
+
+    this.app.post('/api/cluster/leave', async (req, res) => {
+      const address = req.body.address;
+      if (!isAddress(address)) return res.status(400).json({ error: 'Node address (host:port) is required' });
+
+      const { status, body } = await this.changeMembership('leave', address);
+      res.status(status).json(body);
+    });
+
     this.app.get('/api/events', (req, res) => {
       res.setHeader('Content-Type', 'text/event-stream');
       res.setHeader('Cache-Control', 'no-cache');
@@ -81,67 +174,97 @@ export class CoordinatorServer {
     }
   }
 
-  public async initMessaging(repPort: number) {
-    if (this.repSocket) {
-      this.repSocket.close();
+  /**
+   * Has a member add or remove a node. Views are only ever numbered by storage
+   * nodes: the first member that answers proposes the new view and announces it
+   * to the others and to this coordinator, which adopts it like any node update.
+   * A node leaving is asked last, so the remaining members announce its departure.
+   */
+  public async changeMembership(change: 'join' | 'leave', address: NodeAddress): Promise<{ status: number; body: any }> {
+    const members = this.membership.getMembers();
+    const candidates = [...members.filter(node => node !== address), ...members.filter(node => node === address)];
+
+    for (const node of candidates) {
+      try {
+        const response = await fetch(`http://${node}/api/cluster/${change}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ address })
+        });
+        const body = await response.json() as any;
+        if (response.status >= 500) {
+          console.warn(`⚠️ Node ${node} failed to ${change} ${address} with status ${response.status}`);
+          continue;
+        }
+        // 409/404 replies carry the node's current view, which may be newer than ours
+        const view = response.ok ? body : body.view;
+        if (view) await this.adoptView(view);
+        return { status: response.status, body };
+      } catch (err) {
+        console.warn(`⚠️ Node ${node} is unreachable:`, (err as Error).message);
+      }
     }
+    return { status: 503, body: { error: 'No member answered', view: this.membership.getView() } };
+  }
 
-    this.repSocket = new Reply();
-    await this.repSocket.bind(`tcp://127.0.0.1:${repPort}`);
-    console.log(`📨 Coordinator listening for gossip on tcp://127.0.0.1:${repPort}`);
+  /**
+   * Asks every known member for its view and adopts the one that supersedes the
+   * rest, so a coordinator started after joins and leaves catches up.
+   */
+  public async syncMembership(): Promise<MembershipView> {
+    await Promise.all(this.membership.getMembers().map(async node => {
+      try {
+        const response = await fetch(`http://${node}/api/cluster/members`);
+        if (response.ok) await this.adoptView(await response.json() as MembershipView);
+      } catch (err) {
+        console.warn(`⚠️ Node ${node} did not report its membership view:`, (err as Error).message);
+      }
+    }));
+    return this.membership.getView();
+  }
+
+  private async adoptView(view: MembershipView): Promise<void> {
+    if (await this.membership.applyView(view)) {
+      console.log(`👥 Coordinator adopted membership v${view.version}: [${view.members.join(', ')}]`);
+      this.broadcastUpdate('membership-changed', view);
+    }
+  }
+
+  /**
+   * Sends a request to a storage node over its channel, opened on first use.
+   */
+  private async sendToNode(node: NodeAddress, message: Operation, timeoutMs: number): Promise<any> {
+    let channel = this.nodeChannels.get(node);
+    if (!channel) {
+      channel = new PeerChannel(tcpEndpoint(messagingAddress(node)), this.wire);
+      this.nodeChannels.set(node, channel);
+    }
+
+    const reply = await channel.request(message, timeoutMs);
+    if (!reply) {
+      throw new Error(`Timeout waiting for node ${node}`);
+    }
+    return reply;
+  }
+
+  public async initMessaging(address: string) {
+    if (this.routerSocket) {
+      this.routerSocket.close();
+    }
+
+    this.routerSocket = new Router();
+    await this.routerSocket.bind(tcpEndpoint(address));
+    console.log(`📨 Coordinator listening for gossip on ${tcpEndpoint(address)}`);
 
     this.zmqListenerAbortController = new AbortController();
     this.listenForGossip();
   }
 
   private async listenForGossip() {
+    const stopped = () => !this.isRunning || !!this.zmqListenerAbortController?.signal.aborted;
     try {
-      for await (const [msg] of this.repSocket) {
-        if (!this.isRunning || this.zmqListenerAbortController?.signal.aborted) {
-          console.log('Coordinator gossip listener stopping...');
-          break;
-        }
-
-        try {
-          const update = JSON.parse(msg.toString());
-          
-          // Broadcast to SSE clients based on update type
-          if (update.type === 'BROADCAST') {
-            // Direct broadcast from storage node
-            this.broadcastUpdate(update.event, update.data);
-          } else {
-            // Legacy gossip format
-            switch (update.type) {
-              case 'CREATE_LIST':
-                this.broadcastUpdate('list-created', update.list);
-                break;
-              case 'ADD_ITEM':
-                this.broadcastUpdate('item-added', { listId: update.item.listId, item: update.item });
-                break;
-              case 'UPDATE_ITEM':
-                this.broadcastUpdate('item-updated', update.item);
-                break;
-              case 'TOGGLE_CHECK':
-                this.broadcastUpdate('item-toggled', update.item);
-                break;
-              case 'UPDATE_QUANTITY':
-                this.broadcastUpdate('item-quantity-updated', update.item);
-                break;
-              case 'REMOVE_ITEM':
-                this.broadcastUpdate('item-removed', { itemId: update.itemId });
-                break;
-              case 'DELETE_LIST':
-                this.broadcastUpdate('list-deleted', { listId: update.listId });
-                break;
-            }
-          }
-
-          await this.repSocket.send(JSON.stringify({ status: 'ok' }));
-        } catch (err) {
-          console.error('Error handling gossip message:', err);
-          await this.repSocket.send(JSON.stringify({ status: 'error' }));
-        }
-      }
+      await serveRequests(this.routerSocket, msg => this.answerGossip(msg), stopped);
+      console.log('Coordinator gossip listener stopping...');
     } catch (err) {
       if (this.isRunning) {
         console.error('Coordinator gossip listener error:', err);
@@ -149,6 +272,43 @@ export class CoordinatorServer {
     }
   }
 
+  /**
+   * Handles a message from a storage node; the reply uses the codec the message came in.
+   */
+  private async answerGossip(msg: Buffer): Promise<Buffer> {
+    const codec = detectCodec(msg);
+    let request: Envelope | undefined;
+    try {
+      request = this.wire.decodeRequest(msg).envelope;
+      const update = operationOf(request);
+
+      if (update.type === 'HELLO') {
+        // A storage node opened a connection and asks which codec to use on it
+        const chosen = this.wire.chooseCodec(update.codecs);
+        return this.wire.encodeReply({ status: 'ok', codec: chosen.name }, request, codec);
+      }
+
+      // Broadcast to SSE clients based on update type
+      if (update.type === 'BROADCAST') {
+        // Direct broadcast from storage node
+        this.broadcastUpdate(update.event, update.data);
+      } else if (update.type === 'MEMBERSHIP_UPDATE') {
+        // A storage node changed membership; keep our view in step
+        await this.adoptView(update.view);
+      } else {
+        throw new Error(`Coordinator does not handle ${update.type} messages`);
+      }
+
+      return this.wire.encodeReply({ status: 'ok' }, request, codec);
+    } catch (err) {
+      // Rejected messages were already logged without a stack trace
+      if (!(err instanceof ProtocolError && err.code === 'UNAUTHENTICATED')) {
+        console.error('Error handling gossip message:', err);
+      }
+      return this.wire.encodeReply(errorReply(err as Error), request, codec);
+    }
+  }
+
   public async start(): Promise<void> {
     if (this.isRunning) return;
 
@@ -156,14 +316,20 @@ export class CoordinatorServer {
     
     // Start HTTP server
     await new Promise<void>((resolve) => {
-      this.httpServer = this.app.listen(this.port, () => {
-        console.log(`🎯 Coordinator server running on http://localhost:${this.port}`);
+      const onListening = () => {
+        console.log(`🎯 Coordinator server running on ${this.bind.http ?? `port ${this.port}`}`);
         resolve();
-      });
+      };
+      this.httpServer = this.bind.http
+        ? this.app.listen(this.port, parseAddress(this.bind.http).host, onListening)
+        : this.app.listen(this.port, onListening);
     });
 
     // Initialize ZeroMQ listener for gossip
-    await this.initMessaging(cloudConfig.coordinator.zmqPort);
+    await this.initMessaging(this.bind.zmq ?? cloudConfig.coordinator.zmq);
+
+    // Nodes may have changed membership while the coordinator was down
+    this.syncMembership().catch(err => console.error('Error syncing membership:', err));
   }
 
   public async stop(): Promise<void> {
@@ -177,9 +343,14 @@ export class CoordinatorServer {
       this.zmqListenerAbortController.abort();
     }
 
-    if (this.repSocket) {
-      this.repSocket.close();
+    if (this.routerSocket) {
+      this.routerSocket.close();
+    }
+
+    for (const channel of this.nodeChannels.values()) {
+      channel.close();
     }
+    this.nodeChannels.clear();
 
     // Close all SSE connections
     for (const [client, heartbeat] of this.sseClients) {
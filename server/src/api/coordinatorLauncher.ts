@@ -1,11 +1,17 @@
 import { CoordinatorServer } from './coordinator';
+import { option } from './launchOptions';
 import cloudConfig from './cloudConfig.json';
 
-const coordinator = new CoordinatorServer(cloudConfig.coordinator.httpPort);
+// host:port to listen on: --http (COORDINATOR_HTTP) and --zmq (COORDINATOR_ZMQ)
+const bind = {
+  http: option('http', 'COORDINATOR_HTTP'),
+  zmq: option('zmq', 'COORDINATOR_ZMQ')
+};
+const coordinator = new CoordinatorServer(bind);
 
 coordinator.start().then(() => {
-  console.log(`✅ Coordinator ready for SSE connections on port ${cloudConfig.coordinator.httpPort}`);
-  console.log(`📨 Listening for gossip from storage nodes on port ${cloudConfig.coordinator.zmqPort}`);
+  console.log(`✅ Coordinator ready for SSE connections on ${bind.http ?? cloudConfig.coordinator.http}`);
+  console.log(`📨 Listening for gossip from storage nodes on ${bind.zmq ?? cloudConfig.coordinator.zmq}`);
 }).catch(err => {
   console.error('Failed to start coordinator:', err);
   process.exit(1);
@@ -0,0 +1,130 @@
+import { AWORSetDelta } from '../crdt/AWORSet';
+import { NodeAddress } from './addresses';
+import cloudConfig from './cloudConfig.json';
+
+/**
+ * The deltas a node produced for one key after the last one a peer acknowledged.
+ * `from` is that acknowledged sequence number and `to` the newest one included;
+ * a peer may apply the interval only if it already holds everything up to `from`.
+ */
+export interface DeltaInterval {
+  origin: string;
+  from: number;
+  to: number;
+  deltas: AWORSetDelta[];
+}
+
+/**
+ * Stamp sent with a full state: it covers every delta of the origin up to `seq`.
+ */
+export interface StateStamp {
+  origin: string;
+  seq: number;
+}
+
+interface DeltaSyncOptions {
+  maxDeltasPerKey?: number;
+}
+
+/**
+ * Delta-interval synchronization of item CRDT state (delta-state CRDTs with
+ * acknowledgements). Local mutations are buffered per key under increasing
+ * sequence numbers; replicas acknowledge the highest sequence number they
+ * applied and are only sent the deltas after it. A peer that has never
+ * acknowledged a key, or whose acknowledged deltas were trimmed from the buffer,
+ * gets the full state instead, as does one that reports a gap (e.g. after a restart).
+ *
+ * Sequence numbers are scoped to an origin that includes the process start time,
+ * so a restarted node is never confused with its previous incarnation.
+ */
+export class DeltaSync {
+  readonly origin: string;
+  private maxDeltasPerKey: number;
+  private seq: number = 0;
+  private buffer: Map<string, Array<{ seq: number; delta: AWORSetDelta }>> = new Map();
+  private trimmedUpTo: Map<string, number> = new Map();
+  private acks: Map<NodeAddress, Map<string, number>> = new Map(); // peer -> key -> seq
+  private applied: Map<string, Map<string, number>> = new Map(); // origin -> key -> seq
+
+  constructor(nodeId: string, options: DeltaSyncOptions = {}) {
+    this.origin = `${nodeId}@${Date.now()}`;
+    this.maxDeltasPerKey = options.maxDeltasPerKey ?? cloudConfig.deltas.maxDeltasPerKey;
+  }
+
+  /**
+   * Buffers the delta of a local mutation. Older deltas beyond the per-key cap are dropped.
+   */
+  record(key: string, delta: AWORSetDelta): number {
+    const entries = this.buffer.get(key) ?? [];
+    entries.push({ seq: ++this.seq, delta });
+
+    if (entries.length > this.maxDeltasPerKey) {
+      const dropped = entries.splice(0, entries.length - this.maxDeltasPerKey);
+      this.trimmedUpTo.set(key, dropped[dropped.length - 1].seq);
+    }
+    this.buffer.set(key, entries);
+    return this.seq;
+  }
+
+  /**
+   * Deltas a peer is missing for a key, or null when it needs the full state.
+   */
+  intervalFor(peer: NodeAddress, key: string): DeltaInterval | null {
+    const acked = this.acks.get(peer)?.get(key);
+    if (acked === undefined || acked < (this.trimmedUpTo.get(key) ?? 0)) {
+      return null;
+    }
+
+    const entries = (this.buffer.get(key) ?? []).filter(entry => entry.seq > acked);
+    return {
+      origin: this.origin,
+      from: acked,
+      to: entries.length > 0 ? entries[entries.length - 1].seq : acked,
+      deltas: entries.map(entry => entry.delta)
+    };
+  }
+
+  /**
+   * Stamp for a full state of a key sent now.
+   */
+  stamp(): StateStamp {
+    return { origin: this.origin, seq: this.seq };
+  }
+
+  acknowledge(peer: NodeAddress, key: string, seq: number): void {
+    if (!this.acks.has(peer)) {
+      this.acks.set(peer, new Map());
+    }
+    const acks = this.acks.get(peer)!;
+    acks.set(key, Math.max(acks.get(key) ?? 0, seq));
+  }
+
+  /**
+   * Whether this replica holds every delta the interval builds on.
+   */
+  canApply(interval: DeltaInterval, key: string): boolean {
+    const applied = this.applied.get(interval.origin)?.get(key);
+    return applied !== undefined && applied >= interval.from;
+  }
+
+  /**
+   * Records that this replica applied an origin's deltas (or full state) for a key up to `seq`.
+   */
+  markApplied(origin: string, key: string, seq: number): void {
+    if (!this.applied.has(origin)) {
+      this.applied.set(origin, new Map());
+    }
+    const applied = this.applied.get(origin)!;
+    applied.set(key, Math.max(applied.get(key) ?? 0, seq));
+  }
+
+  /**
+   * Drops everything held for a deleted key.
+   */
+  forget(key: string): void {
+    this.buffer.delete(key);
+    this.trimmedUpTo.delete(key);
+    for (const acks of this.acks.values()) acks.delete(key);
+    for (const applied of this.applied.values()) applied.delete(key);
+  }
+}
@@ -0,0 +1,286 @@
+import { NodeAddress } from './addresses';
+import cloudConfig from './cloudConfig.json';
+
+export type Liveness = 'up' | 'down' | 'unknown';
+
+export interface LivenessReport {
+  node: NodeAddress;
+  status: Liveness;
+  phi: number;
+  lastHeartbeat: number | null;
+}
+
+/**
+ * A node's heartbeat as spread by gossip. `generation` is the node's start time,
+ * so a restarted node's beats supersede those from before the restart.
+ */
+export interface Heartbeat {
+  generation: number;
+  beat: number;
+}
+
+export interface PhiAccrualOptions {
+  threshold: number;
+  windowSize: number;
+  minStdDeviationMs: number;
+  acceptableHeartbeatPauseMs: number;
+  firstHeartbeatEstimateMs: number;
+}
+
+/**
+ * Arrival history of one node's heartbeats: a sliding window of intervals.
+ */
+class ArrivalWindow {
+  private intervals: number[] = [];
+  private sum = 0;
+  private squares = 0;
+
+  constructor(public last: number, private capacity: number, firstEstimate: number) {
+    // Seed with a guess so the first real interval is not judged on nothing
+    const std = firstEstimate / 4;
+    this.add(firstEstimate - std);
+    this.add(firstEstimate + std);
+  }
+
+  add(interval: number): void {
+    if (this.intervals.length >= this.capacity) {
+      const dropped = this.intervals.shift()!;
+      this.sum -= dropped;
+      this.squares -= dropped * dropped;
+    }
+    this.intervals.push(interval);
+    this.sum += interval;
+    this.squares += interval * interval;
+  }
+
+  mean(): number {
+    return this.sum / this.intervals.length;
+  }
+
+  stdDeviation(): number {
+    const mean = this.mean();
+    return Math.sqrt(Math.max(0, this.squares / this.intervals.length - mean * mean));
+  }
+}
+
+/**
+ * Phi-accrual failure detector (Hayashibara et al.). Instead of a yes/no timeout
+ * it reports how suspicious the silence since a node's last heartbeat is, given
+ * the intervals seen so far: phi = -log10(P(a heartbeat arrives this late)). A
+ * node is considered down once phi passes the threshold; a node never heard
+ * from is unknown.
+ */
+export class PhiAccrualDetector {
+  private options: PhiAccrualOptions;
+  private windows: Map<NodeAddress, ArrivalWindow> = new Map();
+
+  constructor(options: Partial<PhiAccrualOptions> = {}) {
+    const { phiThreshold, windowSize, minStdDeviationMs, acceptableHeartbeatPauseMs, firstHeartbeatEstimateMs } =
+      cloudConfig.failureDetector;
+    this.options = {
+      threshold: phiThreshold,
+      windowSize,
+      minStdDeviationMs,
+      acceptableHeartbeatPauseMs,
+      firstHeartbeatEstimateMs,
+      ...options
+    };
+  }
+
+  /**
+   * Records that a fresh heartbeat of `node` arrived.
+   */
+  heartbeat(node: NodeAddress, now: number = Date.now()): void {
+    const window = this.windows.get(node);
+    if (!window) {
+      this.windows.set(node, new ArrivalWindow(now, this.options.windowSize, this.options.firstHeartbeatEstimateMs));
+      return;
+    }
+    window.add(now - window.last);
+    window.last = now;
+  }
+
+  phi(node: NodeAddress, now: number = Date.now()): number {
+    const window = this.windows.get(node);
+    if (!window) return 0;
+
+    const elapsed = now - window.last;
+    const mean = window.mean() + this.options.acceptableHeartbeatPauseMs;
+    const std = Math.max(window.stdDeviation(), this.options.minStdDeviationMs);
+
+    // Logistic approximation of the normal distribution's tail
+    const y = (elapsed - mean) / std;
+    const e = Math.exp(-y * (1.5976 + 0.070566 * y * y));
+    // Clamped so a long silence stays a (large) finite number in JSON reports
+    const p = elapsed > mean ? e / (1 + e) : 1 - 1 / (1 + e);
+    return -Math.log10(Math.max(p, Number.MIN_VALUE));
+  }
+
+  status(node: NodeAddress, now: number = Date.now()): Liveness {
+    if (!this.windows.has(node)) return 'unknown';
+    return this.phi(node, now) < this.options.threshold ? 'up' : 'down';
+  }
+
+  /**
+   * Only nodes the detector has evidence against are unavailable; unknown ones are tried.
+   */
+  isAvailable(node: NodeAddress, now: number = Date.now()): boolean {
+    return this.status(node, now) !== 'down';
+  }
+
+  report(node: NodeAddress, now: number = Date.now()): LivenessReport {
+    const window = this.windows.get(node);
+    return {
+      node,
+      status: this.status(node, now),
+      phi: Math.round(this.phi(node, now) * 100) / 100,
+      lastHeartbeat: window?.last ?? null
+    };
+  }
+
+  forget(node: NodeAddress): void {
+    this.windows.delete(node);
+  }
+}
+
+interface HeartbeatGossipOptions {
+  node: NodeAddress;
+  peers: () => NodeAddress[];
+  send: (node: NodeAddress, message: any) => Promise<any>;
+  detector?: PhiAccrualDetector;
+  fanout?: number;
+}
+
+/**
+ * Spreads heartbeats between storage nodes. Every round a node bumps its own
+ * heartbeat and exchanges its table of everyone's latest heartbeat with a few
+ * random peers (push-pull), so each node hears about every other one within a
+ * few rounds, directly or second-hand. A heartbeat that advances counts as an
+ * arrival for the phi-accrual detector.
+ */
+export class HeartbeatGossip {
+  readonly detector: PhiAccrualDetector;
+  private options: HeartbeatGossipOptions;
+  private own: Heartbeat = { generation: Date.now(), beat: 0 };
+  private heartbeats: Map<NodeAddress, Heartbeat> = new Map();
+  private running = false;
+
+  constructor(options: HeartbeatGossipOptions) {
+    this.options = options;
+    this.detector = options.detector ?? new PhiAccrualDetector();
+  }
+
+  /**
+   * Latest known heartbeat of every node, this one included.
+   */
+  table(): Record<NodeAddress, Heartbeat> {
+    return { ...Object.fromEntries(this.heartbeats), [this.options.node]: { ...this.own } };
+  }
+
+  /**
+   * Bumps this node's heartbeat and gossips with `fanout` random peers.
+   * Rounds never overlap; a round still in progress makes the next one a no-op.
+   */
+  async runRound(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      this.own.beat++;
+      const peers = this.options.peers().filter(peer => peer !== this.options.node);
+      const targets = shuffle(peers).slice(0, this.options.fanout ?? cloudConfig.failureDetector.gossipFanout);
+
+      await Promise.all(targets.map(async peer => {
+        try {
+          const reply = await this.options.send(peer, { type: 'HEARTBEAT', heartbeats: this.table() });
+          if (reply?.heartbeats) this.merge(reply.heartbeats);
+        } catch {
+          // Silence is what the detector measures; nothing else to do here
+        }
+      }));
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Answers a peer's gossip with our own table after taking in theirs.
+   */
+  handleMessage(message: any): any | null {
+    if (message.type !== 'HEARTBEAT') return null;
+    this.merge(message.heartbeats);
+    return { ok: true, heartbeats: this.table() };
+  }
+
+  /**
+   * Takes in heartbeats newer than the ones known; each counts as an arrival.
+   */
+  merge(heartbeats: Record<NodeAddress, Heartbeat>, now: number = Date.now()): void {
+    // Gossip may still carry nodes that have left the cluster
+    const members = new Set(this.options.peers());
+
+    for (const [node, heartbeat] of Object.entries(heartbeats)) {
+      if (node === this.options.node || !members.has(node) || !isHeartbeat(heartbeat)) continue;
+
+      const known = this.heartbeats.get(node);
+      if (known && !newer(heartbeat, known)) continue;
+
+      // A restarted node starts a fresh arrival history; its downtime is not an interval
+      if (known && heartbeat.generation !== known.generation) this.detector.forget(node);
+
+      this.heartbeats.set(node, { generation: heartbeat.generation, beat: heartbeat.beat });
+      this.detector.heartbeat(node, now);
+    }
+  }
+
+  forget(node: NodeAddress): void {
+    this.heartbeats.delete(node);
+    this.detector.forget(node);
+  }
+}
+
+function isHeartbeat(value: any): value is Heartbeat {
+  return typeof value?.generation === 'number' && typeof value?.beat === 'number';
+}
+
+function newer(a: Heartbeat, b: Heartbeat): boolean {
+  return a.generation > b.generation || (a.generation === b.generation && a.beat > b.beat);
+}
+
+function shuffle<T>(values: T[]): T[] {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export interface ClusterLiveness {
+  node: NodeAddress;
+  status: Liveness;
+  up: number;
+  down: number;
+  reporting: boolean;
+}
+
+/**
+ * Combines the liveness views reported by members into one verdict per member:
+ * whatever most other members that have an opinion say. `reporting` tells
+ * whether the member itself answered with a view.
+ */
+export function clusterLiveness(members: NodeAddress[], views: Record<NodeAddress, LivenessReport[]>): ClusterLiveness[] {
+  return members.map(node => {
+    let up = 0;
+    let down = 0;
+    for (const [observer, reports] of Object.entries(views)) {
+      if (observer === node) continue;
+      const status = reports.find(report => report.node === node)?.status;
+      if (status === 'up') up++;
+      if (status === 'down') down++;
+    }
+
+    const status: Liveness = up === 0 && down === 0 ? 'unknown' : up >= down ? 'up' : 'down';
+    return { node, status, up, down, reporting: node in views };
+  });
+}
@@ -0,0 +1,66 @@
+import { StorageEngine } from '../storage/StorageEngine';
+import { Hint, HintBacklog } from '../shared/types';
+import { NodeAddress } from './addresses';
+import cloudConfig from './cloudConfig.json';
+
+interface HintedHandoffOptions {
+  maxHintsPerTarget?: number;
+  ttlMs?: number;
+}
+
+/**
+ * Durable hinted handoff queue backed by the node's storage engine.
+ * Hints are keyed by the address of the replica that should have received
+ * the update, capped per target and expired after a TTL.
+ */
+export class HintedHandoff {
+  private store: StorageEngine;
+  private maxHintsPerTarget: number;
+  private ttlMs: number;
+
+  constructor(store: StorageEngine, options: HintedHandoffOptions = {}) {
+    this.store = store;
+    this.maxHintsPerTarget = options.maxHintsPerTarget ?? cloudConfig.hintedHandoff.maxHintsPerTarget;
+    this.ttlMs = options.ttlMs ?? cloudConfig.hintedHandoff.ttlMs;
+  }
+
+  /**
+   * Stores an update for a replica that could not be reached.
+   * When the target's backlog exceeds the cap, its oldest hints are dropped.
+   */
+  async add(target: NodeAddress, update: any): Promise<void> {
+    await this.store.saveHint(target, update);
+
+    const dropped = await this.store.trimHints(target, this.maxHintsPerTarget);
+    if (dropped > 0) {
+      console.warn(`⚠️ Hint backlog for node ${target} over cap, dropped ${dropped} oldest hint(s)`);
+    }
+  }
+
+  async pending(target: NodeAddress, limit?: number): Promise<Hint[]> {
+    return this.store.getHints(target, limit);
+  }
+
+  async acknowledge(hint: Hint): Promise<void> {
+    await this.store.deleteHint(hint.id);
+  }
+
+  async dropTarget(target: NodeAddress): Promise<number> {
+    return this.store.deleteHintsForTarget(target);
+  }
+
+  /**
+   * Removes hints older than the TTL. Returns how many expired.
+   */
+  async expire(now: number = Date.now()): Promise<number> {
+    const expired = await this.store.deleteHintsBefore(now - this.ttlMs);
+    if (expired > 0) {
+      console.warn(`⚠️ Expired ${expired} hint(s) older than ${this.ttlMs}ms`);
+    }
+    return expired;
+  }
+
+  async backlog(): Promise<HintBacklog[]> {
+    return this.store.getHintBacklog();
+  }
+}
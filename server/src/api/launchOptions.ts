@@ -0,0 +1,76 @@
+import { formatAddress, messagingAddress, NodeAddress, NodeBindings, parseAddress } from './addresses';
+import cloudConfig from './cloudConfig.json';
+import { parseEngine, StorageEngineKind } from '../storage/engines';
+
+/**
+ * Reads a launcher option from `--name value` or `--name=value` on the command
+ * line, falling back to an environment variable.
+ */
+export function option(name: string, env: string, argv: string[] = process.argv.slice(2)): string | undefined {
+  const flag = `--${name}`;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === flag && i + 1 < argv.length) return argv[i + 1];
+    if (argv[i].startsWith(`${flag}=`)) return argv[i].slice(flag.length + 1);
+  }
+  return process.env[env] || undefined;
+}
+
+/**
+ * A comma-separated launcher option as a list; empty when unset.
+ */
+export function listOption(name: string, env: string, argv: string[] = process.argv.slice(2)): string[] {
+  return (option(name, env, argv) ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '[::]', '*']);
+
+/**
+ * Where a storage node started by the node launcher listens and whom it contacts.
+ */
+export interface NodeLaunch {
+  nodeId?: string;
+  address: NodeAddress;
+  bind: NodeBindings;
+  seeds: NodeAddress[];
+  coordinator: string;
+  engine?: StorageEngineKind;
+}
+
+/**
+ * Resolves the node launcher's options. The node is known to the cluster by its
+ * advertised address, which defaults to the HTTP bind address; binding to every
+ * interface therefore needs an explicit --advertise. ZeroMQ binds on the HTTP
+ * interface at the advertised port plus the configured offset unless --zmq says
+ * otherwise.
+ */
+export function nodeLaunchOptions(argv: string[] = process.argv.slice(2)): NodeLaunch {
+  const http = option('http', 'NODE_HTTP', argv);
+  const address = option('advertise', 'NODE_ADVERTISE', argv) ?? http;
+  if (!address) {
+    throw new Error('Set the node address with --http or --advertise (NODE_HTTP, NODE_ADVERTISE)');
+  }
+  if (WILDCARD_HOSTS.has(parseAddress(address).host)) {
+    throw new Error(`${address} is not reachable by other nodes; set --advertise to the address they should use`);
+  }
+
+  const zmq = option('zmq', 'NODE_ZMQ', argv)
+    ?? (http && formatAddress({ host: parseAddress(http).host, port: parseAddress(messagingAddress(address)).port }));
+  const coordinator = option('coordinator', 'NODE_COORDINATOR', argv) ?? cloudConfig.coordinator.zmq;
+  const seeds = listOption('peers', 'NODE_PEERS', argv);
+  for (const value of [http, zmq, coordinator, ...seeds]) {
+    if (value) parseAddress(value);
+  }
+  const engine = option('engine', 'NODE_ENGINE', argv);
+
+  return {
+    nodeId: option('id', 'NODE_ID', argv),
+    address,
+    bind: { http, zmq },
+    seeds: seeds.filter(seed => seed !== address),
+    coordinator,
+    engine: engine === undefined ? undefined : parseEngine(engine)
+  };
+}
@@ -0,0 +1,98 @@
+import { compareAddresses, NodeAddress } from './addresses';
+import cloudConfig from './cloudConfig.json';
+
+/**
+ * Versioned snapshot of the storage nodes (HTTP addresses) that form the cluster.
+ */
+export interface MembershipView {
+  version: number;
+  members: NodeAddress[];
+}
+
+export type MembershipListener = (
+  view: MembershipView,
+  added: NodeAddress[],
+  removed: NodeAddress[]
+) => void | Promise<void>;
+
+/**
+ * Tracks cluster membership at runtime so nodes can join or leave without a restart.
+ * Every join/leave produces a new view with a higher version; nodes adopt the
+ * highest version they see, breaking ties on the member list for determinism.
+ */
+export class ClusterMembership {
+  private members: Set<NodeAddress>;
+  private version: number;
+  private listeners: MembershipListener[] = [];
+
+  constructor(initialMembers: NodeAddress[] = cloudConfig.servers, version: number = 0) {
+    this.members = new Set(initialMembers);
+    this.version = version;
+  }
+
+  getMembers(): NodeAddress[] {
+    return Array.from(this.members).sort(compareAddresses);
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  getView(): MembershipView {
+    return { version: this.version, members: this.getMembers() };
+  }
+
+  has(node: NodeAddress): boolean {
+    return this.members.has(node);
+  }
+
+  onChange(listener: MembershipListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Builds the view that results from adding a node, without applying it.
+   */
+  withJoined(node: NodeAddress): MembershipView | null {
+    if (this.members.has(node)) return null;
+    return { version: this.version + 1, members: [...this.getMembers(), node].sort(compareAddresses) };
+  }
+
+  /**
+   * Builds the view that results from removing a node, without applying it.
+   */
+  withLeft(node: NodeAddress): MembershipView | null {
+    if (!this.members.has(node)) return null;
+    return { version: this.version + 1, members: this.getMembers().filter(n => n !== node) };
+  }
+
+  /**
+   * Adopts a view if it supersedes the current one and notifies listeners of the diff.
+   * Returns true if the view was applied.
+   */
+  async applyView(view: MembershipView): Promise<boolean> {
+    if (!this.supersedes(view)) return false;
+
+    const next = new Set(view.members);
+    const added = view.members.filter(n => !this.members.has(n));
+    const removed = this.getMembers().filter(n => !next.has(n));
+
+    this.members = next;
+    this.version = view.version;
+
+    for (const listener of this.listeners) {
+      await listener(this.getView(), added, removed);
+    }
+    return true;
+  }
+
+  private supersedes(view: MembershipView): boolean {
+    if (view.version > this.version) return true;
+    if (view.version < this.version) return false;
+
+    // Same version from two concurrent proposers: pick one deterministically
+    const theirs = [...view.members].sort(compareAddresses).join(',');
+    const ours = this.getMembers().join(',');
+    return theirs > ours;
+  }
+}
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { hashKey } from './partitioning';
+
+/**
+ * A leaf entry: one list or item and a digest of its replicated state.
+ */
+export interface MerkleEntry {
+  key: string;
+  digest: string;
+}
+
+const EMPTY_HASH = sha1('');
+
+function sha1(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+/**
+ * Fixed-shape Merkle tree over the entries of one key range.
+ * Keys are bucketed into `leafCount` leaves by their ring hash, so two replicas
+ * of the same range always build trees of the same shape and can compare them
+ * level by level, exchanging only the buckets whose hashes differ.
+ */
+export class MerkleTree {
+  private leafCount: number;
+  private buckets: MerkleEntry[][];
+  private levels: string[][] = [];
+
+  constructor(entries: MerkleEntry[], leafCount: number = 16) {
+    // Round up to a power of two so every internal node has two children
+    this.leafCount = 1 << Math.ceil(Math.log2(Math.max(1, leafCount)));
+    this.buckets = Array.from({ length: this.leafCount }, () => []);
+
+    for (const entry of entries) {
+      this.buckets[MerkleTree.bucketOf(entry.key, this.leafCount)].push(entry);
+    }
+
+    this.build();
+  }
+
+  /**
+   * Leaf index of a key. Entry keys are `kind:id`; only the id is hashed, matching ring placement.
+   */
+  static bucketOf(key: string, leafCount: number): number {
+    const id = key.slice(key.indexOf(':') + 1);
+    return Number(hashKey(id) % BigInt(leafCount));
+  }
+
+  root(): string {
+    return this.levels[this.levels.length - 1][0];
+  }
+
+  leaves(): string[] {
+    return [...this.levels[0]];
+  }
+
+  getLeafCount(): number {
+    return this.leafCount;
+  }
+
+  /**
+   * Keys stored in the given leaves.
+   */
+  keysIn(buckets: number[]): string[] {
+    return buckets.flatMap(b => this.buckets[b]?.map(e => e.key) ?? []);
+  }
+
+  /**
+   * Indexes of leaves whose hash differs from another replica's leaf hashes.
+   */
+  diffLeaves(otherLeaves: string[]): number[] {
+    if (otherLeaves.length !== this.leafCount) {
+      // Trees of different shape cannot be compared leaf by leaf; treat all as different
+      return Array.from({ length: this.leafCount }, (_, i) => i);
+    }
+
+    const differing: number[] = [];
+    this.levels[0].forEach((hash, i) => {
+      if (hash !== otherLeaves[i]) differing.push(i);
+    });
+    return differing;
+  }
+
+  private build(): void {
+    const leafLevel = this.buckets.map(bucket => {
+      if (bucket.length === 0) return EMPTY_HASH;
+      const lines = [...bucket]
+        .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+        .map(e => `${e.key}=${e.digest}`);
+      return sha1(lines.join('\n'));
+    });
+
+    this.levels = [leafLevel];
+    let current = leafLevel;
+    while (current.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < current.length; i += 2) {
+        next.push(sha1(current[i] + current[i + 1]));
+      }
+      this.levels.push(next);
+      current = next;
+    }
+  }
+}
+
+/**
+ * Stable digest of a list or item's replicated fields, independent of key order.
+ */
+export function digestOf(value: any): string {
+  return sha1(canonicalJSON(value));
+}
+
+function canonicalJSON(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJSON).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${canonicalJSON(value[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,71 @@
+import { ShoppingListServer } from './server';
+import { NodeAddress } from './addresses';
+import { nodeLaunchOptions } from './launchOptions';
+
+/**
+ * Starts one storage node in this process, so a cluster can span several hosts.
+ * Each option is a flag or the environment variable in brackets:
+ *
+ *   --id           (NODE_ID)           id for vector clocks and the database file; the HTTP port by default
+ *   --http         (NODE_HTTP)         host:port to serve HTTP on
+ *   --zmq          (NODE_ZMQ)          host:port to bind the ZeroMQ socket to
+ *   --advertise    (NODE_ADVERTISE)    host:port other nodes reach this node at, if not --http
+ *   --peers        (NODE_PEERS)        comma-separated addresses of seed nodes
+ *   --coordinator  (NODE_COORDINATOR)  ZeroMQ host:port of the coordinator
+ *   --engine       (NODE_ENGINE)       storage engine: sqlite, log or memory; as configured for the address by default
+ *
+ * e.g. npm run node -- --http 0.0.0.0:5000 --advertise 10.0.0.5:5000 --peers 10.0.0.6:5000
+ */
+
+/**
+ * Asks the seeds, in order, to add this node to the cluster. The first seed that
+ * answers announces the new view to every member, this node included.
+ */
+async function joinThroughSeeds(address: NodeAddress, seeds: NodeAddress[]): Promise<boolean> {
+  for (const seed of seeds) {
+    try {
+      const response = await fetch(`http://${seed}/api/cluster/join`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ address })
+      });
+      if (response.ok || response.status === 409) {
+        const { version } = await response.json() as { version?: number };
+        console.log(`🤝 Joined the cluster through ${seed}${response.ok ? ` (membership v${version})` : ' (already a member)'}`);
+        return true;
+      }
+      console.warn(`⚠️ Seed ${seed} refused the join with status ${response.status}`);
+    } catch (err) {
+      console.warn(`⚠️ Seed ${seed} is unreachable:`, (err as Error).message);
+    }
+  }
+  return false;
+}
+
+async function main(): Promise<ShoppingListServer> {
+  const launch = nodeLaunchOptions();
+  const server = new ShoppingListServer(launch.address, launch.nodeId, launch.bind, launch.engine);
+
+  await server.start();
+  await server.initMessaging(launch.seeds, launch.coordinator);
+  console.log(`✅ Node ${launch.address} started with seeds: ${launch.seeds.join(', ') || 'none'}`);
+
+  if (launch.seeds.length > 0 && !(await joinThroughSeeds(launch.address, launch.seeds))) {
+    console.warn('⚠️ No seed answered; the seeds form this node\'s membership until a view arrives');
+  }
+  return server;
+}
+
+main().then(server => {
+  // Graceful shutdown
+  const shutdown = async (signal: string) => {
+    console.log(`\nReceived ${signal}, shutting down node...`);
+    await server.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}).catch(err => {
+  console.error('Failed to start node:', err.message ?? err);
+  process.exit(1);
+});
@@ -1,7 +1,54 @@
 import crypto from 'crypto';
+import { compareAddresses, NodeAddress } from './addresses';
+import cloudConfig from './cloudConfig.json';
 
-/** 
- * Hashes a key (e.g., listId) into the consistent hash ring using SHA-1. 
+/**
+ * Size of the SHA-1 hash space; all ring arithmetic is done modulo this value.
+ */
+export const RING_SIZE = 1n << 160n;
+
+/**
+ * A single token on the hash ring. Each physical node owns several tokens (virtual nodes).
+ */
+export interface RingToken {
+  node: NodeAddress;
+  hash: bigint;
+}
+
+/**
+ * A half-open arc of the ring, (start, end]. It wraps past zero when start >= end.
+ */
+export interface RingRange {
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * How a key's replica set changes between two ring layouts.
+ */
+export interface KeyMovement {
+  key: string;
+  previous: NodeAddress[];
+  next: NodeAddress[];
+  gained: NodeAddress[];
+  lost: NodeAddress[];
+}
+
+/**
+ * A ring range together with the nodes that replicate every key in it.
+ */
+export interface ReplicaRange {
+  range: RingRange;
+  replicas: NodeAddress[];
+}
+
+export interface PartitionerOptions {
+  virtualNodes?: number;
+  replicationFactor?: number;
+}
+
+/**
+ * Hashes a key (e.g., listId) into the consistent hash ring using SHA-1.
  */
 export function hashKey(key: string): bigint {
   return BigInt(
@@ -9,9 +56,216 @@ export function hashKey(key: string): bigint {
   );
 }
 
-/** 
- * Hashes a node's port number for placement on the consistent hash ring. 
+/**
+ * Hashes a node's address for placement on the consistent hash ring.
+ */
+export function hashNode(node: NodeAddress): bigint {
+  return hashKey(node);
+}
+
+/**
+ * Hashes the i-th virtual node of a physical node. Token 0 keeps the node's original position.
+ */
+export function hashVirtualNode(node: NodeAddress, index: number): bigint {
+  return index === 0 ? hashNode(node) : hashKey(`${node}#${index}`);
+}
+
+/**
+ * Clockwise distance from `from` to `to` on the ring, computed exactly.
+ */
+export function ringDistance(from: bigint, to: bigint): bigint {
+  return (((to - from) % RING_SIZE) + RING_SIZE) % RING_SIZE;
+}
+
+/**
+ * Whether a hash falls inside a (possibly wrapping) ring range.
+ */
+export function rangeContains(range: RingRange, hash: bigint): boolean {
+  if (range.start < range.end) return hash > range.start && hash <= range.end;
+  return hash > range.start || hash <= range.end;
+}
+
+function sameMembers(a: NodeAddress[], b: NodeAddress[]): boolean {
+  return a.length === b.length && a.every(p => b.includes(p));
+}
+
+/**
+ * Single source of truth for key placement on the consistent hash ring.
+ * Shared by the cloud, the quorum coordinator and admin tooling so they always
+ * agree on which nodes own a key.
  */
-export function hashNode(port: number): bigint {
-  return hashKey(port.toString());
-}
\ No newline at end of file
+export class Partitioner {
+  private nodes: NodeAddress[] = [];
+  private ring: RingToken[] = [];
+  private virtualNodes: number;
+  private replicationFactor: number;
+
+  constructor(nodes: NodeAddress[], options: PartitionerOptions = {}) {
+    this.virtualNodes = Math.max(1, options.virtualNodes ?? cloudConfig.ring.virtualNodes);
+    this.replicationFactor = options.replicationFactor ?? cloudConfig.quorum.N;
+    this.setNodes(nodes);
+  }
+
+  getNodes(): NodeAddress[] {
+    return [...this.nodes];
+  }
+
+  getTokens(): RingToken[] {
+    return [...this.ring];
+  }
+
+  getReplicationFactor(): number {
+    return this.replicationFactor;
+  }
+
+  setNodes(nodes: NodeAddress[]): void {
+    this.nodes = Array.from(new Set(nodes)).sort(compareAddresses);
+    this.ring = [];
+    for (const node of this.nodes) {
+      for (let i = 0; i < this.virtualNodes; i++) {
+        this.ring.push({ node, hash: hashVirtualNode(node, i) });
+      }
+    }
+    this.ring.sort((a, b) => (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0));
+  }
+
+  addNode(node: NodeAddress): void {
+    this.setNodes([...this.nodes, node]);
+  }
+
+  removeNode(node: NodeAddress): void {
+    this.setNodes(this.nodes.filter(n => n !== node));
+  }
+
+  /**
+   * Returns a copy of this partitioner with a different node set.
+   */
+  withNodes(nodes: NodeAddress[]): Partitioner {
+    return new Partitioner(nodes, {
+      virtualNodes: this.virtualNodes,
+      replicationFactor: this.replicationFactor
+    });
+  }
+
+  /**
+   * Walks the ring clockwise from the key's position and returns up to `count`
+   * distinct physical nodes, skipping further tokens of nodes already chosen.
+   */
+  getPreferenceList(key: string, count: number = this.replicationFactor): NodeAddress[] {
+    return this.preferenceListForHash(hashKey(key), count);
+  }
+
+  getPrimary(key: string): NodeAddress {
+    return this.getPreferenceList(key, 1)[0];
+  }
+
+  /**
+   * Ring ranges for which a node holds a replica (or is primary, if `primaryOnly`).
+   * Adjacent ranges are coalesced.
+   */
+  getOwnershipRanges(node: NodeAddress, primaryOnly: boolean = false): RingRange[] {
+    const count = primaryOnly ? 1 : this.replicationFactor;
+    const ranges: RingRange[] = [];
+
+    this.ring.forEach((token, i) => {
+      const previous = this.ring[(i - 1 + this.ring.length) % this.ring.length];
+      if (!this.preferenceListFromIndex(i, count).includes(node)) return;
+
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === previous.hash) {
+        last.end = token.hash;
+      } else {
+        ranges.push({ start: previous.hash, end: token.hash });
+      }
+    });
+
+    // The final range may continue into the first one across zero
+    if (ranges.length > 1 && ranges[ranges.length - 1].end === ranges[0].start) {
+      ranges[0].start = ranges.pop()!.start;
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Ranges replicated by a node, each with its full replica set. Unlike
+   * getOwnershipRanges, adjacent arcs are only merged when their replicas match,
+   * so every key in a range shares the same preference list.
+   */
+  getReplicaRanges(node: NodeAddress): ReplicaRange[] {
+    const result: ReplicaRange[] = [];
+
+    this.ring.forEach((token, i) => {
+      const previous = this.ring[(i - 1 + this.ring.length) % this.ring.length];
+      const replicas = this.preferenceListFromIndex(i, this.replicationFactor);
+      if (!replicas.includes(node)) return;
+
+      const last = result[result.length - 1];
+      if (last && last.range.end === previous.hash && sameMembers(last.replicas, replicas)) {
+        last.range.end = token.hash;
+      } else {
+        result.push({ range: { start: previous.hash, end: token.hash }, replicas });
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Fraction of the hash space for which a node holds a replica.
+   */
+  getOwnershipShare(node: NodeAddress, primaryOnly: boolean = false): number {
+    const ranges = this.getOwnershipRanges(node, primaryOnly);
+    if (ranges.length === 1 && ranges[0].start === ranges[0].end) return 1;
+
+    const owned = ranges.reduce((sum, r) => sum + ringDistance(r.start, r.end), 0n);
+    return Number((owned * 1_000_000n) / RING_SIZE) / 1_000_000;
+  }
+
+  /**
+   * Compares replica sets for the given keys against another ring layout.
+   * Only keys whose replica set changes are returned.
+   */
+  getMovedKeys(keys: string[], next: Partitioner): KeyMovement[] {
+    const movements: KeyMovement[] = [];
+
+    for (const key of keys) {
+      const previous = this.getPreferenceList(key);
+      const upcoming = next.getPreferenceList(key);
+      const gained = upcoming.filter(n => !previous.includes(n));
+      const lost = previous.filter(n => !upcoming.includes(n));
+
+      if (gained.length > 0 || lost.length > 0) {
+        movements.push({ key, previous, next: upcoming, gained, lost });
+      }
+    }
+
+    return movements;
+  }
+
+  /**
+   * Which of the given keys change replicas if `node` leaves the ring.
+   */
+  getKeysMovedOnLeave(node: NodeAddress, keys: string[]): KeyMovement[] {
+    return this.getMovedKeys(keys, this.withNodes(this.nodes.filter(n => n !== node)));
+  }
+
+  private preferenceListForHash(hash: bigint, count: number): NodeAddress[] {
+    if (this.ring.length === 0) throw new Error('Hash ring not initialized');
+
+    let idx = this.ring.findIndex(t => t.hash >= hash);
+    if (idx === -1) idx = 0;
+    return this.preferenceListFromIndex(idx, count);
+  }
+
+  private preferenceListFromIndex(start: number, count: number): NodeAddress[] {
+    const replicas: NodeAddress[] = [];
+    for (let i = 0; i < this.ring.length && replicas.length < count; i++) {
+      const node = this.ring[(start + i) % this.ring.length].node;
+      if (!replicas.includes(node)) {
+        replicas.push(node);
+      }
+    }
+    return replicas;
+  }
+}
@@ -0,0 +1,125 @@
+import { Dealer, Router, Writable } from 'zeromq';
+import { MessagePayloads, Operation } from './protocol';
+import { WireEndpoint } from './wire';
+
+/**
+ * Funnels sends on a socket through a queue. ZeroMQ sockets allow one send in
+ * progress at a time, and with pipelining many callers send concurrently.
+ */
+export function queuedSender(socket: Writable): (frames: Buffer[]) => Promise<void> {
+  let queue: Promise<void> = Promise.resolve();
+  return frames => {
+    const sent = queue.then(() => socket.send(frames));
+    queue = sent.catch(() => undefined);
+    return sent;
+  };
+}
+
+/**
+ * Connection to another process's ROUTER socket over a DEALER socket. Each request
+ * travels with a request id frame that the ROUTER echoes in front of the reply,
+ * so any number of requests can be in flight at once, each with its own timeout.
+ * A reply arriving after its request timed out is dropped; unlike a REQ socket,
+ * the channel stays usable after a lost reply.
+ */
+export class PeerChannel {
+  readonly endpoint: string;
+  private socket: Dealer;
+  private send: (frames: Buffer[]) => Promise<void>;
+  private pending: Map<string, (reply: Buffer | null) => void> = new Map();
+  private nextRequestId = 0;
+  private closed = false;
+
+  constructor(endpoint: string, private wire: WireEndpoint) {
+    this.endpoint = endpoint;
+    this.socket = new Dealer({ linger: 0 });
+    this.socket.connect(endpoint);
+    this.send = queuedSender(this.socket);
+    this.receiveReplies();
+  }
+
+  /**
+   * Sends an operation and waits for its reply; null if none arrived in time.
+   * The first request on the channel negotiates its codec.
+   */
+  async request(operation: Operation, timeoutMs: number): Promise<MessagePayloads['REPLY'] | null> {
+    const exchange = (data: Buffer) => this.exchange(data, timeoutMs);
+    const codec = await this.wire.codecFor(this, exchange);
+    const reply = codec && await exchange(this.wire.encodeRequest(operation, codec));
+    return reply && this.wire.decodeReply(reply, operation.type);
+  }
+
+  /**
+   * Number of requests waiting for a reply.
+   */
+  inFlight(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Closes the socket; requests still waiting resolve as timed out.
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const finish of [...this.pending.values()]) finish(null);
+    this.socket.close();
+  }
+
+  private exchange(data: Buffer, timeoutMs: number): Promise<Buffer | null> {
+    if (this.closed) return Promise.resolve(null);
+
+    const requestId = String(++this.nextRequestId);
+    return new Promise(resolve => {
+      const finish = (reply: Buffer | null) => {
+        clearTimeout(timer);
+        this.pending.delete(requestId);
+        resolve(reply);
+      };
+      const timer = setTimeout(() => finish(null), timeoutMs);
+      this.pending.set(requestId, finish);
+
+      this.send([Buffer.from(requestId), data]).catch(err => {
+        console.warn(`⚠️ Could not send to ${this.endpoint}:`, (err as Error).message);
+        finish(null);
+      });
+    });
+  }
+
+  private async receiveReplies(): Promise<void> {
+    try {
+      for await (const [requestId, reply] of this.socket) {
+        // Replies to requests that already timed out have nobody waiting for them
+        this.pending.get(requestId.toString())?.(reply);
+      }
+    } catch (err) {
+      if (!this.closed) {
+        console.error(`Error receiving from ${this.endpoint}:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Answers requests arriving on a ROUTER socket until `stopped()` holds. The frames
+ * in front of a message (the peer's identity, then a request id from a DEALER or
+ * the empty delimiter of a REQ socket) are echoed in front of its reply. Requests
+ * are handled concurrently and each reply goes out as soon as it is ready.
+ */
+export async function serveRequests(
+  router: Router,
+  handle: (message: Buffer) => Promise<Buffer>,
+  stopped: () => boolean
+): Promise<void> {
+  const send = queuedSender(router);
+
+  for await (const frames of router) {
+    if (stopped()) break;
+
+    const routing = frames.slice(0, -1);
+    handle(frames[frames.length - 1])
+      // A reply finished after shutdown has nowhere to go
+      .then(reply => (router.closed ? undefined : send([...routing, reply])))
+      .catch(err => console.error('Error answering request:', err));
+  }
+}
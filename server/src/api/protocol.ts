@@ -0,0 +1,253 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Tombstone } from '../shared/types';
+import { AntiEntropyEntry, WireRange } from './antiEntropy';
+import { DeltaInterval, StateStamp } from './deltaSync';
+import { MembershipView } from './membership';
+import { Codec, detectCodec, JSON_CODEC } from './codec';
+import { MessageAuthenticator } from './auth';
+import { Heartbeat } from './failureDetector';
+
+/**
+ * Version of the wire protocol spoken between storage nodes and the coordinator.
+ * Nodes accept any version from MIN_PROTOCOL_VERSION up to their own, so during a
+ * rolling upgrade the new version only starts sending newer messages once every
+ * node understands them; anything outside that range is rejected with
+ * UNSUPPORTED_VERSION instead of being half-applied.
+ */
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+interface ItemWrite {
+  item: any;
+  deltas?: DeltaInterval;
+  stamp?: StateStamp;
+}
+
+/**
+ * Payload of every message type. Replies are 'REPLY' messages whose payload
+ * carries a `status` of 'ok' or 'error' next to the type-specific result.
+ */
+export interface MessagePayloads {
+  HELLO: { codecs: string[] };
+  TRAFFIC_STATS: {};
+  HEARTBEAT: { heartbeats: Record<string, Heartbeat> };
+  LIVENESS: {};
+  READ: { key: string; dataType: 'list' | 'item' };
+  READ_REPAIR: { dataType: 'list' | 'item'; data: any };
+  HINTED_WRITE: { hintFor: string; operation: Operation };
+  MEMBERSHIP_UPDATE: { view: MembershipView; previous?: string[] };
+  MERKLE_ROOTS: { ranges: WireRange[] };
+  MERKLE_LEAVES: { range: WireRange };
+  ANTI_ENTROPY_PULL: { range: WireRange; buckets: number[]; digests: Record<string, string> };
+  ANTI_ENTROPY_PUSH: { entries: AntiEntropyEntry[] };
+  REBALANCE_PLAN: { from: string[]; to: string[] };
+  REBALANCE_BATCH: { entries: AntiEntropyEntry[] };
+  REBALANCE_DONE: { node: string; to: string[] };
+  CREATE_LIST: { list: any };
+  ADD_ITEM: ItemWrite;
+  UPDATE_ITEM: ItemWrite;
+  TOGGLE_CHECK: ItemWrite;
+  UPDATE_QUANTITY: ItemWrite;
+  UPDATE_NAME: ItemWrite;
+  REMOVE_ITEM: { itemId: string; tombstone?: Tombstone };
+  DELETE_LIST: { listId: string; tombstone?: Tombstone };
+  BROADCAST: { event: string; data: any };
+  REPLY: { status: 'ok' | 'error'; [field: string]: any };
+}
+
+export type MessageType = keyof MessagePayloads;
+
+/**
+ * A message as handled inside a node: its type with the payload fields alongside.
+ */
+export type Operation = { [T in MessageType]: { type: T } & MessagePayloads[T] }[MessageType];
+
+/**
+ * What travels on the wire. `replyTo` is set on replies to the id of the request.
+ * `timestamp` and `signature` are set by a MessageAuthenticator.
+ */
+export interface Envelope<T extends MessageType = MessageType> {
+  version: number;
+  id: string;
+  sender: string;
+  type: T;
+  payload: MessagePayloads[T];
+  replyTo?: string;
+  timestamp?: number;
+  signature?: string;
+}
+
+export type ProtocolErrorCode = 'INVALID_MESSAGE' | 'UNSUPPORTED_VERSION' | 'UNAUTHENTICATED';
+
+export class ProtocolError extends Error {
+  constructor(message: string, public readonly code: ProtocolErrorCode) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+type FieldSpec = 'string' | 'number' | 'object' | 'array' | 'any' | readonly string[];
+type Schema = Record<string, FieldSpec | { optional: FieldSpec }>;
+
+const DATA_TYPES = ['list', 'item'] as const;
+const ITEM_WRITE: Schema = { item: 'object', deltas: { optional: 'object' }, stamp: { optional: 'object' } };
+
+const SCHEMAS: { [T in MessageType]: Schema } = {
+  HELLO: { codecs: 'array' },
+  TRAFFIC_STATS: {},
+  HEARTBEAT: { heartbeats: 'object' },
+  LIVENESS: {},
+  READ: { key: 'string', dataType: DATA_TYPES },
+  READ_REPAIR: { dataType: DATA_TYPES, data: 'object' },
+  HINTED_WRITE: { hintFor: 'string', operation: 'object' },
+  MEMBERSHIP_UPDATE: { view: 'object', previous: { optional: 'array' } },
+  MERKLE_ROOTS: { ranges: 'array' },
+  MERKLE_LEAVES: { range: 'object' },
+  ANTI_ENTROPY_PULL: { range: 'object', buckets: 'array', digests: 'object' },
+  ANTI_ENTROPY_PUSH: { entries: 'array' },
+  REBALANCE_PLAN: { from: 'array', to: 'array' },
+  REBALANCE_BATCH: { entries: 'array' },
+  REBALANCE_DONE: { node: 'string', to: 'array' },
+  CREATE_LIST: { list: 'object' },
+  ADD_ITEM: ITEM_WRITE,
+  UPDATE_ITEM: ITEM_WRITE,
+  TOGGLE_CHECK: ITEM_WRITE,
+  UPDATE_QUANTITY: ITEM_WRITE,
+  UPDATE_NAME: ITEM_WRITE,
+  REMOVE_ITEM: { itemId: 'string', tombstone: { optional: 'object' } },
+  DELETE_LIST: { listId: 'string', tombstone: { optional: 'object' } },
+  BROADCAST: { event: 'string', data: 'any' },
+  REPLY: { status: ['ok', 'error'] }
+};
+
+function matches(value: unknown, spec: FieldSpec): boolean {
+  if (Array.isArray(spec)) return spec.includes(value as string);
+  switch (spec) {
+    case 'any':
+      return value !== undefined;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === spec;
+  }
+}
+
+/**
+ * Checks a payload against the schema of its type. Throws INVALID_MESSAGE naming the first bad field.
+ */
+export function validatePayload(type: string, payload: unknown): void {
+  const schema = SCHEMAS[type as MessageType];
+  if (!schema) {
+    throw new ProtocolError(`Unknown message type: ${type}`, 'INVALID_MESSAGE');
+  }
+  if (!matches(payload, 'object')) {
+    throw new ProtocolError(`${type} payload must be an object`, 'INVALID_MESSAGE');
+  }
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = (payload as any)[field];
+    const optional = typeof rule === 'object' && 'optional' in rule;
+    const spec = optional ? (rule as { optional: FieldSpec }).optional : (rule as FieldSpec);
+    if (optional && value === undefined) continue;
+    if (!matches(value, spec)) {
+      throw new ProtocolError(`${type} has an invalid '${field}' field`, 'INVALID_MESSAGE');
+    }
+  }
+
+  // A hinted write wraps the write it stands in for
+  if (type === 'HINTED_WRITE') {
+    const { type: innerType, ...innerPayload } = (payload as any).operation;
+    validatePayload(innerType, innerPayload);
+  }
+}
+
+/**
+ * Wraps an operation in an envelope of the current protocol version, signed if
+ * an authenticator is given.
+ */
+export function encodeMessage(
+  operation: Operation,
+  sender: string,
+  codec: Codec = JSON_CODEC,
+  auth?: MessageAuthenticator | null
+): Buffer {
+  const { type, ...payload } = operation;
+  const envelope: Envelope = { version: PROTOCOL_VERSION, id: uuidv4(), sender, type, payload: payload as any };
+  auth?.sign(envelope);
+  return codec.encode(envelope);
+}
+
+export function encodeReply(
+  reply: MessagePayloads['REPLY'],
+  sender: string,
+  replyTo?: string,
+  codec: Codec = JSON_CODEC,
+  auth?: MessageAuthenticator | null
+): Buffer {
+  const envelope: Envelope<'REPLY'> = { version: PROTOCOL_VERSION, id: uuidv4(), sender, type: 'REPLY', payload: reply, replyTo };
+  auth?.sign(envelope);
+  return codec.encode(envelope);
+}
+
+/**
+ * Decodes (with whichever codec the message was encoded in) and validates an
+ * envelope: its version must be supported and its payload must match the
+ * schema of its type. With an authenticator, it must also be signed, recent
+ * and not seen before.
+ */
+export function decodeMessage(raw: Buffer | string, auth?: MessageAuthenticator | null): Envelope {
+  const data = Buffer.isBuffer(raw) ? raw : Buffer.from(raw);
+  const codec = detectCodec(data);
+  let envelope: any;
+  try {
+    envelope = codec.decode(data);
+  } catch (err) {
+    throw new ProtocolError(`Message could not be decoded as ${codec.name}: ${(err as Error).message}`, 'INVALID_MESSAGE');
+  }
+
+  if (!matches(envelope, 'object') || !Number.isInteger(envelope.version)) {
+    throw new ProtocolError('Message has no protocol version', 'INVALID_MESSAGE');
+  }
+  if (envelope.version < MIN_PROTOCOL_VERSION || envelope.version > PROTOCOL_VERSION) {
+    throw new ProtocolError(
+      `Protocol version ${envelope.version} is not supported (accepted ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION})`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+  if (typeof envelope.id !== 'string' || typeof envelope.sender !== 'string' || typeof envelope.type !== 'string') {
+    throw new ProtocolError('Message envelope is missing id, sender or type', 'INVALID_MESSAGE');
+  }
+
+  validatePayload(envelope.type, envelope.payload);
+  auth?.verify(envelope);
+  return envelope as Envelope;
+}
+
+/**
+ * The operation carried by a request envelope.
+ */
+export function operationOf(envelope: Envelope): Operation {
+  return { type: envelope.type, ...envelope.payload } as Operation;
+}
+
+/**
+ * Decodes a reply and returns its payload.
+ */
+export function decodeReply(raw: Buffer | string, auth?: MessageAuthenticator | null): MessagePayloads['REPLY'] {
+  const envelope = decodeMessage(raw, auth);
+  if (envelope.type !== 'REPLY') {
+    throw new ProtocolError(`Expected a reply, got ${envelope.type}`, 'INVALID_MESSAGE');
+  }
+  return envelope.payload as MessagePayloads['REPLY'];
+}
+
+/**
+ * Reply payload for a message that was rejected.
+ */
+export function errorReply(error: Error): MessagePayloads['REPLY'] {
+  return error instanceof ProtocolError
+    ? { status: 'error', error: error.message, code: error.code, supportedVersions: [MIN_PROTOCOL_VERSION, PROTOCOL_VERSION] }
+    : { status: 'error', error: error.message };
+}
@@ -1,36 +1,87 @@
-import { Request } from 'zeromq';
 import { VectorClock } from '../crdt/VectorClock';
+import { NodeAddress } from './addresses';
 import cloudConfig from './cloudConfig.json';
-import { hashKey } from './partitioning';
+import { Partitioner } from './partitioning';
+import { ConsistencyLevel, DEFAULT_CONSISTENCY } from './consistency';
+import { Clock, maximalVersions, mergeClocks } from './versions';
+import { PeerChannel } from './peerChannel';
 
 /**
- * Simple mutex for serializing socket operations.
+ * Read repair counters exposed for monitoring replica divergence.
  */
-class SocketMutex {
-  private locked: boolean = false;
-  private queue: Array<() => void> = [];
-
-  async acquire(): Promise<void> {
-    if (!this.locked) {
-      this.locked = true;
-      return;
-    }
+export interface ReadRepairStats {
+  divergentReads: number;
+  repairsSent: number;
+  repairsSucceeded: number;
+  repairsFailed: number;
+}
 
-    return new Promise<void>(resolve => {
-      this.queue.push(resolve);
-    });
-  }
+/**
+ * Outcome of a quorum read. `deleted` is set when the newest version is a tombstone.
+ * `siblings` holds every concurrent version the replicas returned and `context`
+ * the merged clock of all versions seen; a write carrying that context resolves them.
+ * `quorumMet` tells whether the requested level was reached; `achieved` is the
+ * strongest level the responding replicas satisfied.
+ */
+export interface QuorumReadResult {
+  data: any | null;
+  deleted: boolean;
+  siblings: any[];
+  context: Clock | null;
+  quorumMet: boolean;
+  level: ConsistencyLevel;
+  achieved: ConsistencyLevel | null;
+}
 
-  release(): void {
-    if (this.queue.length > 0) {
-      const next = this.queue.shift()!;
-      next();
-    } else {
-      this.locked = false;
-    }
-  }
+/**
+ * Outcome of a quorum write. Hinted writes count towards ONE and QUORUM but not ALL.
+ */
+export interface QuorumWriteResult {
+  success: boolean;
+  successfulNodes: NodeAddress[];
+  failedNodes: NodeAddress[];
+  hintedNodes: HintedWrite[];
+  level: ConsistencyLevel;
+  achieved: ConsistencyLevel | null;
+}
+
+interface ReplicaResponse {
+  node: NodeAddress;
+  data: any;
+  siblings: any[];
+  tombstone: any;
+}
+
+/**
+ * A write accepted by a node outside the preference list on behalf of an unreachable replica.
+ */
+export interface HintedWrite {
+  node: NodeAddress;
+  hintFor: NodeAddress;
 }
 
+/**
+ * A write whose message may differ per replica, e.g. a delta interval that
+ * depends on what each replica acknowledged. `fullState` is set for hinted
+ * writes and when a replica replies that it cannot apply the incremental form
+ * (`needsState`); `acknowledged` sees every successful reply.
+ */
+export interface ReplicaWrite {
+  operation(node: NodeAddress, fullState: boolean): any;
+  acknowledged?(node: NodeAddress, reply: any): void;
+}
+
+/**
+ * Answers an operation addressed to this node without going through a socket.
+ * Must reply in the same shape as the node's ROUTER listener.
+ */
+export type LocalRequestHandler = (operation: any) => Promise<any>;
+
+/**
+ * Tells whether a node may be up. Nodes it rules out are not contacted at all.
+ */
+export type LivenessCheck = (node: NodeAddress) => boolean;
+
 /**
  * Quorum coordinator for Dynamo-style distributed operations.
  * Implements N/R/W quorum parameters for strong consistency.
@@ -39,24 +90,26 @@ export class QuorumCoordinator {
   private N: number; // Replication factor
   private R: number; // Read quorum
   private W: number; // Write quorum
-  private allNodes: number[]; // All server ports
-  private reqSockets: Map<number, Request>;
-  private socketMutexes: Map<number, SocketMutex>; // Per-socket mutex for serialization
-  private localPort: number; // Current node's HTTP port
-
-  constructor(reqSockets: Map<number, Request>, localPort: number) {
+  private partitioner: Partitioner; // Shared ring placement over all server addresses
+  private readPartitioner?: Partitioner; // Previous ring, read from while a rebalance moves data off it
+  private peers: Map<NodeAddress, PeerChannel>; // Channels to other nodes by address
+  private localNode: NodeAddress; // Current node's address
+  private localHandler?: LocalRequestHandler;
+  private isAvailable: LivenessCheck = () => true;
+  private readRepairStats: ReadRepairStats = {
+    divergentReads: 0,
+    repairsSent: 0,
+    repairsSucceeded: 0,
+    repairsFailed: 0
+  };
+
+  constructor(peers: Map<NodeAddress, PeerChannel>, localNode: NodeAddress, nodes: NodeAddress[] = cloudConfig.servers) {
     this.N = cloudConfig.quorum.N;
     this.R = cloudConfig.quorum.R;
     this.W = cloudConfig.quorum.W;
-    this.allNodes = cloudConfig.servers;
-    this.reqSockets = reqSockets;
-    this.localPort = localPort;
-    
-    // Initialize mutexes for each socket
-    this.socketMutexes = new Map();
-    for (const [port] of reqSockets) {
-      this.socketMutexes.set(port, new SocketMutex());
-    }
+    this.partitioner = new Partitioner(nodes, { replicationFactor: this.N });
+    this.peers = peers;
+    this.localNode = localNode;
 
     // Validate quorum configuration
     if (this.R + this.W <= this.N) {
@@ -64,46 +117,137 @@ export class QuorumCoordinator {
     }
   }
 
+  /**
+   * Replaces the set of nodes used to build preference lists after a membership change.
+   * Channels to the nodes are kept in step by the server that owns them.
+   */
+  setNodes(nodes: NodeAddress[]): void {
+    this.partitioner.setNodes(nodes);
+    console.log(`🔄 Quorum preference lists rebuilt for nodes: ${this.partitioner.getNodes().join(', ')}`);
+  }
+
+  /**
+   * Keeps reads on the previous ring while a rebalance streams data to the
+   * owners on the current one. Writes go to the current owners and, without
+   * counting towards the quorum, to previous owners that are not among them,
+   * so the reads still see them.
+   */
+  beginRebalance(previousNodes: NodeAddress[]): void {
+    this.readPartitioner = this.partitioner.withNodes(previousNodes);
+    console.log(`🔄 Quorum reads stay on previous nodes until rebalanced: ${this.readPartitioner.getNodes().join(', ')}`);
+  }
+
+  /**
+   * Moves reads over to the current ring once its owners hold the data.
+   */
+  finishRebalance(): void {
+    this.readPartitioner = undefined;
+  }
+
+  isRebalancing(): boolean {
+    return this.readPartitioner !== undefined;
+  }
+
   /**
    * Determines which N nodes should store a given key using consistent hashing.
    */
-  private getReplicaNodes(key: string): number[] {
-    const keyHash = hashKey(key);
-    
-    // Sort nodes by their hash distance from the key
-    const nodeDistances = this.allNodes.map(port => {
-      const nodeHash = hashKey(port.toString());
-      // Calculate circular distance
-      const distance = nodeHash >= keyHash 
-        ? nodeHash - keyHash 
-        : (BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF') - keyHash) + nodeHash;
-      return { port, distance };
-    });
+  private getReplicaNodes(key: string): NodeAddress[] {
+    return this.partitioner.getPreferenceList(key, this.N);
+  }
+
+  private getReadReplicaNodes(key: string): NodeAddress[] {
+    return (this.readPartitioner ?? this.partitioner).getPreferenceList(key, this.N);
+  }
 
-    // Sort by distance and take first N nodes
-    nodeDistances.sort((a, b) => Number(a.distance - b.distance));
-    return nodeDistances.slice(0, this.N).map(n => n.port);
+  /**
+   * Previous owners of a key that lost it in a rebalance still in progress.
+   */
+  private getPreviousOwners(key: string, replicas: NodeAddress[]): NodeAddress[] {
+    if (!this.readPartitioner) return [];
+    return this.readPartitioner
+      .getPreferenceList(key, this.N)
+      .filter(node => !replicas.includes(node) && node !== this.localNode);
+  }
+
+  getPartitioner(): Partitioner {
+    return this.partitioner;
+  }
+
+  /**
+   * Lets this node take part in its own reads, repairs and hinted writes.
+   * There is no socket to self, so without a handler the local replica never answers.
+   */
+  setLocalHandler(handler: LocalRequestHandler): void {
+    this.localHandler = handler;
+  }
+
+  /**
+   * Lets a failure detector rule out replicas, so requests to nodes known to be
+   * down fail at once instead of after a timeout, and writes go straight to fallbacks.
+   */
+  setLivenessCheck(check: LivenessCheck): void {
+    this.isAvailable = check;
   }
 
   /**
-   * Performs a quorum write operation.
-   * Sends data to N replica nodes and waits for W confirmations.
-   * Returns true if write quorum is met, false otherwise.
+   * Replica acknowledgements needed to satisfy a level.
    */
-  async quorumWrite(key: string, operation: any, timeoutMs: number = 1000): Promise<{
-    success: boolean;
-    successfulNodes: number[];
-    failedNodes: number[];
-  }> {
+  requiredReplicas(level: ConsistencyLevel, operation: 'read' | 'write'): number {
+    switch (level) {
+      case 'ONE':
+        return 1;
+      case 'ALL':
+        return this.N;
+      default:
+        return operation === 'read' ? this.R : this.W;
+    }
+  }
+
+  /**
+   * Strongest level satisfied by the acknowledgements. Only acks from nodes in
+   * the preference list (`replicaAcks`) can satisfy ALL.
+   */
+  private achievedLevel(acks: number, replicaAcks: number, operation: 'read' | 'write'): ConsistencyLevel | null {
+    if (replicaAcks >= this.N) return 'ALL';
+    if (acks >= this.requiredReplicas('QUORUM', operation)) return 'QUORUM';
+    return acks >= 1 ? 'ONE' : null;
+  }
+
+  /**
+   * Performs a sloppy quorum write operation.
+   * Sends data to N replica nodes and waits for as many confirmations as the
+   * consistency level requires (W for QUORUM). Each replica that cannot be
+   * reached is replaced by the next healthy node further along the ring, which
+   * accepts the write together with a hint for the intended owner.
+   */
+  async quorumWrite(
+    key: string,
+    operation: any,
+    level: ConsistencyLevel = DEFAULT_CONSISTENCY,
+    timeoutMs: number = 1000
+  ): Promise<QuorumWriteResult> {
+    return this.quorumWriteTo(key, { operation: () => operation }, level, timeoutMs);
+  }
+
+  /**
+   * Quorum write that builds the message for each replica separately.
+   */
+  async quorumWriteTo(
+    key: string,
+    write: ReplicaWrite,
+    level: ConsistencyLevel = DEFAULT_CONSISTENCY,
+    timeoutMs: number = 1000
+  ): Promise<QuorumWriteResult> {
     const replicas = this.getReplicaNodes(key);
-    console.log(`📝 Quorum write for key "${key}" to replicas: ${replicas.join(', ')} (W=${this.W})`);
+    const required = this.requiredReplicas(level, 'write');
+    console.log(`📝 ${level} write for key "${key}" to replicas: ${replicas.join(', ')} (${required} required)`);
 
     // Separate local and remote replicas
-    const localReplica = replicas.find(port => port === this.localPort);
-    const remoteReplicas = replicas.filter(port => port !== this.localPort);
+    const localReplica = replicas.find(node => node === this.localNode);
+    const remoteReplicas = replicas.filter(node => node !== this.localNode);
 
-    const successfulNodes: number[] = [];
-    const failedNodes: number[] = [];
+    const successfulNodes: NodeAddress[] = [];
+    const failedNodes: NodeAddress[] = [];
 
     // Local write is already done before calling quorumWrite, count it as successful
     if (localReplica) {
@@ -111,45 +255,133 @@ export class QuorumCoordinator {
       console.log(`  ✅ Local write on node ${localReplica} (already completed)`);
     }
 
-    // Send to remote replicas
-    const results = await Promise.allSettled(
-      remoteReplicas.map(port => this.sendToNode(port, operation, timeoutMs))
-    );
+    // Send to remote replicas, and to previous owners that reads still go to
+    const previousOwners = this.getPreviousOwners(key, replicas);
+    const [results] = await Promise.all([
+      Promise.allSettled(remoteReplicas.map(node => this.writeToReplica(node, write, timeoutMs))),
+      Promise.allSettled(previousOwners.map(node => this.writeToReplica(node, write, timeoutMs)))
+    ]);
 
     results.forEach((result, idx) => {
-      const port = remoteReplicas[idx];
+      const node = remoteReplicas[idx];
       if (result.status === 'fulfilled' && result.value && result.value.status === 'ok') {
-        successfulNodes.push(port);
-        console.log(`  ✅ Remote write succeeded on node ${port}`);
+        successfulNodes.push(node);
+        console.log(`  ✅ Remote write succeeded on node ${node}`);
       } else {
-        failedNodes.push(port);
+        failedNodes.push(node);
         if (result.status === 'fulfilled') {
-          console.error(`  ❌ Node ${port} returned non-ok status`, result.value);
+          console.error(`  ❌ Node ${node} returned non-ok status`, result.value);
         } else if (result.status === 'rejected') {
-          console.error(`  ❌ Failed to write to node ${port}:`, result.reason?.message || result.reason);
+          console.error(`  ❌ Failed to write to node ${node}:`, result.reason?.message || result.reason);
         }
       }
     });
 
-    const success = successfulNodes.length >= this.W;
+    const hintedNodes = failedNodes.length > 0
+      ? await this.writeToFallbacks(key, write, failedNodes, timeoutMs)
+      : [];
+    const replicaAcks = successfulNodes.length;
+    successfulNodes.push(...hintedNodes.map(h => h.node));
+
+    const achieved = this.achievedLevel(successfulNodes.length, replicaAcks, 'write');
+    const success = level === 'ALL' ? replicaAcks >= required : successfulNodes.length >= required;
     
     if (success) {
-      console.log(`✅ Write quorum met: ${successfulNodes.length}/${this.N} nodes (W=${this.W})`);
+      const hinted = hintedNodes.length > 0 ? `, ${hintedNodes.length} hinted` : '';
+      console.log(`✅ ${level} write met: ${successfulNodes.length}/${this.N} nodes (achieved ${achieved}${hinted})`);
     } else {
-      console.error(`❌ Write quorum failed: ${successfulNodes.length}/${this.N} nodes (W=${this.W} required)`);
+      console.error(`❌ ${level} write failed: ${successfulNodes.length}/${this.N} nodes (${required} required)`);
+    }
+
+    return { success, successfulNodes, failedNodes, hintedNodes, level, achieved };
+  }
+
+  /**
+   * Sends a write to one replica, falling back to its full-state form when the
+   * replica asks for it.
+   */
+  private async writeToReplica(node: NodeAddress, write: ReplicaWrite, timeoutMs: number): Promise<any> {
+    let reply = await this.sendToNode(node, write.operation(node, false), timeoutMs);
+    if (reply?.status !== 'ok' && reply?.needsState) {
+      console.log(`  🔁 Node ${node} needs full state, resending`);
+      reply = await this.sendToNode(node, write.operation(node, true), timeoutMs);
+    }
+    if (reply?.status === 'ok') {
+      write.acknowledged?.(node, reply);
+    }
+    return reply;
+  }
+
+  /**
+   * Hands writes for unreachable replicas to the first healthy nodes past the
+   * preference list, in ring order. Each fallback is used for at most one replica.
+   */
+  private async writeToFallbacks(
+    key: string,
+    write: ReplicaWrite,
+    failedNodes: NodeAddress[],
+    timeoutMs: number
+  ): Promise<HintedWrite[]> {
+    const candidates = this.partitioner
+      .getPreferenceList(key, this.partitioner.getNodes().length)
+      .slice(this.N);
+    const hinted: HintedWrite[] = [];
+
+    for (const hintFor of failedNodes) {
+      while (candidates.length > 0) {
+        const node = candidates.shift()!;
+        if (await this.sendHintedWrite(node, hintFor, write.operation(hintFor, true), timeoutMs)) {
+          hinted.push({ node, hintFor });
+          console.log(`  🔀 Node ${node} accepted write for node ${hintFor} (hinted)`);
+          break;
+        }
+      }
     }
 
-    return { success, successfulNodes, failedNodes };
+    return hinted;
+  }
+
+  private async sendHintedWrite(node: NodeAddress, hintFor: NodeAddress, operation: any, timeoutMs: number): Promise<boolean> {
+    try {
+      const reply = await this.sendToNode(node, { type: 'HINTED_WRITE', hintFor, operation }, timeoutMs);
+      return reply?.status === 'ok';
+    } catch (err) {
+      console.error(`  ❌ Fallback write to node ${node} for node ${hintFor} failed:`, (err as Error).message);
+      return false;
+    }
   }
 
   /**
    * Performs a quorum read operation.
-   * Reads from N replica nodes and waits for R responses.
-   * Returns the most recent version based on vector clock comparison.
+   * Reads from N replica nodes and waits for as many responses as the
+   * consistency level requires (R for QUORUM).
+   * Returns the most recent version based on vector clock comparison, or null
+   * if the level was not met or the key has been deleted.
    */
-  async quorumRead(key: string, type: 'list' | 'item', timeoutMs: number = 1000): Promise<any | null> {
-    const replicas = this.getReplicaNodes(key);
-    console.log(`📖 Quorum read for key "${key}" from replicas: ${replicas.join(', ')} (R=${this.R})`);
+  async quorumRead(
+    key: string,
+    type: 'list' | 'item',
+    level: ConsistencyLevel = DEFAULT_CONSISTENCY,
+    timeoutMs: number = 1000
+  ): Promise<any | null> {
+    const result = await this.quorumReadResult(key, type, level, timeoutMs);
+    return result.data;
+  }
+
+  /**
+   * Quorum read that also tells a deleted key apart from a failed quorum and
+   * reports the consistency level achieved. Tombstones count as responses; a
+   * tombstone wins unless a live version descends from it.
+   */
+  async quorumReadResult(
+    key: string,
+    type: 'list' | 'item',
+    level: ConsistencyLevel = DEFAULT_CONSISTENCY,
+    timeoutMs: number = 1000
+  ): Promise<QuorumReadResult> {
+    const replicas = this.getReadReplicaNodes(key);
+    const required = this.requiredReplicas(level, 'read');
+    console.log(`📖 ${level} read for key "${key}" from replicas: ${replicas.join(', ')} (${required} required)`);
 
     const operation = {
       type: 'READ',
@@ -158,53 +390,69 @@ export class QuorumCoordinator {
     };
 
     const results = await Promise.allSettled(
-      replicas.map(port => this.sendToNode(port, operation, timeoutMs))
+      replicas.map(node => this.sendToNode(node, operation, timeoutMs))
     );
 
-    const validResponses: Array<{ port: number; data: any }> = [];
+    // Every replica that answered, including those with no copy of the key
+    const responses: ReplicaResponse[] = [];
 
     results.forEach((result, idx) => {
-      const port = replicas[idx];
-      if (result.status === 'fulfilled' && result.value && result.value.data) {
-        validResponses.push({ port, data: result.value.data });
+      const node = replicas[idx];
+      if (result.status === 'fulfilled' && result.value && result.value.status === 'ok') {
+        responses.push({
+          node,
+          data: result.value.data ?? null,
+          siblings: result.value.siblings ?? [],
+          tombstone: result.value.tombstone ?? null
+        });
       }
     });
 
-    if (validResponses.length < this.R) {
-      console.error(`❌ Read quorum failed: ${validResponses.length}/${this.N} nodes (R=${this.R} required)`);
-      return null;
+    const validResponses = responses.filter(r => r.data || r.tombstone);
+    const achieved = this.achievedLevel(validResponses.length, validResponses.length, 'read');
+
+    if (validResponses.length < required) {
+      console.error(`❌ ${level} read failed: ${validResponses.length}/${this.N} nodes (${required} required)`);
+      return { data: null, deleted: false, siblings: [], context: null, quorumMet: false, level, achieved };
     }
 
-    console.log(`✅ Read quorum met: ${validResponses.length}/${this.N} nodes (R=${this.R})`);
+    console.log(`✅ ${level} read met: ${validResponses.length}/${this.N} nodes (achieved ${achieved})`);
 
-    // If only one response or all responses are identical, return it
-    if (validResponses.length === 1) {
-      return validResponses[0].data;
-    }
+    const live = validResponses.filter(r => r.data).flatMap(r => [r.data, ...r.siblings]);
+    const tombstones = validResponses.filter(r => r.tombstone).map(r => r.tombstone);
 
-    // Find the most recent version using vector clock comparison
-    let mostRecent = validResponses[0].data;
-    let mostRecentVC = new VectorClock();
-    
-    if (mostRecent?.vectorClock) {
-      if (typeof mostRecent.vectorClock === 'string') {
-        mostRecentVC.fromString(mostRecent.vectorClock);
-      } else {
-        mostRecentVC.fromObject(mostRecent.vectorClock);
-      }
+    const mostRecent = live.length > 0 ? this.newestVersion(live, v => v.lastUpdated) : null;
+    const tombstone = tombstones.length > 0 ? this.newestVersion(tombstones, t => t.deletedAt) : null;
+
+    if (tombstone && (!mostRecent || this.toVectorClock(mostRecent).compare(this.toVectorClock(tombstone)) !== 'after')) {
+      this.repairDeletion(key, type, tombstone, responses, timeoutMs).catch(err =>
+        console.error(`Read repair failed for key "${key}":`, err)
+      );
+      return { data: null, deleted: true, siblings: [], context: null, quorumMet: true, level, achieved };
     }
 
-    for (let i = 1; i < validResponses.length; i++) {
-      const candidate = validResponses[i].data;
-      const candidateVC = new VectorClock();
-      
-      if (candidate?.vectorClock) {
-        if (typeof candidate.vectorClock === 'string') {
-          candidateVC.fromString(candidate.vectorClock);
-        } else {
-          candidateVC.fromObject(candidate.vectorClock);
-        }
-      }
+    const siblings = maximalVersions(type, live);
+    const context = live.length > 0 ? mergeClocks(live.map(v => v.vectorClock)) : null;
+
+    // Heal lagging replicas in the background; the caller does not wait for it
+    this.readRepair(key, type, siblings, responses, timeoutMs).catch(err =>
+      console.error(`Read repair failed for key "${key}":`, err)
+    );
+
+    return { data: mostRecent, deleted: false, siblings, context, quorumMet: true, level, achieved };
+  }
+
+  /**
+   * Finds the most recent version using vector clock comparison.
+   * Concurrent versions fall back to last-write-wins on the given timestamp.
+   */
+  private newestVersion(candidates: any[], timeOf: (candidate: any) => number | undefined): any {
+    let mostRecent = candidates[0];
+    let mostRecentVC = this.toVectorClock(mostRecent);
+
+    for (let i = 1; i < candidates.length; i++) {
+      const candidate = candidates[i];
+      const candidateVC = this.toVectorClock(candidate);
 
       const comparison = mostRecentVC.compare(candidateVC);
       
@@ -213,11 +461,8 @@ export class QuorumCoordinator {
         mostRecent = candidate;
         mostRecentVC = candidateVC;
       } else if (comparison === 'concurrent') {
-        // Concurrent versions - use last-write-wins based on lastUpdated
-        const mostRecentTime = mostRecent.lastUpdated || 0;
-        const candidateTime = candidate.lastUpdated || 0;
-        
-        if (candidateTime > mostRecentTime) {
+        // Concurrent versions - use last-write-wins based on timestamps
+        if ((timeOf(candidate) || 0) > (timeOf(mostRecent) || 0)) {
           mostRecent = candidate;
           mostRecentVC = candidateVC;
         }
@@ -229,54 +474,126 @@ export class QuorumCoordinator {
   }
 
   /**
-   * Sends an operation to a specific node and waits for response.
-   * Uses mutex to serialize requests per socket (ZeroMQ REQ only allows one at a time).
-   * @param port HTTP port of the target node (will be converted to ZMQ port)
+   * Pushes every sibling to the replicas that answered the read without it:
+   * with no data, an older version or only some of the concurrent versions.
+   */
+  private async readRepair(
+    key: string,
+    type: 'list' | 'item',
+    siblings: any[],
+    responses: ReplicaResponse[],
+    timeoutMs: number
+  ): Promise<void> {
+    const repairs: Array<{ node: NodeAddress; operation: any }> = [];
+
+    for (const response of responses) {
+      const held = response.data ? [response.data, ...response.siblings] : [];
+      for (const sibling of siblings) {
+        const siblingVC = this.toVectorClock(sibling);
+        const covered = held.some(version => {
+          const comparison = this.toVectorClock(version).compare(siblingVC);
+          return comparison === 'after' || comparison === 'equal';
+        });
+        if (!covered) {
+          repairs.push({ node: response.node, operation: { type: 'READ_REPAIR', dataType: type, data: sibling } });
+        }
+      }
+    }
+
+    await this.sendRepairs(key, repairs, timeoutMs);
+  }
+
+  /**
+   * Pushes a winning tombstone to replicas that still hold the key or lack the tombstone.
+   */
+  private async repairDeletion(
+    key: string,
+    type: 'list' | 'item',
+    tombstone: any,
+    responses: ReplicaResponse[],
+    timeoutMs: number
+  ): Promise<void> {
+    const tombstoneVC = this.toVectorClock(tombstone);
+    const operation = type === 'list'
+      ? { type: 'DELETE_LIST', listId: key, tombstone }
+      : { type: 'REMOVE_ITEM', itemId: key, tombstone };
+    const repairs = responses
+      .filter(r => r.data || !r.tombstone || tombstoneVC.compare(this.toVectorClock(r.tombstone)) !== 'equal')
+      .map(r => ({ node: r.node, operation }));
+
+    await this.sendRepairs(key, repairs, timeoutMs);
+  }
+
+  private async sendRepairs(key: string, repairs: Array<{ node: NodeAddress; operation: any }>, timeoutMs: number): Promise<void> {
+    if (repairs.length === 0) return;
+
+    const lagging = [...new Set(repairs.map(r => r.node))];
+    this.readRepairStats.divergentReads++;
+    console.log(`🩹 Read repair for key "${key}" on lagging replicas: ${lagging.join(', ')}`);
+
+    const results = await Promise.allSettled(
+      repairs.map(({ node, operation }) => this.sendToNode(node, operation, timeoutMs))
+    );
+
+    results.forEach((result, idx) => {
+      this.readRepairStats.repairsSent++;
+      if (result.status === 'fulfilled' && result.value?.status === 'ok') {
+        this.readRepairStats.repairsSucceeded++;
+      } else {
+        this.readRepairStats.repairsFailed++;
+        console.warn(`⚠️ Read repair of key "${key}" on node ${repairs[idx].node} failed`);
+      }
+    });
+  }
+
+  /**
+   * Counters describing how often replicas were found diverged and repaired.
    */
-  private async sendToNode(port: number, operation: any, timeoutMs: number): Promise<any> {
-    // Convert HTTP port to ZMQ port (ZMQ port = HTTP port + zmqPortOffset)
-    const zmqPort = port + cloudConfig.storage.zmqPortOffset;
-    const socket = this.reqSockets.get(zmqPort);
-    if (!socket) {
-      throw new Error(`No socket connection to node ${port} (ZMQ port ${zmqPort})`);
+  getReadRepairStats(): ReadRepairStats {
+    return { ...this.readRepairStats };
+  }
+
+  private toVectorClock(data: any): VectorClock {
+    const vc = new VectorClock();
+    if (data?.vectorClock) {
+      if (typeof data.vectorClock === 'string') {
+        vc.fromString(data.vectorClock);
+      } else {
+        vc.fromObject(data.vectorClock);
+      }
+    }
+    return vc;
+  }
+
+  /**
+   * Sends an operation to a specific node and waits for response. Requests to the
+   * same node are pipelined on its channel, each with its own timeout.
+   * Operations for this node are answered by the local handler instead.
+   * @param node address of the target node
+   */
+  async sendToNode(node: NodeAddress, operation: any, timeoutMs: number): Promise<any> {
+    if (node === this.localNode && this.localHandler) {
+      return this.localHandler(operation);
     }
 
-    // Get or create mutex for this socket
-    let mutex = this.socketMutexes.get(zmqPort);
-    if (!mutex) {
-      mutex = new SocketMutex();
-      this.socketMutexes.set(zmqPort, mutex);
+    if (!this.isAvailable(node)) {
+      throw new Error(`Node ${node} is down according to the failure detector`);
+    }
+
+    const channel = this.peers.get(node);
+    if (!channel) {
+      throw new Error(`No connection to node ${node}`);
     }
 
-    // Acquire mutex before using socket
-    await mutex.acquire();
-    
     try {
-      await socket.send(JSON.stringify(operation));
-      
-      const reply = await this.recvWithTimeout(socket, timeoutMs);
-      
+      const reply = await channel.request(operation, timeoutMs);
       if (!reply) {
-        throw new Error(`Timeout waiting for response from node ${port}`);
+        throw new Error(`Timeout waiting for response from node ${node}`);
       }
-
-      return JSON.parse(reply.toString());
+      return reply;
     } catch (err) {
-      console.error(`Error communicating with node ${port}:`, err);
+      console.error(`Error communicating with node ${node}:`, err);
       throw err;
-    } finally {
-      // Always release mutex
-      mutex.release();
     }
   }
-
-  /**
-   * Receives a message with timeout.
-   */
-  private async recvWithTimeout(socket: Request, timeoutMs: number): Promise<Buffer[] | null> {
-    return Promise.race([
-      socket.receive() as Promise<Buffer[]>,
-      new Promise<null>(resolve => setTimeout(() => resolve(null), timeoutMs))
-    ]);
-  }
 }
@@ -0,0 +1,352 @@
+import { StorageEngine } from '../storage/StorageEngine';
+import { compareAddresses, NodeAddress } from './addresses';
+import { AntiEntropyEntry } from './antiEntropy';
+import cloudConfig from './cloudConfig.json';
+import { Partitioner, RingRange } from './partitioning';
+
+/**
+ * A change of ring layout: data placed on the `from` nodes moves to its owners among the `to` nodes.
+ */
+export interface RebalancePlan {
+  from: NodeAddress[];
+  to: NodeAddress[];
+}
+
+/**
+ * `streaming` while this node sends its share, `waiting` until every other
+ * sender reports done, `complete` once reads have moved to the new ring.
+ */
+export type RebalanceState = 'idle' | 'streaming' | 'waiting' | 'complete';
+
+export interface RebalanceProgress {
+  state: RebalanceState;
+  from: NodeAddress[];
+  to: NodeAddress[];
+  startedAt: number | null;
+  finishedAt: number | null;
+  entriesTotal: number;
+  entriesSent: number;
+  batchesSent: number;
+  retries: number;
+  targets: Record<NodeAddress, { entries: number; sent: number }>;
+  waitingFor: NodeAddress[];
+  entriesReceived: number; // Since the node started, over all plans
+}
+
+interface RebalancerOptions {
+  node: NodeAddress;
+  loadEntries: (range: RingRange) => Promise<AntiEntropyEntry[]>; // Lists, items and tombstones whose id hashes into the range
+  applyEntry: (entry: AntiEntropyEntry) => Promise<void>;
+  send: (node: NodeAddress, message: any) => Promise<any>;
+  onBegin: (plan: RebalancePlan) => void; // Reads stay on plan.from from here...
+  onComplete: (plan: RebalancePlan) => void; // ...until here
+  batchSize?: number;
+  retryDelayMs?: number;
+}
+
+const RING_STATE = 'ring';
+
+/**
+ * Moves data to its new owners when the ring changes, whether through a
+ * membership change or a restart with different `cloudConfig.servers`.
+ *
+ * Every node works out which of its lists, items and tombstones gained a
+ * replica (by `hashKey`, like the ring) and streams them in bounded batches.
+ * Of the old replicas of a key, only the first that is still a member sends
+ * it, so a new owner gets one copy. Reads stay on the old ring until every
+ * such sender has reported done; the ring data was last fully placed on is
+ * persisted so a restart resumes from it.
+ */
+export class Rebalancer {
+  private options: RebalancerOptions;
+  private store: StorageEngine;
+  private ring: NodeAddress[] = [];
+  private plan: RebalancePlan | null = null;
+  private done: Set<NodeAddress> = new Set();
+  private generation = 0;
+  private received = 0;
+  private progress: RebalanceProgress = idleProgress([]);
+
+  // Heard from peers before this node moved to the same ring
+  private announced: Map<string, NodeAddress[]> = new Map();
+  private earlyDone: Map<string, Set<NodeAddress>> = new Map();
+
+  constructor(store: StorageEngine, options: RebalancerOptions) {
+    this.store = store;
+    this.options = options;
+  }
+
+  getProgress(): RebalanceProgress {
+    return {
+      ...this.progress,
+      targets: { ...this.progress.targets },
+      waitingFor: this.waitingFor(),
+      entriesReceived: this.received
+    };
+  }
+
+  isActive(): boolean {
+    return this.plan !== null;
+  }
+
+  /**
+   * Starts from the ring persisted before a restart and moves the data to `members` if they differ.
+   */
+  async resume(members: NodeAddress[]): Promise<void> {
+    const stored = await this.store.getClusterState(RING_STATE);
+    this.ring = stored ? JSON.parse(stored) : sorted(members);
+    if (!stored) await this.store.saveClusterState(RING_STATE, JSON.stringify(this.ring));
+
+    this.moveTo(members);
+
+    // Peers that restarted with the same servers may have announced their plan already
+    const announced = !this.plan && this.announced.get(ringKey(this.ring));
+    if (announced) this.begin({ from: announced, to: this.ring });
+  }
+
+  /**
+   * Moves data to the owners on a new ring. A rebalance still in progress is
+   * replaced; its data has not left the ring it started from.
+   */
+  moveTo(members: NodeAddress[]): void {
+    const to = sorted(members);
+    const target = this.plan?.to ?? this.ring;
+    if (ringKey(target) === ringKey(to)) return;
+
+    this.begin({ from: this.plan?.from ?? this.ring, to });
+  }
+
+  /**
+   * Notes the ring peers move data from, for a ring this node has not moved to
+   * yet. Only kept if this node was not on that ring: it then holds nothing to
+   * move and reads from the peers' ring instead of its own.
+   */
+  announce(plan: RebalancePlan): void {
+    if (!plan.from.includes(this.options.node)) this.announced.set(ringKey(plan.to), sorted(plan.from));
+  }
+
+  stop(): void {
+    this.generation++;
+  }
+
+  /**
+   * Answers rebalance messages from peers. Returns null for unrelated messages.
+   */
+  async handleMessage(message: any): Promise<any | null> {
+    switch (message.type) {
+      case 'REBALANCE_PLAN': {
+        const plan = { from: sorted(message.from), to: sorted(message.to) };
+        // Members of the old ring work out the same plan themselves
+        if (plan.from.includes(this.options.node)) return { ok: true };
+
+        // A node that restarted into the new ring without data follows the others' plan
+        if (!this.plan && this.progress.state === 'idle' && ringKey(this.ring) === ringKey(plan.to)) {
+          this.begin(plan);
+        } else {
+          this.announce(plan);
+        }
+        return { ok: true };
+      }
+      case 'REBALANCE_BATCH': {
+        const entries: AntiEntropyEntry[] = message.entries;
+        for (const entry of listsFirst(entries)) {
+          await this.options.applyEntry(entry);
+        }
+        this.received += entries.length;
+        return { ok: true };
+      }
+      case 'REBALANCE_DONE': {
+        const key = ringKey(sorted(message.to));
+        if (this.plan && ringKey(this.plan.to) === key) {
+          this.done.add(message.node);
+          this.completeIfDone();
+        } else if (ringKey(this.ring) !== key) {
+          if (!this.earlyDone.has(key)) this.earlyDone.set(key, new Set());
+          this.earlyDone.get(key)!.add(message.node);
+        }
+        return { ok: true };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private begin(requested: RebalancePlan): void {
+    const to = sorted(requested.to);
+    const key = ringKey(to);
+    let from = sorted(requested.from);
+
+    const announced = this.announced.get(key);
+    if (announced && !announced.includes(this.options.node)) from = announced;
+    this.announced.delete(key);
+
+    const superseded = this.plan;
+    this.generation++;
+    this.ring = to;
+    if (ringKey(from) === key || !to.includes(this.options.node)) {
+      this.plan = null;
+      this.progress = idleProgress(to);
+      // Nothing to move after all, e.g. a join undone before its rebalance finished
+      if (superseded) this.options.onComplete({ from, to });
+      return;
+    }
+
+    const plan = { from, to };
+    this.plan = plan;
+    this.done = this.earlyDone.get(key) ?? new Set();
+    this.earlyDone.delete(key);
+    this.progress = { ...idleProgress(to), state: 'streaming', from, startedAt: Date.now() };
+    this.options.onBegin(plan);
+    console.log(`⚖️ Node ${this.options.node}: rebalancing from [${from.join(', ')}] to [${to.join(', ')}]`);
+
+    const generation = this.generation;
+    for (const peer of this.others(plan)) {
+      this.options.send(peer, { type: 'REBALANCE_PLAN', from, to }).catch(() => {
+        // The peer learns the plan from its own view; this only helps nodes new to the ring
+      });
+    }
+    this.run(plan, generation).catch(err => console.error('Error rebalancing:', err));
+  }
+
+  private async run(plan: RebalancePlan, generation: number): Promise<void> {
+    const transfers = await this.transfers(plan);
+    for (const [target, entries] of transfers) {
+      this.progress.targets[target] = { entries: entries.length, sent: 0 };
+      this.progress.entriesTotal += entries.length;
+    }
+
+    await Promise.all([...transfers].map(([target, entries]) => this.stream(target, entries, generation)));
+    if (generation !== this.generation) return;
+
+    this.progress.state = 'waiting';
+    this.done.add(this.options.node);
+    this.completeIfDone();
+
+    const message = { type: 'REBALANCE_DONE', node: this.options.node, to: plan.to };
+    await Promise.all(this.others(plan).map(peer => this.deliver(peer, message, generation)));
+  }
+
+  /**
+   * What this node sends to each new owner, lists before items.
+   */
+  private async transfers(plan: RebalancePlan): Promise<Map<NodeAddress, AntiEntropyEntry[]>> {
+    const previous = new Partitioner(plan.from, { replicationFactor: cloudConfig.quorum.N });
+    const next = previous.withNodes(plan.to);
+    // Only keys this node replicated on the previous ring can be its to send
+    const loaded: AntiEntropyEntry[] = [];
+    for (const range of previous.getOwnershipRanges(this.options.node)) {
+      loaded.push(...await this.options.loadEntries(range));
+    }
+    const entries = listsFirst(loaded);
+
+    const ids = [...new Set(entries.map(entry => entry.id))];
+    const moved = new Map(previous.getMovedKeys(ids, next).map(movement => [movement.key, movement]));
+
+    const transfers = new Map<NodeAddress, AntiEntropyEntry[]>();
+    for (const entry of entries) {
+      const movement = moved.get(entry.id);
+      const sender = movement?.previous.find(node => plan.to.includes(node));
+      if (!movement || sender !== this.options.node) continue;
+
+      for (const target of movement.gained) {
+        if (!transfers.has(target)) transfers.set(target, []);
+        transfers.get(target)!.push(entry);
+      }
+    }
+    return transfers;
+  }
+
+  private async stream(target: NodeAddress, entries: AntiEntropyEntry[], generation: number): Promise<void> {
+    const batchSize = this.options.batchSize ?? cloudConfig.rebalance.batchSize;
+
+    for (let start = 0; start < entries.length; start += batchSize) {
+      const batch = entries.slice(start, start + batchSize);
+      if (!(await this.deliver(target, { type: 'REBALANCE_BATCH', entries: batch }, generation))) return;
+
+      this.progress.entriesSent += batch.length;
+      this.progress.targets[target].sent += batch.length;
+      this.progress.batchesSent++;
+    }
+    if (entries.length > 0) {
+      console.log(`⚖️ Node ${this.options.node}: sent ${entries.length} entries to new owner ${target}`);
+    }
+  }
+
+  /**
+   * Sends until the peer acknowledges or the plan is superseded.
+   */
+  private async deliver(peer: NodeAddress, message: any, generation: number): Promise<boolean> {
+    const retryDelayMs = this.options.retryDelayMs ?? cloudConfig.rebalance.retryDelayMs;
+
+    while (generation === this.generation) {
+      try {
+        const reply = await this.options.send(peer, message);
+        if (reply?.status === 'ok') return true;
+      } catch {
+        // Unreachable or known to be down; try again after the delay
+      }
+      this.progress.retries++;
+      await new Promise(resolve => setTimeout(resolve, retryDelayMs));
+    }
+    return false;
+  }
+
+  private completeIfDone(): void {
+    if (!this.plan || this.progress.state !== 'waiting' || this.waitingFor().length > 0) return;
+
+    const plan = this.plan;
+    const generation = this.generation;
+    this.plan = null;
+
+    // Persisted before reads move, so a restart never resumes from a ring the data has left
+    this.store.saveClusterState(RING_STATE, JSON.stringify(plan.to)).then(() => {
+      if (generation !== this.generation) return;
+      this.progress.state = 'complete';
+      this.progress.finishedAt = Date.now();
+      this.options.onComplete(plan);
+      console.log(`⚖️ Node ${this.options.node}: rebalance to [${plan.to.join(', ')}] complete, reads moved over`);
+    }).catch(err => console.error('Error saving ring:', err));
+  }
+
+  /**
+   * Old members still in the cluster that have not reported their share sent.
+   */
+  private waitingFor(): NodeAddress[] {
+    if (!this.plan) return [];
+    const { from, to } = this.plan;
+    return from.filter(node => to.includes(node) && !this.done.has(node));
+  }
+
+  private others(plan: RebalancePlan): NodeAddress[] {
+    return plan.to.filter(node => node !== this.options.node);
+  }
+}
+
+function idleProgress(to: NodeAddress[]): RebalanceProgress {
+  return {
+    state: 'idle',
+    from: to,
+    to,
+    startedAt: null,
+    finishedAt: null,
+    entriesTotal: 0,
+    entriesSent: 0,
+    batchesSent: 0,
+    retries: 0,
+    targets: {},
+    waitingFor: [],
+    entriesReceived: 0
+  };
+}
+
+function sorted(nodes: NodeAddress[]): NodeAddress[] {
+  return [...new Set(nodes)].sort(compareAddresses);
+}
+
+function ringKey(nodes: NodeAddress[]): string {
+  return sorted(nodes).join(',');
+}
+
+function listsFirst(entries: AntiEntropyEntry[]): AntiEntropyEntry[] {
+  return [...entries].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'list' ? -1 : 1));
+}
@@ -1,12 +1,46 @@
 import express from 'express';
 import { join } from 'path';
 import { ShoppingListManager } from '../storage/ShoppingListManager';
-import { SQLiteStore } from '../storage/SQLiteStore';
-import { Request, Reply } from 'zeromq';
+import { StorageEngine } from '../storage/StorageEngine';
+import { createStorageEngine, engineFor, StorageEngineKind } from '../storage/engines';
+import { createSnapshot, listSnapshots, restoreSnapshot, SnapshotError, SnapshotManifest } from '../storage/snapshots';
+import { Router } from 'zeromq';
 import fs from 'fs';
 import path from 'path';
 import { VectorClock } from '../crdt/VectorClock';
-import { QuorumCoordinator } from './quorum';
+import { QuorumCoordinator, ReplicaWrite } from './quorum';
+import { ClusterMembership, MembershipView } from './membership';
+import { AntiEntropyService, AntiEntropyEntry, RecoveryProgress } from './antiEntropy';
+import { Rebalancer } from './rebalancer';
+import { RingRange } from './partitioning';
+import { HintedHandoff } from './hintedHandoff';
+import { TombstoneRegistry } from './tombstones';
+import { SiblingRegistry } from './siblings';
+import { DeltaSync } from './deltaSync';
+import { HeartbeatGossip, LivenessReport } from './failureDetector';
+import { Envelope, errorReply, operationOf, ProtocolError, PROTOCOL_VERSION } from './protocol';
+import { detectCodec } from './codec';
+import { WireEndpoint } from './wire';
+import { isAddress, messagingAddress, NodeAddress, NodeBindings, parseAddress, tcpEndpoint } from './addresses';
+import { PeerChannel, serveRequests } from './peerChannel';
+import { Clock, maximalVersions, mergeClocks, toClock } from './versions';
+import { causalContextMiddleware, resolvingClock, CAUSAL_CONTEXT_HEADER } from './causalContext';
+import { ItemChange, ItemChangeFailure, ShoppingListItem, StorageWrite, Tombstone } from '../shared/types';
+import { ConsistencyLevel, consistencyMiddleware, CONSISTENCY_HEADER, ACHIEVED_CONSISTENCY_HEADER } from './consistency';
+import cloudConfig from './cloudConfig.json';
+
+/**
+ * Replicated write types a fallback node may accept on behalf of another replica.
+ */
+const HINTABLE_UPDATES = new Set([
+  'CREATE_LIST', 'ADD_ITEM', 'UPDATE_ITEM', 'TOGGLE_CHECK', 'UPDATE_QUANTITY', 'UPDATE_NAME', 'REMOVE_ITEM', 'DELETE_LIST'
+]);
+
+// Peer requests that write to this node's storage
+const STORAGE_WRITES = new Set([...HINTABLE_UPDATES, 'HINTED_WRITE', 'READ_REPAIR', 'ANTI_ENTROPY_PUSH', 'REBALANCE_BATCH']);
+
+// Cluster state key holding the last membership view this node adopted
+const MEMBERSHIP_STATE = 'membership';
 
 /**
  * Storage node server implementing Dynamo-style distributed architecture.
@@ -15,44 +49,86 @@ import { QuorumCoordinator } from './quorum';
 export class ShoppingListServer {
   private app: express.Application;
   private listManager: ShoppingListManager;
+  private address: NodeAddress; // host:port the cluster reaches this node's HTTP API at
   private port: number;
-  private dbFile: string;
-  private repSocket!: Reply;
-  private reqSockets: Map<number, Request> = new Map();
-  private coordinatorSocket: Request | null = null;
+  private bind: NodeBindings;
+  private store: StorageEngine;
+  private restoring: boolean = false;
+  private replacingData: boolean = false; // While a restore replaces the tables and reloads memory from them
+  private routerSocket!: Router;
+  private peers: Map<NodeAddress, PeerChannel> = new Map(); // Channels to other nodes by address
+  private coordinatorChannel: PeerChannel | null = null;
   private sseClients: Map<express.Response, NodeJS.Timeout> = new Map();
-  private hintedHandOffQueue: Map<number, any[]> = new Map();
+  private hintedHandoff: HintedHandoff;
   private hintedHandoffInterval?: NodeJS.Timeout;
+  private tombstones: TombstoneRegistry;
+  private tombstoneGcInterval?: NodeJS.Timeout;
+  private siblings: SiblingRegistry;
+  private deltaSync: DeltaSync;
+  private wire: WireEndpoint;
   private nodeId: string;
   private httpServer?: any;
   private isRunning: boolean = false;
   private zmqListenerAbortController?: AbortController;
   private quorumCoordinator?: QuorumCoordinator;
+  private membership: ClusterMembership;
+  private antiEntropy: AntiEntropyService;
+  private antiEntropyInterval?: NodeJS.Timeout;
+  private heartbeats: HeartbeatGossip;
+  private heartbeatInterval?: NodeJS.Timeout;
+  private checkpointInterval?: NodeJS.Timeout;
+  private rebalancer: Rebalancer;
+  private recovery: RecoveryProgress & { state: 'recovering' | 'ready'; startedAt: number | null; finishedAt: number | null } = {
+    state: 'recovering', startedAt: null, finishedAt: null, ranges: 0, synced: 0, peers: []
+  };
+  private recoveryTimer?: NodeJS.Timeout;
+  private messagingReady!: () => void;
+  private messaging: Promise<void> = new Promise(resolve => (this.messagingReady = resolve));
 
-  private async recvWithTimeout(
-    socket: Request,
-    timeoutMs: number
-  ): Promise<Buffer[] | null> {
-    return Promise.race([
-      socket.receive() as Promise<Buffer[]>,
-      new Promise<null>(resolve =>
-        setTimeout(() => resolve(null), timeoutMs)
-      )
-    ]);
-  }
-
-
-  constructor(port: number = 3000, nodeId?: string) {
+  /**
+   * @param address host:port other nodes and clients reach this node at; its identity on the ring
+   * @param nodeId id used in vector clocks and for the data file, the HTTP port by default
+   * @param bind interfaces to listen on when they differ from the advertised address
+   * @param engine storage engine to keep the node's data in, as configured for the address by default
+   */
+  constructor(address: NodeAddress, nodeId?: string, bind: NodeBindings = {}, engine: StorageEngineKind = engineFor(address)) {
     this.app = express();
-    this.port = port;
-    this.nodeId = nodeId || port.toString();
-
-    const dbFolder = path.join(__dirname, '../../database/servers');
-    if (!fs.existsSync(dbFolder)) fs.mkdirSync(dbFolder, { recursive: true });
-    this.dbFile = path.join(dbFolder, `${port}.db`);
-
-    const store = new SQLiteStore(this.dbFile);
-    this.listManager = new ShoppingListManager(undefined, store);
+    this.address = address;
+    this.port = parseAddress(address).port;
+    this.bind = bind;
+    this.nodeId = nodeId || this.port.toString();
+
+    const store = createStorageEngine(engine, this.nodeId);
+    this.store = store;
+    this.listManager = new ShoppingListManager(this.nodeId, store);
+    this.hintedHandoff = new HintedHandoff(store);
+    this.tombstones = new TombstoneRegistry(store);
+    this.siblings = new SiblingRegistry(store);
+    this.deltaSync = new DeltaSync(this.nodeId);
+    this.wire = new WireEndpoint(this.nodeId);
+    this.listManager.onItemDelta((itemId, delta) => this.deltaSync.record(itemId, delta));
+    this.membership = new ClusterMembership([this.address]);
+    this.antiEntropy = new AntiEntropyService({
+      node: this.address,
+      getPartitioner: () => this.quorumCoordinator?.getPartitioner(),
+      loadEntries: range => this.loadAntiEntropyEntries(range),
+      applyEntry: entry => this.applyAntiEntropyEntry(entry),
+      send: (node, message) => this.quorumCoordinator!.sendToNode(node, message, 2000)
+    });
+    // Gossip goes to every member, including ones suspected down, so their recovery is noticed
+    this.heartbeats = new HeartbeatGossip({
+      node: this.address,
+      peers: () => this.membership.getMembers(),
+      send: async (node, message) => this.peers.get(node)?.request(message, cloudConfig.failureDetector.heartbeatInterval)
+    });
+    this.rebalancer = new Rebalancer(store, {
+      node: this.address,
+      loadEntries: range => this.loadAntiEntropyEntries(range),
+      applyEntry: entry => this.applyAntiEntropyEntry(entry),
+      send: (node, message) => this.quorumCoordinator!.sendToNode(node, message, 5000),
+      onBegin: plan => this.quorumCoordinator?.beginRebalance(plan.from),
+      onComplete: () => this.quorumCoordinator?.finishRebalance()
+    });
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -76,7 +152,8 @@ export class ShoppingListServer {
     this.app.use((req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
+      res.header('Access-Control-Allow-Headers', `Origin, X-Requested-With, Content-Type, Accept, ${CONSISTENCY_HEADER}, ${CAUSAL_CONTEXT_HEADER}`);
+      res.header('Access-Control-Expose-Headers', `${ACHIEVED_CONSISTENCY_HEADER}, ${CAUSAL_CONTEXT_HEADER}`);
       
       // Handle preflight requests
       if (req.method === 'OPTIONS') {
@@ -85,6 +162,121 @@ export class ShoppingListServer {
       
       next();
     });
+
+    // Per-request consistency level (ONE, QUORUM or ALL), defaulting to QUORUM
+    this.app.use(consistencyMiddleware);
+
+    // Causal context from an earlier read, sent back by writes that resolve siblings
+    this.app.use(causalContextMiddleware);
+  }
+
+  /**
+   * Reports the consistency level the replicas actually reached for this request.
+   */
+  private setAchievedConsistency(res: express.Response, achieved: ConsistencyLevel | null): void {
+    res.setHeader(ACHIEVED_CONSISTENCY_HEADER, achieved ?? 'NONE');
+  }
+
+  /**
+   * Quorum read of a list or item. By default answers with the newest version and
+   * the causal context in a header; with ?siblings=true answers with every
+   * concurrent version and the context in the body.
+   */
+  private async readVersioned(kind: 'list' | 'item', req: express.Request, res: express.Response): Promise<any> {
+    const id = kind === 'list' ? req.params.listId : req.params.itemId;
+    const label = kind === 'list' ? 'List' : 'Item';
+    try {
+      let data, siblings, context;
+      if (this.quorumCoordinator) {
+        const result = await this.quorumCoordinator.quorumReadResult(id, kind, res.locals.consistency);
+        this.setAchievedConsistency(res, result.achieved);
+        if (result.deleted) return res.status(404).json({ error: `${label} not found` });
+
+        if (!result.quorumMet) {
+          console.error(`❌ Quorum read failed for ${kind} ${id}`);
+          return res.status(503).json({ 
+            error: 'Read quorum not met',
+            message: 'Unable to read from sufficient replicas',
+            consistency: result.level
+          });
+        }
+        ({ data, siblings, context } = result);
+      } else {
+        // Fallback to local read if quorum not initialized
+        data = kind === 'list' ? await this.listManager.getList(id) : await this.listManager.getItem(id);
+        const versions = data ? [data, ...await this.siblings.get(kind, id)] : [];
+        siblings = maximalVersions(kind, versions);
+        context = data ? mergeClocks(versions.map(v => v.vectorClock)) : null;
+      }
+
+      if (!data) return res.status(404).json({ error: `${label} not found` });
+      if (context) res.setHeader(CAUSAL_CONTEXT_HEADER, JSON.stringify(context));
+
+      if (req.query.siblings === 'true') {
+        return res.json({ siblings: siblings.map((s: any) => this.withoutCRDTState(s)), context });
+      }
+      res.json(this.withoutCRDTState(data));
+    } catch (error) {
+      console.error(`Error getting ${kind}:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Attaches an item's AWORSet state, so that replicas merge per-node counter
+   * contributions instead of overwriting the plain values.
+   */
+  private replicated(item: ShoppingListItem): ShoppingListItem & { crdt?: any } {
+    const crdt = this.listManager.getItemState(item.id);
+    return crdt ? { ...item, crdt } : item;
+  }
+
+  /**
+   * Replicates an item write as the deltas each replica has not acknowledged yet,
+   * or as the item's full CRDT state to replicas that need it.
+   */
+  private itemWrite(type: string, item: ShoppingListItem): ReplicaWrite {
+    return {
+      operation: (node, fullState) => {
+        const deltas = fullState ? null : this.deltaSync.intervalFor(node, item.id);
+        return deltas
+          ? { type, item, deltas }
+          : { type, item: this.replicated(item), stamp: this.deltaSync.stamp() };
+      },
+      acknowledged: (node, reply) => {
+        if (reply.ack !== undefined) this.deltaSync.acknowledge(node, item.id, reply.ack);
+      }
+    };
+  }
+
+  /**
+   * A read result as returned to HTTP clients, without the replicated CRDT state.
+   */
+  private withoutCRDTState(data: any): any {
+    if (!data) return data;
+    const { crdt, ...rest } = data;
+    if (Array.isArray(rest.items)) {
+      rest.items = rest.items.map((item: any) => this.withoutCRDTState(item));
+    }
+    return rest;
+  }
+
+  /**
+   * Makes a locally applied write descend from every version the causal context
+   * covers, so that it resolves those siblings here and on the replicas it reaches.
+   */
+  private async resolveSiblings<T extends { id: string; vectorClock: any }>(kind: 'list' | 'item', version: T, context: Clock | null): Promise<T> {
+    if (!context) return version;
+
+    const resolved = { ...version, vectorClock: resolvingClock(version.vectorClock, context, this.nodeId) };
+    if (kind === 'list') {
+      await this.listManager.updateList(resolved as any);
+    } else {
+      await this.listManager.applyRemoteItem(resolved as any);
+    }
+    const count = await this.siblings.resolve(kind, version.id, resolved.vectorClock);
+    console.log(`🌿 Resolved ${count} local sibling(s) of ${kind} ${version.id}`);
+    return resolved;
   }
 
   private async initializeManager(): Promise<void> {
@@ -93,8 +285,24 @@ export class ShoppingListServer {
 
   private setupRoutes(): void {
     // Health check
+    // 503 until the node has caught up after starting, so clients keep using other nodes meanwhile
     this.app.get('/api/health', (_req, res) => {
-      res.json({ status: 'OK', timestamp: Date.now(), nodeId: this.nodeId });
+      const ready = this.recovery.state === 'ready';
+      res.status(ready ? 200 : 503).json({
+        status: ready ? 'OK' : 'RECOVERING',
+        timestamp: Date.now(),
+        nodeId: this.nodeId,
+        recovery: this.recovery,
+        members: this.livenessReport()
+      });
+    });
+
+    // A node restoring a snapshot only serves reads until it has caught up again
+    this.app.use(['/api/lists', '/api/items'], (req, res, next) => {
+      if (this.restoring && req.method !== 'GET') {
+        return res.status(503).json({ error: 'Node is restoring a snapshot' });
+      }
+      next();
     });
 
     // Create list
@@ -105,6 +313,7 @@ export class ShoppingListServer {
 
         const existing = id ? await this.listManager.getList(id) : null;
         if (existing) return res.status(409).json({ error: 'List already exists', list: existing });
+        if (id && await this.tombstones.get('list', id)) return res.status(410).json({ error: 'List was deleted' });
 
         const vc = new VectorClock();
         if (vectorClock) {
@@ -125,15 +334,18 @@ export class ShoppingListServer {
         if (this.quorumCoordinator) {
           const quorumResult = await this.quorumCoordinator.quorumWrite(
             list.id,
-            { type: 'CREATE_LIST', list }
+            { type: 'CREATE_LIST', list },
+            res.locals.consistency
           );
+          this.setAchievedConsistency(res, quorumResult.achieved);
           
           if (!quorumResult.success) {
             console.error(`❌ Quorum write failed for list ${list.id}`);
             return res.status(503).json({ 
               error: 'Write quorum not met',
               successfulNodes: quorumResult.successfulNodes.length,
-              requiredNodes: 2
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
@@ -150,29 +362,52 @@ export class ShoppingListServer {
       }
     });
 
-    // Get list with items
-    this.app.get('/api/lists/:listId', async (req, res) => {
+    // Get list with items; ?siblings=true returns every concurrent version instead
+    this.app.get('/api/lists/:listId', (req, res) => this.readVersioned('list', req, res));
+
+    // Rename list; a causal context resolves the list's siblings
+    this.app.put('/api/lists/:listId', async (req, res) => {
       try {
-        // Perform quorum read
-        let list;
+        const { name } = req.body;
+        if (!name) return res.status(400).json({ error: 'List name is required' });
+
+        const existing = await this.listManager.getList(req.params.listId);
+        if (!existing) return res.status(404).json({ error: 'List not found' });
+
+        const vc = new VectorClock();
+        vc.fromObject({ ...toClock(existing.vectorClock) });
+        vc.increment(this.nodeId);
+
+        const renamed = await this.listManager.updateList({ id: existing.id, name, vectorClock: vc.toObject(), lastUpdated: Date.now() });
+        if (!renamed) return res.status(404).json({ error: 'List not found' });
+        const list = await this.resolveSiblings('list', renamed, res.locals.causalContext);
+
         if (this.quorumCoordinator) {
-          list = await this.quorumCoordinator.quorumRead(req.params.listId, 'list');
-          if (!list) {
-            console.error(`❌ Quorum read failed for list ${req.params.listId}`);
+          const quorumResult = await this.quorumCoordinator.quorumWrite(
+            list.id,
+            { type: 'CREATE_LIST', list },
+            res.locals.consistency
+          );
+          this.setAchievedConsistency(res, quorumResult.achieved);
+
+          if (!quorumResult.success) {
+            console.error(`❌ Quorum write failed for rename of list ${list.id}`);
             return res.status(503).json({ 
-              error: 'Read quorum not met',
-              message: 'Unable to read from sufficient replicas'
+              error: 'Write quorum not met',
+              successfulNodes: quorumResult.successfulNodes.length,
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
-          // Fallback to local read if quorum not initialized
-          list = await this.listManager.getList(req.params.listId);
+          await this.sendUpdateToNeighbors({ type: 'CREATE_LIST', list }).catch(err => console.error(err));
         }
-        
-        if (!list) return res.status(404).json({ error: 'List not found' });
+
+        this.broadcastUpdate('list-updated', list);
+
         res.json(list);
       } catch (error) {
-        console.error('Error getting list:', error);
+        console.error('Error renaming list:', error);
         res.status(500).json({ error: 'Internal server error' });
       }
     });
@@ -185,6 +420,7 @@ export class ShoppingListServer {
 
         const existing = id ? await this.listManager.getItem(id) : null;
         if (existing) return res.status(409).json({ error: 'Item already exists', item: existing });
+        if (id && await this.tombstones.get('item', id)) return res.status(410).json({ error: 'Item was deleted' });
 
         const vc = new VectorClock();
         if (vectorClock) {
@@ -204,7 +440,7 @@ export class ShoppingListServer {
 
         if (!item && this.quorumCoordinator) {
           try {
-            const fetchedList = await this.quorumCoordinator.quorumRead(req.params.listId, 'list');
+            const fetchedList = await this.quorumCoordinator.quorumRead(req.params.listId, 'list', res.locals.consistency);
             if (fetchedList) {
               await this.listManager.createList(
                 fetchedList.name,
@@ -226,22 +462,25 @@ export class ShoppingListServer {
         
         // Perform quorum write
         if (this.quorumCoordinator) {
-          const quorumResult = await this.quorumCoordinator.quorumWrite(
+          const quorumResult = await this.quorumCoordinator.quorumWriteTo(
             item.id,
-            { type: 'ADD_ITEM', item }
+            this.itemWrite('ADD_ITEM', item),
+            res.locals.consistency
           );
+          this.setAchievedConsistency(res, quorumResult.achieved);
           
           if (!quorumResult.success) {
             console.error(`❌ Quorum write failed for item ${item.id}`);
             return res.status(503).json({ 
               error: 'Write quorum not met',
               successfulNodes: quorumResult.successfulNodes.length,
-              requiredNodes: 2
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
           // Fallback to old gossip if quorum not initialized
-          await this.sendUpdateToNeighbors({ type: 'ADD_ITEM', item }).catch(err => console.error(err));
+          await this.sendUpdateToNeighbors({ type: 'ADD_ITEM', item: this.replicated(item) }).catch(err => console.error(err));
         }
         
         this.broadcastUpdate('item-added', { listId: req.params.listId, item });
@@ -253,6 +492,9 @@ export class ShoppingListServer {
       }
     });
 
+    // Get item; ?siblings=true returns every concurrent version instead
+    this.app.get('/api/items/:itemId', (req, res) => this.readVersioned('item', req, res));
+
     // Update item
     this.app.put('/api/items/:itemId', async (req, res) => {
       try {
@@ -262,26 +504,32 @@ export class ShoppingListServer {
         vc.increment(this.nodeId);
         updates.vectorClock = vc.toObject();
 
-        const item = await this.listManager.updateItem(req.params.itemId, updates);
+        let item = await this.listManager.updateItem(req.params.itemId, updates);
         if (!item) return res.status(404).json({ error: 'Item not found' });
 
+        // A causal context from an earlier read makes this write resolve the siblings it saw
+        item = await this.resolveSiblings('item', item, res.locals.causalContext);
+
         // Perform quorum write
         if (this.quorumCoordinator) {
-          const quorumResult = await this.quorumCoordinator.quorumWrite(
+          const quorumResult = await this.quorumCoordinator.quorumWriteTo(
             req.params.itemId,
-            { type: 'UPDATE_ITEM', item }
+            this.itemWrite('UPDATE_ITEM', item),
+            res.locals.consistency
           );
+          this.setAchievedConsistency(res, quorumResult.achieved);
           
           if (!quorumResult.success) {
             console.error(`❌ Quorum write failed for item ${req.params.itemId}`);
             return res.status(503).json({ 
               error: 'Write quorum not met',
               successfulNodes: quorumResult.successfulNodes.length,
-              requiredNodes: 2
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
-          await this.sendUpdateToNeighbors({ type: 'UPDATE_ITEM', item }).catch(err => console.error(err));
+          await this.sendUpdateToNeighbors({ type: 'UPDATE_ITEM', item: this.replicated(item) }).catch(err => console.error(err));
         }
         
         this.broadcastUpdate('item-updated', item);
@@ -308,46 +556,13 @@ export class ShoppingListServer {
         // DYNAMO PATTERN: If we don't have the item locally, coordinate with replicas
         if (!crdtItem && this.quorumCoordinator) {
           console.log(`📡 Item ${req.params.itemId} not found locally for toggle, coordinating with replicas...`);
-          
-          // Quorum read to get the item from replicas that have it
-          const itemData = await this.quorumCoordinator.quorumRead(req.params.itemId, 'item');
-          if (!itemData) {
+          if (!(await this.bootstrapFromReplicas(req.params.itemId, res.locals.consistency))) {
             return res.status(404).json({ error: 'Item not found in any replica' });
           }
-          
-          // Bootstrap the item locally from the read result
-          const list = await this.listManager.getList(itemData.listId);
-          if (!list) {
-            // Need to bootstrap the list too
-            const listData = await this.quorumCoordinator.quorumRead(itemData.listId, 'list');
-            if (listData) {
-              await this.listManager.createList(
-                listData.name,
-                listData.id,
-                listData.vectorClock,
-                listData.createdAt,
-                listData.lastUpdated
-              );
-            }
-          }
-          
-          // Add item locally
-          await this.listManager.addItemToList(itemData.listId, {
-            name: itemData.name,
-            quantity: itemData.quantity,
-            id: itemData.id,
-            vectorClock: itemData.vectorClock,
-            createdAt: itemData.createdAt,
-            lastUpdated: itemData.lastUpdated
-          });
-          
-          // Now get the CRDT item
           crdtItem = this.listManager.getCRDTItem(req.params.itemId);
           if (!crdtItem) {
             return res.status(500).json({ error: 'Failed to bootstrap item from replicas' });
           }
-          
-          console.log(`✅ Bootstrapped item ${itemData.name} from replicas for toggle`);
         } else if (!crdtItem) {
           return res.status(404).json({ error: 'Item not found' });
         }
@@ -402,23 +617,29 @@ export class ShoppingListServer {
           item.vectorClock = vc.toObject();
         }
 
+        // A causal context from an earlier read makes this write resolve the siblings it saw
+        item = await this.resolveSiblings('item', item, res.locals.causalContext);
+
         // Perform quorum write
         if (this.quorumCoordinator) {
-          const quorumResult = await this.quorumCoordinator.quorumWrite(
+          const quorumResult = await this.quorumCoordinator.quorumWriteTo(
             req.params.itemId,
-            { type: 'TOGGLE_CHECK', item }
+            this.itemWrite('TOGGLE_CHECK', item),
+            res.locals.consistency
           );
+          this.setAchievedConsistency(res, quorumResult.achieved);
           
           if (!quorumResult.success) {
             console.error(`❌ Quorum write failed for toggle on item ${req.params.itemId}`);
             return res.status(503).json({ 
               error: 'Write quorum not met',
               successfulNodes: quorumResult.successfulNodes.length,
-              requiredNodes: 2
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
-          await this.sendUpdateToNeighbors({ type: 'TOGGLE_CHECK', item }).catch(err => console.error(err));
+          await this.sendUpdateToNeighbors({ type: 'TOGGLE_CHECK', item: this.replicated(item) }).catch(err => console.error(err));
         }
         
         this.broadcastUpdate('item-toggled', item);
@@ -446,46 +667,13 @@ export class ShoppingListServer {
         // DYNAMO PATTERN: If we don't have the item locally, coordinate with replicas
         if (!crdtItem && this.quorumCoordinator) {
           console.log(`📡 Item ${req.params.itemId} not found locally, coordinating with replicas...`);
-          
-          // Quorum read to get the item from replicas that have it
-          const itemData = await this.quorumCoordinator.quorumRead(req.params.itemId, 'item');
-          if (!itemData) {
+          if (!(await this.bootstrapFromReplicas(req.params.itemId, res.locals.consistency))) {
             return res.status(404).json({ error: 'Item not found in any replica' });
           }
-          
-          // Bootstrap the item locally from the read result
-          const list = await this.listManager.getList(itemData.listId);
-          if (!list) {
-            // Need to bootstrap the list too
-            const listData = await this.quorumCoordinator.quorumRead(itemData.listId, 'list');
-            if (listData) {
-              await this.listManager.createList(
-                listData.name,
-                listData.id,
-                listData.vectorClock,
-                listData.createdAt,
-                listData.lastUpdated
-              );
-            }
-          }
-          
-          // Add item locally
-          await this.listManager.addItemToList(itemData.listId, {
-            name: itemData.name,
-            quantity: itemData.quantity,
-            id: itemData.id,
-            vectorClock: itemData.vectorClock,
-            createdAt: itemData.createdAt,
-            lastUpdated: itemData.lastUpdated
-          });
-          
-          // Now get the CRDT item
           crdtItem = this.listManager.getCRDTItem(req.params.itemId);
           if (!crdtItem) {
             return res.status(500).json({ error: 'Failed to bootstrap item from replicas' });
           }
-          
-          console.log(`✅ Bootstrapped item ${itemData.name} from replicas`);
         } else if (!crdtItem) {
           return res.status(404).json({ error: 'Item not found' });
         }
@@ -520,7 +708,7 @@ export class ShoppingListServer {
           if (lastUpdated) crdtItem.lastUpdated = lastUpdated;
         }
 
-        const item = await this.listManager.updateItemQuantity(req.params.itemId, finalQuantity, finalAcquired);
+        let item = await this.listManager.updateItemQuantity(req.params.itemId, finalQuantity, finalAcquired);
         if (!item) return res.status(404).json({ error: 'Item not found' });
 
         const isChecked = item.quantity > 0 && item.acquired >= item.quantity;
@@ -534,23 +722,29 @@ export class ShoppingListServer {
           item.vectorClock = vc.toObject();
         }
 
+        // A causal context from an earlier read makes this write resolve the siblings it saw
+        item = await this.resolveSiblings('item', item, res.locals.causalContext);
+
         // Perform quorum write
         if (this.quorumCoordinator) {
-          const quorumResult = await this.quorumCoordinator.quorumWrite(
+          const quorumResult = await this.quorumCoordinator.quorumWriteTo(
             req.params.itemId,
-            { type: 'UPDATE_QUANTITY', item }
+            this.itemWrite('UPDATE_QUANTITY', item),
+            res.locals.consistency
           );
+          this.setAchievedConsistency(res, quorumResult.achieved);
           
           if (!quorumResult.success) {
             console.error(`❌ Quorum write failed for quantity update on item ${req.params.itemId}`);
             return res.status(503).json({ 
               error: 'Write quorum not met',
               successfulNodes: quorumResult.successfulNodes.length,
-              requiredNodes: 2
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
-          await this.sendUpdateToNeighbors({ type: 'UPDATE_QUANTITY', item }).catch(err => console.error(err));
+          await this.sendUpdateToNeighbors({ type: 'UPDATE_QUANTITY', item: this.replicated(item) }).catch(err => console.error(err));
         }
         
         this.broadcastUpdate('item-quantity-updated', item);
@@ -580,41 +774,13 @@ export class ShoppingListServer {
         // DYNAMO PATTERN: If we don't have the item locally, coordinate with replicas
         if (!crdtItem && this.quorumCoordinator) {
           console.log(`📡 Item ${req.params.itemId} not found locally for name update, coordinating with replicas...`);
-          
-          const itemData = await this.quorumCoordinator.quorumRead(req.params.itemId, 'item');
-          if (!itemData) {
+          if (!(await this.bootstrapFromReplicas(req.params.itemId, res.locals.consistency))) {
             return res.status(404).json({ error: 'Item not found in any replica' });
           }
-          
-          const list = await this.listManager.getList(itemData.listId);
-          if (!list) {
-            const listData = await this.quorumCoordinator.quorumRead(itemData.listId, 'list');
-            if (listData) {
-              await this.listManager.createList(
-                listData.name,
-                listData.id,
-                listData.vectorClock,
-                listData.createdAt,
-                listData.lastUpdated
-              );
-            }
-          }
-          
-          await this.listManager.addItemToList(itemData.listId, {
-            name: itemData.name,
-            quantity: itemData.quantity,
-            id: itemData.id,
-            vectorClock: itemData.vectorClock,
-            createdAt: itemData.createdAt,
-            lastUpdated: itemData.lastUpdated
-          });
-          
           crdtItem = this.listManager.getCRDTItem(req.params.itemId);
           if (!crdtItem) {
             return res.status(500).json({ error: 'Failed to bootstrap item from replicas' });
           }
-          
-          console.log(`✅ Bootstrapped item ${itemData.name} from replicas for name update`);
         } else if (!crdtItem) {
           return res.status(404).json({ error: 'Item not found' });
         }
@@ -653,7 +819,7 @@ export class ShoppingListServer {
           if (lastUpdated) crdtItem.lastUpdated = lastUpdated;
         }
 
-        const item = await this.listManager.updateItemName(req.params.itemId, finalName);
+        let item = await this.listManager.updateItemName(req.params.itemId, finalName);
         if (!item) return res.status(404).json({ error: 'Item not found' });
 
         console.log(`✅ Updated name: ${item.name} (${item.id})`);
@@ -666,23 +832,29 @@ export class ShoppingListServer {
           item.vectorClock = vc.toObject();
         }
 
+        // A causal context from an earlier read makes this write resolve the siblings it saw
+        item = await this.resolveSiblings('item', item, res.locals.causalContext);
+
         // Perform quorum write
         if (this.quorumCoordinator) {
-          const quorumResult = await this.quorumCoordinator.quorumWrite(
+          const quorumResult = await this.quorumCoordinator.quorumWriteTo(
             req.params.itemId,
-            { type: 'UPDATE_NAME', item }
+            this.itemWrite('UPDATE_NAME', item),
+            res.locals.consistency
           );
+          this.setAchievedConsistency(res, quorumResult.achieved);
           
           if (!quorumResult.success) {
             console.error(`❌ Quorum write failed for name update on item ${req.params.itemId}`);
             return res.status(503).json({ 
               error: 'Write quorum not met',
               successfulNodes: quorumResult.successfulNodes.length,
-              requiredNodes: 2
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
             });
           }
         } else {
-          await this.sendUpdateToNeighbors({ type: 'UPDATE_NAME', item }).catch(err => console.error(err));
+          await this.sendUpdateToNeighbors({ type: 'UPDATE_NAME', item: this.replicated(item) }).catch(err => console.error(err));
         }
         
         this.broadcastUpdate('item-name-updated', item);
@@ -694,15 +866,58 @@ export class ShoppingListServer {
       }
     });
 
+    // Item changes a client queued since its last sync, acknowledged one by one
+    this.app.post('/api/items/changes', async (req, res) => {
+      const changes: ItemChange[] | undefined = req.body?.changes;
+      if (!Array.isArray(changes)) return res.status(400).json({ error: 'Changes are required' });
+
+      try {
+        const acknowledged: string[] = [];
+        const failed: ItemChangeFailure[] = [];
+        for (const change of changes) {
+          const failure = await this.applyClientChange(change, res.locals.consistency, res.locals.causalContext);
+          if (failure) failed.push({ id: change.id, ...failure });
+          else acknowledged.push(change.id);
+        }
+
+        console.log(`✅ Applied ${acknowledged.length}/${changes.length} client change(s)`);
+        res.json({ acknowledged, failed });
+      } catch (error) {
+        console.error('Error applying client changes:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // Delete item
     this.app.delete('/api/items/:itemId', async (req, res) => {
       try {
-        const success = await this.listManager.removeItemFromList(req.params.itemId);
-        if (!success) return res.status(404).json({ error: 'Item not found' });
+        const item = await this.listManager.getItem(req.params.itemId);
+        if (!item) return res.status(404).json({ error: 'Item not found' });
+
+        const clock = mergeClocks([item.vectorClock, res.locals.causalContext ?? {}]);
+        const tombstone = TombstoneRegistry.create('item', item.id, clock, this.nodeId, item.listId);
+        await this.applyDeletion(tombstone);
 
         console.log(`✅ Deleted item: ${req.params.itemId}`);
 
-        await this.sendUpdateToNeighbors({ type: 'REMOVE_ITEM', itemId: req.params.itemId }).catch(err => console.error(err));
+        const update = { type: 'REMOVE_ITEM', itemId: item.id, tombstone };
+        if (this.quorumCoordinator) {
+          const quorumResult = await this.quorumCoordinator.quorumWrite(item.id, update, res.locals.consistency);
+          this.setAchievedConsistency(res, quorumResult.achieved);
+
+          if (!quorumResult.success) {
+            console.error(`❌ Quorum write failed for deletion of item ${item.id}`);
+            return res.status(503).json({ 
+              error: 'Write quorum not met',
+              successfulNodes: quorumResult.successfulNodes.length,
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
+            });
+          }
+        } else {
+          await this.sendUpdateToNeighbors(update).catch(err => console.error(err));
+        }
+
         this.broadcastUpdate('item-removed', { itemId: req.params.itemId });
 
         res.json({ success: true });
@@ -715,12 +930,41 @@ export class ShoppingListServer {
     // Delete list
     this.app.delete('/api/lists/:listId', async (req, res) => {
       try {
-        const success = await this.listManager.deleteList(req.params.listId);
-        if (!success) return res.status(404).json({ error: 'List not found' });
+        const list = await this.listManager.getList(req.params.listId);
+        if (!list) return res.status(404).json({ error: 'List not found' });
+
+        const clock = mergeClocks([list.vectorClock, res.locals.causalContext ?? {}]);
+        const tombstone = TombstoneRegistry.create('list', list.id, clock, this.nodeId);
+        await this.applyDeletion(tombstone);
 
         console.log(`✅ Deleted list: ${req.params.listId}`);
 
-        await this.sendUpdateToNeighbors({ type: 'DELETE_LIST', listId: req.params.listId }).catch(err => console.error(err));
+        const update = { type: 'DELETE_LIST', listId: list.id, tombstone };
+        if (this.quorumCoordinator) {
+          const quorumResult = await this.quorumCoordinator.quorumWrite(list.id, update, res.locals.consistency);
+          this.setAchievedConsistency(res, quorumResult.achieved);
+
+          if (!quorumResult.success) {
+            console.error(`❌ Quorum write failed for deletion of list ${list.id}`);
+            return res.status(503).json({ 
+              error: 'Write quorum not met',
+              successfulNodes: quorumResult.successfulNodes.length,
+              requiredNodes: this.quorumCoordinator.requiredReplicas(quorumResult.level, 'write'),
+              consistency: quorumResult.level
+            });
+          }
+
+          // Items are placed on the ring by their own ids, so their replicas need the item tombstones too
+          const itemTombstones = await Promise.all(list.items.map(item => this.tombstones.get('item', item.id)));
+          await Promise.allSettled(
+            itemTombstones
+              .filter((t): t is Tombstone => !!t)
+              .map(t => this.quorumCoordinator!.quorumWrite(t.id, { type: 'REMOVE_ITEM', itemId: t.id, tombstone: t }, res.locals.consistency))
+          );
+        } else {
+          await this.sendUpdateToNeighbors(update).catch(err => console.error(err));
+        }
+
         this.broadcastUpdate('list-deleted', { listId: req.params.listId });
 
         res.json({ success: true });
@@ -752,6 +996,109 @@ export class ShoppingListServer {
       }
     });
 
+    // Node statistics, including how often quorum reads found diverged replicas
+    this.app.get('/api/stats', (_req, res) => {
+      res.json({
+        ...this.listManager.getStats(),
+        address: this.address,
+        readRepair: this.quorumCoordinator?.getReadRepairStats() ?? null,
+        antiEntropy: this.antiEntropy.getStats(),
+        traffic: this.wire.getStats()
+      });
+    });
+
+    // Admin view of hints waiting for unreachable replicas
+    this.app.get('/api/admin/hints', async (req, res) => {
+      try {
+        if (req.query.target !== undefined) {
+          const hints = await this.hintedHandoff.pending(String(req.query.target));
+          return res.json(hints);
+        }
+        res.json(await this.hintedHandoff.backlog());
+      } catch (error) {
+        console.error('Error getting hints:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Tombstones of deleted lists and items awaiting garbage collection
+    this.app.get('/api/admin/tombstones', async (_req, res) => {
+      try {
+        res.json(await this.tombstones.all());
+      } catch (error) {
+        console.error('Error reading tombstones:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Progress of moving data to new owners after the ring changed
+    this.app.get('/api/admin/rebalance', (_req, res) => {
+      res.json(this.rebalancer.getProgress());
+    });
+
+    // Point-in-time backups of this node's database
+    this.app.get('/api/admin/snapshots', (_req, res) => {
+      try {
+        res.json(listSnapshots(undefined, this.nodeId));
+      } catch (error) {
+        console.error('Error listing snapshots:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    this.app.post('/api/admin/snapshots', async (_req, res) => {
+      try {
+        res.status(201).json(await this.snapshot());
+      } catch (error) {
+        this.sendSnapshotError(res, error, 'Error taking snapshot:');
+      }
+    });
+
+    this.app.post('/api/admin/snapshots/:id/restore', async (req, res) => {
+      try {
+        res.json(await this.restore(req.params.id));
+      } catch (error) {
+        this.sendSnapshotError(res, error, 'Error restoring snapshot:');
+      }
+    });
+
+    // Cluster membership view
+    this.app.get('/api/cluster/members', (_req, res) => {
+      res.json(this.membership.getView());
+    });
+
+    // Add a storage node to the running cluster
+    this.app.post('/api/cluster/join', async (req, res) => {
+      try {
+        const address = req.body.address;
+        if (!isAddress(address)) return res.status(400).json({ error: 'Node address (host:port) is required' });
+
+        const view = await this.joinNode(address);
+        if (!view) return res.status(409).json({ error: 'Node is already a member', view: this.membership.getView() });
+
+        res.json(view);
+      } catch (error) {
+        console.error('Error joining node:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Retire a storage node from the running cluster
+    this.app.post('/api/cluster/leave', async (req, res) => {
+      try {
+        const address = req.body.address;
+        if (!isAddress(address)) return res.status(400).json({ error: 'Node address (host:port) is required' });
+
+        const view = await this.leaveNode(address);
+        if (!view) return res.status(404).json({ error: 'Node is not a member', view: this.membership.getView() });
+
+        res.json(view);
+      } catch (error) {
+        console.error('Error removing node:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // SSE endpoint
     this.app.get('/api/events', (req, res) => {
       res.setHeader('Content-Type', 'text/event-stream');
@@ -798,11 +1145,9 @@ export class ShoppingListServer {
 
   private async broadcastToCoordinator(event: string, data: any): Promise<void> {
     // Send update to coordinator for SSE broadcasting to all clients
-    if (this.coordinatorSocket) {
+    if (this.coordinatorChannel) {
       try {
-        const update = { type: 'BROADCAST', event, data };
-        await this.coordinatorSocket.send(JSON.stringify(update));
-        const reply = await this.recvWithTimeout(this.coordinatorSocket, 500);
+        const reply = await this.coordinatorChannel.request({ type: 'BROADCAST', event, data }, 500);
         if (!reply) {
           console.warn('⚠️ Coordinator not responding to broadcast');
         }
@@ -815,17 +1160,54 @@ export class ShoppingListServer {
   public async start(): Promise<void> {
     await this.initializeManager();
     this.isRunning = true;
+
+    // Catch up on writes missed while down before reporting ready, for at most cloudConfig.server_recovery ms
+    this.recover(Date.now() + cloudConfig.server_recovery).catch(err =>
+      console.error('Error recovering from replicas:', err)
+    );
     
-    // Start periodic hinted handoff flush (every 30 seconds)
+    // Start periodic hinted handoff flush; hints persisted before a restart are replayed too
     this.hintedHandoffInterval = setInterval(() => {
       this.flushHints().catch(err => 
         console.error('Error flushing hinted handoff:', err)
       );
-    }, 30000);
+    }, cloudConfig.hintedHandoff.flushInterval);
+
+    // Drop tombstones once every replica has had time to see the delete
+    this.tombstoneGcInterval = setInterval(() => {
+      this.tombstones.collectGarbage().catch(err =>
+        console.error('Error collecting tombstones:', err)
+      );
+    }, cloudConfig.tombstones.gcInterval);
+
+    // Periodically reconcile replicated ranges with peers using Merkle trees
+    this.antiEntropyInterval = setInterval(() => {
+      this.antiEntropy.runRound().catch(err =>
+        console.error('Error running anti-entropy:', err)
+      );
+    }, cloudConfig.server_neighbor_update);
+
+    // Exchange heartbeats so peers that stop answering are suspected within a few rounds
+    this.heartbeatInterval = setInterval(() => {
+      this.heartbeats.runRound().catch(err =>
+        console.error('Error gossiping heartbeats:', err)
+      );
+    }, cloudConfig.failureDetector.heartbeatInterval);
+
+    // Truncate the write-ahead log up to the operations already applied to storage
+    this.checkpointInterval = setInterval(() => {
+      this.listManager.checkpoint().catch(err =>
+        console.error('Error checkpointing operation log:', err)
+      );
+    }, cloudConfig.operationLog.checkpointInterval);
     
-    this.httpServer = this.app.listen(this.port, () => {
-      console.log(`Shopping List Server running on port ${this.port}`);
-    });
+    const onListening = () => console.log(`Shopping List Server ${this.address} running on ${this.bind.http ?? `port ${this.port}`}`);
+    if (this.bind.http) {
+      const { host, port } = parseAddress(this.bind.http);
+      this.httpServer = this.app.listen(port, host, onListening);
+    } else {
+      this.httpServer = this.app.listen(this.port, onListening);
+    }
   }
 
   public async stop(): Promise<void> {
@@ -837,6 +1219,31 @@ export class ShoppingListServer {
       this.hintedHandoffInterval = undefined;
     }
 
+    if (this.antiEntropyInterval) {
+      clearInterval(this.antiEntropyInterval);
+      this.antiEntropyInterval = undefined;
+    }
+
+    if (this.tombstoneGcInterval) {
+      clearInterval(this.tombstoneGcInterval);
+      this.tombstoneGcInterval = undefined;
+    }
+
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = undefined;
+    }
+
+    if (this.checkpointInterval) {
+      clearInterval(this.checkpointInterval);
+      this.checkpointInterval = undefined;
+    }
+
+    clearTimeout(this.recoveryTimer);
+    this.antiEntropy.stop();
+
+    this.rebalancer.stop();
+
     // Signal ZeroMQ listener to stop
     if (this.zmqListenerAbortController) {
       this.zmqListenerAbortController.abort();
@@ -854,13 +1261,15 @@ export class ShoppingListServer {
     }
 
     // Close ZeroMQ sockets
-    if (this.repSocket) {
-      this.repSocket.close();
+    if (this.routerSocket) {
+      this.routerSocket.close();
     }
-    for (const [_, reqSocket] of this.reqSockets) {
-      reqSocket.close();
+    for (const [_, channel] of this.peers) {
+      channel.close();
     }
-    this.reqSockets.clear();
+    this.peers.clear();
+    this.coordinatorChannel?.close();
+    this.coordinatorChannel = null;
 
     // Clear SSE clients
     for (const [client, heartbeat] of this.sseClients) {
@@ -877,71 +1286,104 @@ export class ShoppingListServer {
     await this.listManager.close();
   }
 
-  public async initMessaging(repPort: number, neighborPorts: number[], coordinatorPort?: number) {
-    if (this.repSocket) {
-      this.repSocket.close();
+  /**
+   * Binds this node's ZeroMQ socket and connects to its peers (by HTTP address)
+   * and, if given, to the coordinator's ZeroMQ address.
+   */
+  public async initMessaging(peers: NodeAddress[], coordinator?: string) {
+    if (this.routerSocket) {
+      this.routerSocket.close();
     }
     
-    this.repSocket = new Reply();
-    await this.repSocket.bind(`tcp://127.0.0.1:${repPort}`);
+    const endpoint = tcpEndpoint(this.bind.zmq ?? messagingAddress(this.address));
+    this.routerSocket = new Router();
+    await this.routerSocket.bind(endpoint);
     
     this.zmqListenerAbortController = new AbortController();
     this.listenForRequests();
 
-    for (const port of neighborPorts) {
-      const req = new Request();
-      await req.connect(`tcp://127.0.0.1:${port}`);
-      this.reqSockets.set(port, req);
+    // A view adopted before a restart wins over the peers this node was wired to,
+    // which are only the initial membership of a node that never saw a change
+    const stored = await this.store.getClusterState(MEMBERSHIP_STATE);
+    const view: MembershipView | null = stored ? JSON.parse(stored) : null;
+    const members = view ? view.members : [this.address, ...peers];
+
+    for (const peer of members) {
+      if (peer === this.address || this.peers.has(peer)) continue;
+      this.peers.set(peer, new PeerChannel(tcpEndpoint(messagingAddress(peer)), this.wire));
     }
+    for (const [peer, channel] of this.peers) {
+      if (members.includes(peer)) continue;
+      channel.close();
+      this.peers.delete(peer);
+    }
+
+    this.membership = new ClusterMembership(members, view?.version ?? 0);
+    this.membership.onChange((view, added, removed) => this.onMembershipChange(view, added, removed));
+    if (view) console.log(`👥 Node ${this.address}: resuming membership v${view.version} (${view.members.length} members)`);
     
     // Initialize quorum coordinator after sockets are connected
-    this.quorumCoordinator = new QuorumCoordinator(this.reqSockets, this.port);
+    this.quorumCoordinator = new QuorumCoordinator(this.peers, this.address, this.membership.getMembers());
+    this.quorumCoordinator.setLocalHandler(operation => this.handleRequest(operation));
+    this.quorumCoordinator.setLivenessCheck(node => this.heartbeats.detector.isAvailable(node));
     console.log(`🔐 Quorum coordinator initialized`);
+
+    // Move data placed on the ring from before a restart if the servers changed since
+    await this.rebalancer.resume(this.membership.getMembers());
     
-    // Connect to coordinator if port provided
-    if (coordinatorPort) {
-      this.coordinatorSocket = new Request();
-      await this.coordinatorSocket.connect(`tcp://127.0.0.1:${coordinatorPort}`);
-      console.log(`📨 Connected to coordinator on tcp://127.0.0.1:${coordinatorPort}`);
+    // Connect to coordinator if an address is provided
+    if (coordinator) {
+      this.coordinatorChannel?.close();
+      this.coordinatorChannel = new PeerChannel(tcpEndpoint(coordinator), this.wire);
+      console.log(`📨 Connected to coordinator on ${tcpEndpoint(coordinator)}`);
     }
     
-    console.log(`ZeroMQ REP bound to tcp://127.0.0.1:${repPort}`);
+    console.log(`ZeroMQ ROUTER bound to ${endpoint}`);
+
+    // Hand off anything left over from before a restart now that peers are reachable
+    this.flushHints().catch(err => console.error('Error flushing hinted handoff:', err));
+    this.messagingReady();
   }
 
-  private async listenForRequests() {
+  /**
+   * Recovery phase of a start or a restore: once messaging is up, reconciles
+   * every range this node replicates with the other replicas, merging what it
+   * missed, and only then reports the node ready. A node that has not caught up by the
+   * deadline becomes ready anyway and is left to the periodic anti-entropy rounds.
+   */
+  private async recover(deadline: number, startedAt = Date.now()): Promise<void> {
+    this.recovery = { state: 'recovering', startedAt, finishedAt: null, ranges: 0, synced: 0, peers: [] };
+    console.log(`🩺 Node ${this.address}: recovering, catching up from the other replicas`);
+
+    const timedOut = new Promise<boolean>(resolve => {
+      this.recoveryTimer = setTimeout(() => resolve(false), Math.max(0, deadline - Date.now()));
+    });
+    let connected = false;
     try {
-      for await (const [msg] of this.repSocket) {
-        if (!this.isRunning || this.zmqListenerAbortController?.signal.aborted) {
-          console.log('ZeroMQ listener stopping...');
-          break;
-        }
+      connected = await Promise.race([this.messaging.then(() => true), timedOut]);
+      if (connected) Object.assign(this.recovery, await this.antiEntropy.recover(deadline));
+    } finally {
+      clearTimeout(this.recoveryTimer);
+    }
+    if (!this.isRunning) return;
+
+    const { ranges, synced } = this.recovery;
+    this.recovery.state = 'ready';
+    this.recovery.finishedAt = Date.now();
+    if (!connected) {
+      console.warn(`⚠️ Node ${this.address}: messaging was not up before the recovery deadline; ready without catching up`);
+    } else if (synced === ranges) {
+      console.log(`✅ Node ${this.address}: caught up on ${ranges} ranges in ${this.recovery.finishedAt - startedAt} ms, ready`);
+    } else {
+      console.warn(`⚠️ Node ${this.address}: recovery timed out with ${ranges - synced} of ${ranges} ranges behind; ready anyway`);
+    }
+  }
 
-        try {
-          const update = JSON.parse(msg.toString());
-          const result = await this.applyUpdate(update);
-          
-          // For READ operations, return the data; for writes, send status based on apply result
-          if (update.type === 'READ') {
-            await this.repSocket.send(JSON.stringify({ status: 'ok', ...result }));
-          } else {
-            const ok = !!(result && result.ok);
-            if (ok) {
-              await this.repSocket.send(JSON.stringify({ status: 'ok' }));
-            } else {
-              await this.repSocket.send(JSON.stringify({ status: 'error' }));
-            }
-          }
-        } catch (err) {
-          const error = err as Error;
-          if (error.message.includes('Database is closed') || !this.isRunning) {
-            console.warn('Node is stopping, rejecting update');
-            await this.repSocket.send(JSON.stringify({ status: 'error', error: 'Node is down' }));
-            break;
-          }
-          console.error('Error handling neighbor request:', err);
-          await this.repSocket.send(JSON.stringify({ status: 'error', error: error.message }));
-        }
-      }
+  private async listenForRequests() {
+    const stopped = () => !this.isRunning || !!this.zmqListenerAbortController?.signal.aborted;
+    try {
+      await serveRequests(this.routerSocket, msg => this.answerRequest(msg), stopped);
+      console.log('ZeroMQ listener stopping...');
     } catch (err) {
       if (this.isRunning) {
         console.error('ZeroMQ listener error:', err);
@@ -949,42 +1391,151 @@ export class ShoppingListServer {
     }
   }
 
+  /**
+   * Decodes a request from a peer, applies it and encodes the reply in the
+   * codec the request came in.
+   */
+  private async answerRequest(msg: Buffer): Promise<Buffer> {
+    const codec = detectCodec(msg);
+    let request: Envelope | undefined;
+    try {
+      request = this.wire.decodeRequest(msg).envelope;
+      const reply = await this.handleRequest(operationOf(request));
+      return this.wire.encodeReply(reply, request, codec);
+    } catch (err) {
+      const error = err as Error;
+      if (error.message.includes('Database is closed') || !this.isRunning) {
+        console.warn('Node is stopping, rejecting update');
+        return this.wire.encodeReply({ status: 'error', error: 'Node is down' }, request, codec);
+      }
+      // Rejected messages were already logged without a stack trace
+      if (!(error instanceof ProtocolError && error.code === 'UNAUTHENTICATED')) {
+        console.error('Error handling neighbor request:', err);
+      }
+      return this.wire.encodeReply(errorReply(error), request, codec);
+    }
+  }
+
+  /**
+   * Applies a request and builds the reply sent back to the requesting node.
+   * Also used directly by the quorum coordinator when this node is one of the replicas.
+   */
+  private async handleRequest(update: any): Promise<any> {
+    // Would write the old in-memory state into the tables being replaced; senders keep a hint instead
+    if (this.replacingData && STORAGE_WRITES.has(update.type)) {
+      return { status: 'error', error: 'Node is restoring a snapshot' };
+    }
+    const result = await this.applyUpdate(update);
+
+    // For READ operations, return the data; for writes, send status based on apply result
+    if (update.type === 'READ') {
+      return { status: 'ok', ...result };
+    }
+    const { ok, ...payload } = result || { ok: false };
+    return { status: ok ? 'ok' : 'error', ...payload };
+  }
+
   /**
    * Applies incoming updates using vector clock comparison for conflict resolution.
-   * Implements "last-writer-wins" semantics with concurrent update merging.
+   * Versions that causally follow the stored one replace it; concurrent versions
+   * with different values are kept as siblings until a write resolves them.
    */
   private async applyUpdate(update: any) {
     if (!this.isRunning) {
       throw new Error('Node is not running');
     }
     switch (update.type) {
+      case 'HELLO':
+        // A peer opened a connection and asks which codec to use on it
+        return { ok: true, codec: this.wire.chooseCodec(update.codecs).name };
+
+      case 'TRAFFIC_STATS':
+        return { ok: true, traffic: this.wire.getStats() };
+
+      case 'HEARTBEAT':
+        return this.heartbeats.handleMessage(update);
+
+      case 'LIVENESS':
+        return { ok: true, members: this.livenessReport() };
+
       case 'READ': {
         // Handle quorum read requests from other nodes
         const { key, dataType } = update;
-        let data = null;
+        let data: any = null;
         
         if (dataType === 'list') {
-          data = await this.listManager.getList(key);
+          const list = await this.listManager.getList(key);
+          data = list && { ...list, items: list.items.map(item => this.replicated(item)) };
         } else if (dataType === 'item') {
-          data = await this.listManager.getItem(key);
+          const item = await this.listManager.getItem(key);
+          data = item && this.replicated(item);
         }
-        
-        return { data };
+
+        // A deleted key answers with its tombstone so the coordinator can tell it from a missing one
+        const tombstone = data ? null : await this.tombstones.get(dataType, key);
+        // List siblings differ only in the list's own fields, so they share its items
+        const siblings = data
+          ? (await this.siblings.get(dataType, key)).map(s => (dataType === 'list' ? { ...s, items: data.items } : s))
+          : [];
+        return { data, siblings, tombstone };
+      }
+      case 'READ_REPAIR': {
+        // A coordinator found this replica stale during a quorum read
+        if (update.dataType === 'list') {
+          const { items = [], ...list } = update.data;
+          await this.applyUpdate({ type: 'CREATE_LIST', list });
+          for (const item of items) {
+            await this.applyUpdate({ type: 'UPDATE_ITEM', item });
+          }
+        } else {
+          await this.applyUpdate({ type: 'UPDATE_ITEM', item: update.data });
+        }
+        console.log(`🩹 Node ${this.port} repaired ${update.dataType} ${update.data.id}`);
+        return { ok: true };
+      }
+      case 'MERKLE_ROOTS':
+      case 'MERKLE_LEAVES':
+      case 'ANTI_ENTROPY_PULL':
+      case 'ANTI_ENTROPY_PUSH':
+        return this.antiEntropy.handleMessage(update);
+      case 'REBALANCE_PLAN':
+      case 'REBALANCE_BATCH':
+      case 'REBALANCE_DONE':
+        return this.rebalancer.handleMessage(update);
+      case 'HINTED_WRITE': {
+        // Sloppy quorum: accept a write for an unreachable replica and keep a hint to hand it back
+        if (!HINTABLE_UPDATES.has(update.operation?.type)) {
+          return { ok: false };
+        }
+        const result = await this.applyUpdate(update.operation);
+        if (!result?.ok) return { ok: false };
+
+        await this.hintedHandoff.add(update.hintFor, update.operation);
+        console.log(`🔀 Node ${this.port} holding ${update.operation.type} for node ${update.hintFor}`);
+        return { ok: true };
+      }
+      case 'MEMBERSHIP_UPDATE': {
+        if (update.previous) this.rebalancer.announce({ from: update.previous, to: update.view.members });
+        await this.membership.applyView(update.view);
+        return { ok: true };
       }
       case 'CREATE_LIST': {
+        if (await this.tombstones.shadows('list', update.list.id, update.list.vectorClock)) {
+          console.log(`🪦 Ignoring write to deleted list ${update.list.id}`);
+          return { ok: true };
+        }
+
         const existing = await this.listManager.getList(update.list.id);
         if (!existing) {
           await this.listManager.createList(update.list.name, update.list.id, update.list.vectorClock, update.list.createdAt, update.list.lastUpdated);
         } else {
-          const existingVC = new VectorClock();
-          existingVC.fromString(JSON.stringify(existing.vectorClock));
-
-          const updateVC = new VectorClock();
-          updateVC.fromString(JSON.stringify(update.list.vectorClock));
-
-          const winner = existingVC.compare(updateVC); // 'before', 'after', 'concurrent', 'equal'
-          if (winner === 'after' || winner === 'concurrent') {
-            await this.listManager.updateList(update.list);
+          const { items, ...incoming } = update.list;
+          const outcome = await this.siblings.reconcile('list', existing, incoming);
+          if (outcome.action === 'apply') {
+            await this.listManager.updateList({ ...outcome.version, vectorClock: toClock(outcome.version.vectorClock) });
+          } else if (outcome.action === 'sibling') {
+            await this.listManager.recordWrites('keepSibling', toClock(incoming.vectorClock), [outcome.write]);
+            console.log(`🌿 Node ${this.port} keeping concurrent version of list ${update.list.id}`);
           }
         }
         return { ok: true };
@@ -995,152 +1546,510 @@ export class ShoppingListServer {
       case 'UPDATE_QUANTITY':
       case 'UPDATE_NAME': {
         const itemId = update.item.id;
+        if (
+          await this.tombstones.get('list', update.item.listId) ||
+          await this.tombstones.shadows('item', itemId, update.item.vectorClock)
+        ) {
+          console.log(`🪦 Ignoring write to deleted item ${itemId}`);
+          return { ok: true };
+        }
+
         const existing = await this.listManager.getItem(itemId);
         if (!existing) {
-          // Ensure the parent list exists locally; if not, try to fetch via quorum and create it.
-          const localList = await this.listManager.getList(update.item.listId);
-          if (!localList && this.quorumCoordinator) {
-            try {
-              const fetchedList = await this.quorumCoordinator.quorumRead(update.item.listId, 'list');
-              if (fetchedList) {
-                await this.listManager.createList(
-                  fetchedList.name,
-                  fetchedList.id,
-                  typeof fetchedList.vectorClock === 'string' ? JSON.parse(fetchedList.vectorClock) : fetchedList.vectorClock,
-                  fetchedList.createdAt,
-                  fetchedList.lastUpdated
-                );
-              }
-            } catch {}
+          await this.ensureLocalList(update.item.listId);
+        }
+
+        if (update.deltas) {
+          // Only the origin's deltas since this replica's last ack; a gap needs the full state
+          if (!existing || !this.deltaSync.canApply(update.deltas, itemId)) {
+            return { ok: false, needsState: true };
+          }
+          if (!(await this.listManager.mergeItemDeltas(update.item, update.deltas.deltas))) {
+            return { ok: false, needsState: true };
           }
+          this.deltaSync.markApplied(update.deltas.origin, itemId, update.deltas.to);
+          await this.siblings.resolve('item', itemId, update.item.vectorClock);
+          return { ok: true, ack: update.deltas.to };
+        }
 
+        if (update.item.crdt) {
+          // CRDT state merges commutatively, so concurrent versions converge instead of becoming siblings
+          const merged = await this.listManager.mergeItemState(update.item);
+          if (!merged) return { ok: false };
+
+          await this.siblings.resolve('item', itemId, merged.vectorClock);
+          if (!update.stamp) return { ok: true };
+          this.deltaSync.markApplied(update.stamp.origin, itemId, update.stamp.seq);
+          return { ok: true, ack: update.stamp.seq };
+        }
+
+        if (!existing) {
           const added = await this.listManager.addItemToList(update.item.listId, update.item);
           return { ok: !!added };
-        } else {
-          const existingVC = new VectorClock();
-          existingVC.fromString(JSON.stringify(existing.vectorClock));
-
-          const updateVC = new VectorClock();
-          updateVC.fromString(JSON.stringify(update.item.vectorClock));
+        }
 
-          const winner = existingVC.compare(updateVC);
-          if (winner === 'after' || winner === 'concurrent') {
-            await this.listManager.updateItem(itemId, update.item);
-          }
-          return { ok: true };
+        const outcome = await this.siblings.reconcile('item', existing, update.item);
+        if (outcome.action === 'apply') {
+          await this.listManager.applyRemoteItem(outcome.version);
+        } else if (outcome.action === 'sibling') {
+          await this.listManager.recordWrites('keepSibling', toClock(update.item.vectorClock), [outcome.write]);
+          console.log(`🌿 Node ${this.port} keeping concurrent version of item ${itemId}`);
         }
+        return { ok: true };
       }
       case 'REMOVE_ITEM': {
-        await this.listManager.removeItemFromList(update.itemId);
+        await this.applyDeletion(update.tombstone ?? await this.localTombstone('item', update.itemId));
         return { ok: true };
       }
       case 'DELETE_LIST': {
-        await this.listManager.deleteList(update.listId);
+        await this.applyDeletion(update.tombstone ?? await this.localTombstone('list', update.listId));
         return { ok: true };
       }
     }
   }
 
   /**
-   * Propagates updates to neighbor nodes and coordinator.
-   * Failed sends are queued in hintedHandOffQueue for later retry.
+   * Ensures the parent list of an incoming item exists locally; if not, tries to fetch it via quorum and create it.
    */
-  public async sendUpdateToNeighbors(update: any) {
-    // Send to coordinator for SSE broadcasting
-    if (this.coordinatorSocket) {
-      this.sendToCoordinator(update).catch(err => 
-        console.error('Failed to send update to coordinator:', err)
-      );
+  private async ensureLocalList(listId: string): Promise<void> {
+    const localList = await this.listManager.getList(listId);
+    if (localList || !this.quorumCoordinator) return;
+
+    try {
+      const fetchedList = await this.quorumCoordinator.quorumRead(listId, 'list');
+      if (fetchedList) {
+        await this.listManager.createList(
+          fetchedList.name,
+          fetchedList.id,
+          typeof fetchedList.vectorClock === 'string' ? JSON.parse(fetchedList.vectorClock) : fetchedList.vectorClock,
+          fetchedList.createdAt,
+          fetchedList.lastUpdated
+        );
+      }
+    } catch {}
+  }
+
+  /**
+   * Applies one batched client change by the rules of the single-field endpoints:
+   * an older change is ignored, a concurrent one keeps the larger counts and the
+   * more recent name. Returns why the change failed, or null once it is written.
+   */
+  private async applyClientChange(
+    change: ItemChange,
+    consistency: ConsistencyLevel | undefined,
+    causalContext: Clock | null
+  ): Promise<{ status: number; error: string } | null> {
+    let crdtItem = this.listManager.getCRDTItem(change.itemId);
+    if (!crdtItem && this.quorumCoordinator && await this.bootstrapFromReplicas(change.itemId, consistency)) {
+      crdtItem = this.listManager.getCRDTItem(change.itemId);
     }
-    
-    // Send to neighbor storage nodes for replication
-    for (const [port, reqSocket] of this.reqSockets) {
+    if (!crdtItem) return { status: 404, error: 'Item not found' };
+
+    const fields = { ...change.fields };
+    const clientClock = toClock(change.vectorClock);
+    const comparison = VectorClock.compare(clientClock, crdtItem.vectorClock);
+
+    if (comparison === 'before') {
+      console.log(`⏭️ Ignoring older change to item ${change.itemId}`);
+      return null;
+    }
+    if (comparison === 'concurrent') {
+      if (fields.quantity !== undefined) fields.quantity = Math.max(crdtItem.quantity.value(), fields.quantity);
+      if (fields.acquired !== undefined) fields.acquired = Math.max(crdtItem.acquired.value(), fields.acquired);
+      if (fields.name !== undefined && (change.lastUpdated || 0) < (crdtItem.lastUpdated || 0)) delete fields.name;
+      crdtItem.vectorClock = mergeClocks([crdtItem.vectorClock, clientClock]);
+    } else {
+      crdtItem.vectorClock = clientClock;
+    }
+    if (change.lastUpdated) crdtItem.lastUpdated = Math.max(crdtItem.lastUpdated, change.lastUpdated);
+
+    const updated = await this.listManager.updateItem(change.itemId, fields);
+    if (!updated) return { status: 404, error: 'Item not found' };
+    const item = await this.resolveSiblings('item', updated, causalContext);
+
+    if (this.quorumCoordinator) {
+      const quorumResult = await this.quorumCoordinator.quorumWriteTo(change.itemId, this.itemWrite('UPDATE_ITEM', item), consistency);
+      if (!quorumResult.success) {
+        console.error(`❌ Quorum write failed for client change to item ${change.itemId}`);
+        return { status: 503, error: 'Write quorum not met' };
+      }
+    } else {
+      await this.sendUpdateToNeighbors({ type: 'UPDATE_ITEM', item: this.replicated(item) }).catch(err => console.error(err));
+    }
+
+    this.broadcastUpdate('item-updated', item);
+    return null;
+  }
+
+  /**
+   * Reads an item this node does not hold from the replicas and adds it, with
+   * its list if that is missing too, so a client write to it can be applied
+   * here. Returns false if no replica has the item.
+   */
+  private async bootstrapFromReplicas(itemId: string, consistency: ConsistencyLevel | undefined): Promise<boolean> {
+    const itemData = await this.quorumCoordinator!.quorumRead(itemId, 'item', consistency);
+    if (!itemData) return false;
+
+    const list = await this.listManager.getList(itemData.listId);
+    if (!list) {
+      // Need to bootstrap the list too
+      const listData = await this.quorumCoordinator!.quorumRead(itemData.listId, 'list', consistency);
+      if (listData) {
+        await this.listManager.createList(
+          listData.name,
+          listData.id,
+          listData.vectorClock,
+          listData.createdAt,
+          listData.lastUpdated
+        );
+      }
+    }
+
+    await this.bootstrapItem(itemData);
+    console.log(`✅ Bootstrapped item ${itemData.name} from replicas`);
+    return true;
+  }
+
+  /**
+   * Adds an item read from the replicas to the local store. Its CRDT state is
+   * merged as-is so the replicas' counter contributions are not counted twice.
+   */
+  private async bootstrapItem(itemData: any): Promise<void> {
+    if (itemData.crdt) {
+      await this.listManager.mergeItemState(itemData);
+      return;
+    }
+    await this.listManager.addItemToList(itemData.listId, {
+      name: itemData.name,
+      quantity: itemData.quantity,
+      acquired: itemData.acquired,
+      id: itemData.id,
+      vectorClock: itemData.vectorClock,
+      createdAt: itemData.createdAt,
+      lastUpdated: itemData.lastUpdated
+    });
+  }
+
+  /**
+   * Deletes a list or item and records its tombstone, unless the local copy is
+   * strictly newer than the tombstone. Deleting a list also tombstones its items
+   * so that late item writes cannot bring them back.
+   */
+  private async applyDeletion(tombstone: Tombstone): Promise<boolean> {
+    if (tombstone.kind === 'list') {
+      const list = await this.listManager.getList(tombstone.id);
+      if (list && VectorClock.compare(list.vectorClock, tombstone.vectorClock) === 'after') {
+        console.log(`🪦 Keeping list ${tombstone.id}: local version is newer than the delete`);
+        return false;
+      }
+
+      // Tombstones, the delete and dropping the siblings are logged as one operation
+      const writes: StorageWrite[] = [{ type: 'saveTombstone', tombstone: await this.tombstones.merge(tombstone) }];
+      for (const item of list?.items ?? []) {
+        const itemTombstone = TombstoneRegistry.create('item', item.id, item.vectorClock, this.nodeId, item.listId);
+        writes.push({ type: 'saveTombstone', tombstone: await this.tombstones.merge(itemTombstone) });
+        this.deltaSync.forget(item.id);
+      }
+      writes.push({ type: 'deleteSiblings', kind: 'list', id: tombstone.id });
+      if (list) await this.listManager.deleteList(tombstone.id, writes);
+      else await this.listManager.recordWrites('deleteList', toClock(tombstone.vectorClock), writes);
+    } else {
+      const item = await this.listManager.getItem(tombstone.id);
+      if (item && VectorClock.compare(item.vectorClock, tombstone.vectorClock) === 'after') {
+        console.log(`🪦 Keeping item ${tombstone.id}: local version is newer than the delete`);
+        return false;
+      }
+
+      const writes: StorageWrite[] = [
+        { type: 'saveTombstone', tombstone: await this.tombstones.merge(tombstone) },
+        { type: 'deleteSiblings', kind: 'item', id: tombstone.id }
+      ];
+      if (item) await this.listManager.removeItemFromList(tombstone.id, writes);
+      else await this.listManager.recordWrites('removeItem', toClock(tombstone.vectorClock), writes);
+      this.deltaSync.forget(tombstone.id);
+    }
+    return true;
+  }
+
+  /**
+   * Tombstone for a delete that arrived without one, built from the local copy.
+   */
+  private async localTombstone(kind: 'list' | 'item', id: string): Promise<Tombstone> {
+    const current = kind === 'list' ? await this.listManager.getList(id) : await this.listManager.getItem(id);
+    const listId = current && 'listId' in current ? current.listId : undefined;
+    return TombstoneRegistry.create(kind, id, current?.vectorClock ?? {}, this.nodeId, listId);
+  }
+
+  /**
+   * Lists, items and tombstones in one ring range, read with the store's range scan.
+   */
+  private async loadAntiEntropyEntries(range: RingRange): Promise<AntiEntropyEntry[]> {
+    const { lists, items, tombstones } = await this.store.scanRange(range);
+    return [
+      ...lists.map(list => ({ kind: 'list' as const, id: list.id, data: list })),
+      ...items.map(item => ({ kind: 'item' as const, id: item.id, data: this.replicated(item) })),
+      ...tombstones.map(tombstone => ({ kind: tombstone.kind, id: tombstone.id, data: { ...tombstone, deleted: true } }))
+    ];
+  }
+
+  /**
+   * Merges a list or item received from a peer through the regular replication path.
+   */
+  private async applyAntiEntropyEntry(entry: AntiEntropyEntry): Promise<void> {
+    if (entry.data.deleted) {
+      const { deleted, ...tombstone } = entry.data;
+      await this.applyDeletion(tombstone);
+    } else if (entry.kind === 'list') {
+      await this.applyUpdate({ type: 'CREATE_LIST', list: entry.data });
+    } else {
+      await this.applyUpdate({ type: 'UPDATE_ITEM', item: entry.data });
+    }
+  }
+
+  /**
+   * Adds a node to the cluster and announces the new view to every member.
+   * Returns null if the node is already a member.
+   */
+  public async joinNode(node: NodeAddress): Promise<MembershipView | null> {
+    const view = this.membership.withJoined(node);
+    if (!view) return null;
+
+    // Apply locally first so a socket to the newcomer exists before announcing
+    const previous = this.membership.getMembers();
+    await this.membership.applyView(view);
+    await this.announceMembership(view, view.members, previous);
+    return view;
+  }
+
+  /**
+   * Removes a node from the cluster and announces the new view to every member,
+   * including the departing node so it stops serving as a replica.
+   */
+  public async leaveNode(node: NodeAddress): Promise<MembershipView | null> {
+    const view = this.membership.withLeft(node);
+    if (!view) return null;
+
+    // Announce while the socket to the departing node is still open
+    await this.announceMembership(view, this.membership.getMembers(), this.membership.getMembers());
+    await this.membership.applyView(view);
+    return view;
+  }
+
+  public getMembership(): MembershipView {
+    return this.membership.getView();
+  }
+
+  /**
+   * This node's view of every member's liveness; it always considers itself up.
+   */
+  public livenessReport(): LivenessReport[] {
+    const now = Date.now();
+    return this.membership.getMembers().map(node => node === this.address
+      ? { node, status: 'up', phi: 0, lastHeartbeat: now }
+      : this.heartbeats.detector.report(node, now)
+    );
+  }
+
+  /**
+   * Sends a new view to members. `previous` lets nodes new to the ring rebalance
+   * from the ring the existing members move data off.
+   */
+  private async announceMembership(view: MembershipView, targets: NodeAddress[], previous: NodeAddress[]): Promise<void> {
+    const update = { type: 'MEMBERSHIP_UPDATE', view, previous };
+
+    await Promise.all(
+      targets
+        .filter(node => node !== this.address)
+        .map(async node => {
+          const channel = this.peers.get(node);
+          if (!channel) return;
+
+          const ok = await this.sendLazyPirate(channel, update);
+          if (!ok) {
+            console.warn(`⚠️ Node ${node} did not acknowledge membership v${view.version}`);
+          }
+        })
+    );
+
+    this.sendToCoordinator(update).catch(err =>
+      console.error('Failed to send membership to coordinator:', err)
+    );
+  }
+
+  /**
+   * Persists a new membership view and reconciles peer sockets and quorum
+   * preference lists with it.
+   */
+  private async onMembershipChange(view: MembershipView, added: NodeAddress[], removed: NodeAddress[]): Promise<void> {
+    await this.store.saveClusterState(MEMBERSHIP_STATE, JSON.stringify(view));
+
+    for (const node of added) {
+      if (node === this.address || this.peers.has(node)) continue;
+      this.peers.set(node, new PeerChannel(tcpEndpoint(messagingAddress(node)), this.wire));
+      console.log(`➕ Node ${this.address}: connected to new member ${node}`);
+    }
+
+    for (const node of removed) {
+      const channel = this.peers.get(node);
+      if (channel) {
+        channel.close();
+        this.peers.delete(node);
+      }
+      await this.hintedHandoff.dropTarget(node);
+      this.heartbeats.forget(node);
+      console.log(`➖ Node ${this.address}: disconnected from departed member ${node}`);
+    }
+
+    this.quorumCoordinator?.setNodes(view.members);
+    this.rebalancer.moveTo(view.members);
+
+    if (!view.members.includes(this.address)) {
+      console.warn(`⚠️ Node ${this.address} is no longer a cluster member (v${view.version})`);
+    }
+  }
+
+  /**
+   * Propagates updates to neighbor nodes. Clients are notified separately through
+   * broadcastUpdate. Failed sends are stored as durable hints for the intended
+   * replica and retried later.
+   */
+  public async sendUpdateToNeighbors(update: any) {
+    for (const [node, channel] of this.peers) {
       (async () => {
-        const endpoint = `tcp://127.0.0.1:${port}`;
-        const ok = await this.sendLazyPirate(reqSocket, update, endpoint);
+        // A peer known to be down gets the update as a hint without waiting for retries to time out
+        const ok = this.heartbeats.detector.isAvailable(node) && await this.sendLazyPirate(channel, update);
 
         if (!ok) {
-          if (!this.hintedHandOffQueue.has(port)) {
-            this.hintedHandOffQueue.set(port, []);
-          }
-          this.hintedHandOffQueue.get(port)!.push(update);
+          await this.hintedHandoff.add(node, update);
         }
-      })();
+      })().catch(err => console.error('Error storing hint:', err));
     }
   }
 
+  /**
+   * Takes a point-in-time snapshot of this node's data, CRDT metadata and hints.
+   */
+  public async snapshot(): Promise<SnapshotManifest> {
+    if (this.restoring) throw new SnapshotError('A restore is in progress', 'BUSY');
+    return createSnapshot(this.store, { nodeId: this.nodeId, node: this.address });
+  }
 
+  /**
+   * Replaces this node's data with one of its snapshots, then catches up on the
+   * writes made since from the other replicas, the same way as after a start.
+   * The node reports `RECOVERING` and refuses writes until then: its vector
+   * clocks are behind its replicas', so a write here could lose to state they hold.
+   * Writes from peers are refused only until memory is reloaded from the restored
+   * tables; from then on they merge like any other.
+   */
+  public async restore(id: string): Promise<SnapshotManifest> {
+    if (this.restoring) throw new SnapshotError('A restore is already in progress', 'BUSY');
+
+    const previous = this.recovery;
+    const startedAt = Date.now();
+    this.restoring = true;
+    this.replacingData = true;
+    this.recovery = { state: 'recovering', startedAt, finishedAt: null, ranges: 0, synced: 0, peers: [] };
+    try {
+      let manifest: SnapshotManifest;
+      try {
+        manifest = await restoreSnapshot(this.store, id, this.nodeId);
+      } catch (error) {
+        this.recovery = previous; // Nothing was replaced
+        throw error;
+      }
+      await this.listManager.reload();
+      this.replacingData = false;
+      // Peers acknowledged deltas of state this node no longer holds; start over like after a restart
+      this.deltaSync = new DeltaSync(this.nodeId);
+
+      await this.recover(Date.now() + cloudConfig.server_recovery, startedAt);
+      this.flushHints().catch(err => console.error('Error flushing hinted handoff:', err));
+      return manifest;
+    } finally {
+      this.restoring = false;
+      this.replacingData = false;
+    }
+  }
 
+  private sendSnapshotError(res: express.Response, error: unknown, context: string): void {
+    if (error instanceof SnapshotError) {
+      const status = { NOT_FOUND: 404, WRONG_NODE: 400, INCOMPATIBLE: 409, BUSY: 409, UNSUPPORTED: 400 }[error.code];
+      res.status(status).json({ error: error.message });
+      return;
+    }
+    console.error(context, error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+
+  /**
+   * Replays stored hints to their intended replicas in order, stopping at the
+   * first failure per target. Expired hints are discarded first.
+   */
   public async flushHints() {
-    for (const [port, queue] of this.hintedHandOffQueue) {
-      let reqSocket = this.reqSockets.get(port);
-      if (!reqSocket) continue;
+    if (!this.isRunning) return;
+    await this.hintedHandoff.expire();
 
-      const endpoint = `tcp://127.0.0.1:${port}`;
+    for (const { target } of await this.hintedHandoff.backlog()) {
+      if (!this.heartbeats.detector.isAvailable(target)) continue;
 
-      for (const update of [...queue]) {
-        const ok = await this.sendLazyPirate(reqSocket, update, endpoint);
+      for (const hint of await this.hintedHandoff.pending(target, 100)) {
+        // The target may leave the cluster meanwhile, so look its channel up for every hint
+        const channel = this.peers.get(target);
+        if (!channel) break;
 
-        if (ok) {
-          queue.shift();
-        } else {
-          break;
-        }
+        const ok = await this.sendLazyPirate(channel, hint.payload);
+        if (!ok) break;
+
+        await this.hintedHandoff.acknowledge(hint);
       }
     }
   }
 
+  /**
+   * Lazy Pirate: resends a request that timed out, up to `retries` times. A lost
+   * reply does not break a DEALER channel, so the socket is kept across retries.
+   */
   private async sendLazyPirate(
-    reqSocket: Request,
+    channel: PeerChannel,
     update: any,
-    endpoint: string,
     retries: number = 3,
     timeoutMs: number = 500
   ): Promise<boolean> {
-    let attempt = 0;
+    const endpoint = channel.endpoint;
 
-    while (attempt < retries) {
+    for (let attempt = 1; attempt <= retries; attempt++) {
       try {
-        await reqSocket.send(JSON.stringify(update));
+        const reply = await channel.request(update, timeoutMs);
 
-        const reply = await this.recvWithTimeout(reqSocket, timeoutMs);
-
-        if (reply !== null) {
-          try {
-            const parsed = JSON.parse(reply.toString());
-            if (parsed && parsed.status === 'ok') {
-              return true; // Success
-            }
-            console.warn(`⚠ Non-ok reply from ${endpoint}:`, parsed);
-          } catch (err) {
-            console.warn(`⚠ Failed to parse reply from ${endpoint}:`, err);
-          }
-          attempt++;
+        if (!reply) {
+          console.warn(`⚠ Timeout contacting ${endpoint}, attempt ${attempt}`);
           continue;
         }
-
-        console.warn(`⚠ Timeout contacting ${endpoint}, attempt ${attempt + 1}`);
-
-        // Required by Lazy Pirate: tear down socket
-        reqSocket.close();
-
-        const newSock = new Request();
-        await newSock.connect(endpoint);
-
-        // Update map reference
-        for (const [port, sock] of this.reqSockets) {
-          if (sock === reqSocket) {
-            this.reqSockets.set(port, newSock);
-            break;
-          }
+        if (reply.status === 'ok') {
+          return true; // Success
         }
-
-        reqSocket = newSock;
-        attempt++;
-
+        if (reply.code === 'UNSUPPORTED_VERSION') {
+          // Resending cannot help until one side is upgraded
+          console.error(`❌ ${endpoint} rejected protocol v${PROTOCOL_VERSION}: ${reply.error}`);
+          return false;
+        }
+        if (reply.code === 'UNAUTHENTICATED') {
+          // Nor until both sides share the cluster secret
+          console.error(`❌ ${endpoint} did not accept our signature: ${reply.error}`);
+          return false;
+        }
+        console.warn(`⚠ Non-ok reply from ${endpoint}:`, reply);
       } catch (err) {
-        console.error("Lazy Pirate error:", err);
-        attempt++;
+        if (err instanceof ProtocolError && err.code === 'UNSUPPORTED_VERSION') {
+          console.error(`❌ ${endpoint} replied with an unsupported protocol version: ${err.message}`);
+          return false;
+        }
+        if (err instanceof ProtocolError && err.code === 'UNAUTHENTICATED') {
+          console.error(`❌ ${endpoint} sent a reply that failed authentication: ${err.message}`);
+          return false;
+        }
+        console.warn(`⚠ Failed to parse reply from ${endpoint}:`, err);
       }
     }
 
@@ -1152,12 +2061,11 @@ export class ShoppingListServer {
    * Send update to coordinator for SSE broadcasting
    */
   private async sendToCoordinator(update: any): Promise<void> {
-    if (!this.coordinatorSocket) return;
+    if (!this.coordinatorChannel) return;
 
     try {
-      await this.coordinatorSocket.send(JSON.stringify(update));
-      const reply = await this.recvWithTimeout(this.coordinatorSocket, 500);
-      
+      const reply = await this.coordinatorChannel.request(update, 500);
+
       if (!reply) {
         console.warn('⚠️ Coordinator not responding');
       }
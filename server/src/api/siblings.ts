@@ -0,0 +1,94 @@
+import { StorageEngine } from '../storage/StorageEngine';
+import { StorageWrite } from '../shared/types';
+import { VectorClock } from '../crdt/VectorClock';
+import { Clock, clockKey, mergeClocks, sameContent, toClock } from './versions';
+
+/**
+ * How a replica should treat an incoming version of a key it already holds.
+ * - ignore: the version is already covered by what the replica holds
+ * - apply: store `version` as the current value
+ * - sibling: the version is concurrent with the current value; `write` keeps it next to it
+ */
+export type Reconciliation =
+  | { action: 'ignore' }
+  | { action: 'apply'; version: any }
+  | { action: 'sibling'; write: StorageWrite };
+
+/**
+ * Concurrent versions of lists and items that a replica keeps alongside the
+ * stored value, backed by the node's storage engine. Siblings are returned by
+ * reads and dropped once a write whose clock dominates them arrives, so the
+ * conflict is resolved by a reader instead of by wall-clock timestamps.
+ */
+export class SiblingRegistry {
+  private store: StorageEngine;
+
+  constructor(store: StorageEngine) {
+    this.store = store;
+  }
+
+  async get(kind: 'list' | 'item', id: string): Promise<any[]> {
+    const rows = await this.store.getSiblings(kind, id);
+    return rows.map(row => row.data);
+  }
+
+  /**
+   * Drops the siblings a version with the given clock causally descends from.
+   * Returns how many were resolved.
+   */
+  async resolve(kind: 'list' | 'item', id: string, vectorClock: Clock | string): Promise<number> {
+    const clock = toClock(vectorClock);
+    let resolved = 0;
+    for (const sibling of await this.store.getSiblings(kind, id)) {
+      const comparison = VectorClock.compare(toClock(sibling.data.vectorClock), clock);
+      if (comparison === 'before' || comparison === 'equal') {
+        await this.store.deleteSibling(kind, id, sibling.clock);
+        resolved++;
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Decides how to apply an incoming version against the current value and the
+   * siblings already held. Siblings the incoming version supersedes are dropped.
+   */
+  async reconcile(kind: 'list' | 'item', current: any, incoming: any): Promise<Reconciliation> {
+    const incomingClock = toClock(incoming.vectorClock);
+    const siblings = await this.store.getSiblings(kind, current.id);
+
+    for (const version of [current, ...siblings.map(s => s.data)]) {
+      const comparison = VectorClock.compare(toClock(version.vectorClock), incomingClock);
+      if (comparison === 'after' || comparison === 'equal') {
+        return { action: 'ignore' };
+      }
+    }
+
+    await this.resolve(kind, current.id, incomingClock);
+
+    if (VectorClock.compare(toClock(current.vectorClock), incomingClock) === 'before') {
+      return { action: 'apply', version: incoming };
+    }
+
+    // Concurrent but equal in value: nothing to resolve, just merge the clocks
+    if (sameContent(kind, current, incoming)) {
+      return {
+        action: 'apply',
+        version: {
+          ...incoming,
+          vectorClock: mergeClocks([current.vectorClock, incomingClock]),
+          lastUpdated: Math.max(current.lastUpdated || 0, incoming.lastUpdated || 0)
+        }
+      };
+    }
+
+    return { action: 'sibling', write: this.siblingWrite(kind, current.id, incoming) };
+  }
+
+  private siblingWrite(kind: 'list' | 'item', id: string, version: any): StorageWrite {
+    // List siblings carry only the list's own fields; items are separate keys
+    const { items, ...data } = version;
+    const vectorClock: Clock = toClock(data.vectorClock);
+    return { type: 'saveSibling', kind, id, clock: clockKey(vectorClock), data: { ...data, vectorClock } };
+  }
+}
@@ -0,0 +1,81 @@
+import { createStorageEngine, engineFor, parseEngine } from '../storage/engines';
+import { listSnapshots, readSnapshot, restoreSnapshot, SnapshotError, SnapshotManifest } from '../storage/snapshots';
+import { option } from './launchOptions';
+
+/**
+ * Takes and restores snapshots of storage nodes. A running node is addressed by
+ * --node (SNAPSHOT_NODE) and does the work itself; a stopped one by --id (NODE_ID)
+ * and has its database restored in place; its storage engine is the one configured
+ * for the address it was snapshotted at, unless --engine (NODE_ENGINE) names it.
+ *
+ *   npm run snapshot -- create --node 127.0.0.1:5000
+ *   npm run snapshot -- list --node 127.0.0.1:5000      (or --id 5000)
+ *   npm run snapshot -- restore <snapshot> --node 127.0.0.1:5000
+ *   npm run snapshot -- restore <snapshot> --id 5000    (node stopped; it catches up once started)
+ */
+
+async function request(node: string, method: string, route: string): Promise<any> {
+  const response = await fetch(`http://${node}${route}`, { method });
+  const body = await response.json() as any;
+  if (!response.ok) throw new Error(body.error ?? `Node ${node} answered with status ${response.status}`);
+  return body;
+}
+
+function describe(manifest: SnapshotManifest): string {
+  const rows = Object.entries(manifest.rows).map(([table, count]) => `${table}=${count}`).join(' ');
+  return `${manifest.id}  ${new Date(manifest.createdAt).toISOString()}  schema v${manifest.schemaVersion}  ${rows}`;
+}
+
+async function main(argv: string[] = process.argv.slice(2)): Promise<void> {
+  const [command, snapshotId] = argv;
+  const node = option('node', 'SNAPSHOT_NODE', argv);
+  const nodeId = option('id', 'NODE_ID', argv);
+  const engine = option('engine', 'NODE_ENGINE', argv);
+
+  switch (command) {
+    case 'create': {
+      if (!node) throw new Error('Set the running node to snapshot with --node host:port');
+      console.log(`📸 ${describe(await request(node, 'POST', '/api/admin/snapshots'))}`);
+      return;
+    }
+    case 'list': {
+      const snapshots: SnapshotManifest[] = node
+        ? await request(node, 'GET', '/api/admin/snapshots')
+        : listSnapshots(undefined, nodeId);
+      snapshots.forEach(manifest => console.log(describe(manifest)));
+      if (snapshots.length === 0) console.log('No snapshots');
+      return;
+    }
+    case 'restore': {
+      if (!snapshotId || snapshotId.startsWith('--')) throw new Error('Name the snapshot to restore');
+      if (node) {
+        await request(node, 'POST', `/api/admin/snapshots/${encodeURIComponent(snapshotId)}/restore`);
+        console.log(`♻️ Node ${node} restored ${snapshotId} and is catching up from its replicas`);
+      } else if (nodeId) {
+        const source = readSnapshot(snapshotId);
+        const kind = engine === undefined ? engineFor(source.node) : parseEngine(engine);
+        // Checked before opening the node's storage, which would create a data file for another engine
+        if (kind !== 'sqlite') {
+          throw new SnapshotError(`Node ${nodeId} uses the ${kind} storage engine; snapshots need sqlite`, 'UNSUPPORTED');
+        }
+        const store = createStorageEngine(kind, nodeId);
+        try {
+          await restoreSnapshot(store, snapshotId, nodeId);
+        } finally {
+          store.close();
+        }
+        console.log(`♻️ Restored ${snapshotId}; start node ${nodeId} with --peers to rejoin and catch up`);
+      } else {
+        throw new Error('Set --node host:port for a running node or --id for a stopped one');
+      }
+      return;
+    }
+    default:
+      throw new Error('Usage: snapshot create|list|restore <snapshot> (--node host:port | --id nodeId)');
+  }
+}
+
+main().catch(err => {
+  console.error('❌', err.message ?? err);
+  process.exit(1);
+});
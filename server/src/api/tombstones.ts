@@ -0,0 +1,99 @@
+import { StorageEngine } from '../storage/StorageEngine';
+import { Tombstone } from '../shared/types';
+import { VectorClock } from '../crdt/VectorClock';
+import { Clock, toClock } from './versions';
+import cloudConfig from './cloudConfig.json';
+
+interface TombstoneRegistryOptions {
+  gcGracePeriod?: number;
+}
+
+/**
+ * Durable record of deleted lists and items, backed by the node's storage engine.
+ * A tombstone shadows every version of the key that does not causally descend
+ * from it, so replicas that missed a delete cannot bring the data back. Tombstones
+ * are garbage collected once the grace period has passed; it must outlive the
+ * hint TTL so that no delayed write can still arrive for a collected key.
+ */
+export class TombstoneRegistry {
+  private store: StorageEngine;
+  private gcGracePeriod: number;
+
+  constructor(store: StorageEngine, options: TombstoneRegistryOptions = {}) {
+    this.store = store;
+    this.gcGracePeriod = options.gcGracePeriod ?? cloudConfig.tombstones.gcGracePeriod;
+  }
+
+  /**
+   * Builds a tombstone whose clock dominates the deleted version's clock.
+   */
+  static create(kind: 'list' | 'item', id: string, vectorClock: Clock | string, nodeId: string, listId?: string): Tombstone {
+    const vc = new VectorClock();
+    vc.fromObject(toClock(vectorClock));
+    vc.increment(nodeId);
+
+    return {
+      kind,
+      id,
+      ...(listId ? { listId } : {}),
+      vectorClock: vc.toObject(),
+      deletedAt: Date.now()
+    };
+  }
+
+  async get(kind: 'list' | 'item', id: string): Promise<Tombstone | null> {
+    return this.store.getTombstone(kind, id);
+  }
+
+  async all(): Promise<Tombstone[]> {
+    return this.store.getAllTombstones();
+  }
+
+  /**
+   * The tombstone to store for a delete: its clock merged with any tombstone
+   * already held for the key. Callers log and save it with the delete itself.
+   */
+  async merge(tombstone: Tombstone): Promise<Tombstone> {
+    const existing = await this.store.getTombstone(tombstone.kind, tombstone.id);
+    const merged: Tombstone = { ...tombstone, vectorClock: toClock(tombstone.vectorClock) };
+
+    if (existing) {
+      const vc = new VectorClock();
+      vc.fromObject(existing.vectorClock);
+      const incoming = new VectorClock();
+      incoming.fromObject(merged.vectorClock);
+      vc.merge(incoming);
+
+      merged.vectorClock = vc.toObject();
+      merged.deletedAt = Math.max(existing.deletedAt, tombstone.deletedAt);
+    }
+    return merged;
+  }
+
+  /**
+   * Whether a version with the given clock is shadowed by a tombstone.
+   * A version that strictly descends from the tombstone resurrects the key,
+   * so the tombstone is dropped.
+   */
+  async shadows(kind: 'list' | 'item', id: string, vectorClock: Clock | string): Promise<boolean> {
+    const tombstone = await this.store.getTombstone(kind, id);
+    if (!tombstone) return false;
+
+    if (VectorClock.compare(toClock(vectorClock), tombstone.vectorClock) === 'after') {
+      await this.store.deleteTombstone(kind, id);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Removes tombstones older than the grace period. Returns how many were collected.
+   */
+  async collectGarbage(now: number = Date.now()): Promise<number> {
+    const collected = await this.store.deleteTombstonesBefore(now - this.gcGracePeriod);
+    if (collected > 0) {
+      console.log(`🪦 Collected ${collected} tombstone(s) older than ${this.gcGracePeriod}ms`);
+    }
+    return collected;
+  }
+}
@@ -0,0 +1,76 @@
+import { VectorClock } from '../crdt/VectorClock';
+import { digestOf } from './merkle';
+
+export type Clock = { [nodeId: string]: number };
+
+/**
+ * Normalizes a vector clock that may arrive as an object or a JSON string.
+ */
+export function toClock(vectorClock: Clock | string | undefined | null): Clock {
+  if (!vectorClock) return {};
+  return typeof vectorClock === 'string' ? JSON.parse(vectorClock) : vectorClock;
+}
+
+/**
+ * Component-wise maximum of several clocks.
+ */
+export function mergeClocks(clocks: Array<Clock | string | undefined>): Clock {
+  const merged = new VectorClock();
+  for (const clock of clocks) {
+    const vc = new VectorClock();
+    vc.fromObject({ ...toClock(clock) });
+    merged.merge(vc);
+  }
+  return merged.toObject();
+}
+
+/**
+ * Stable string form of a clock, independent of key order.
+ */
+export function clockKey(vectorClock: Clock | string | undefined): string {
+  const clock = toClock(vectorClock);
+  return JSON.stringify(Object.keys(clock).sort().map(node => [node, clock[node]]));
+}
+
+/**
+ * Fields that make up a list or item's replicated value. Vector clocks and
+ * timestamps are left out: they differ between replicas even when values agree.
+ */
+export function replicatedFields(kind: 'list' | 'item', data: any): any {
+  if (data.deleted) {
+    return { id: data.id, deleted: true };
+  }
+  if (kind === 'list') {
+    return { id: data.id, name: data.name };
+  }
+  return { id: data.id, listId: data.listId, name: data.name, quantity: data.quantity, acquired: data.acquired };
+}
+
+export function sameContent(kind: 'list' | 'item', a: any, b: any): boolean {
+  return digestOf(replicatedFields(kind, a)) === digestOf(replicatedFields(kind, b));
+}
+
+/**
+ * Versions that no other version causally dominates, i.e. the concurrent siblings.
+ * Siblings holding the same value are folded into one with their clocks merged,
+ * since they do not conflict.
+ */
+export function maximalVersions(kind: 'list' | 'item', versions: any[]): any[] {
+  const result: any[] = [];
+
+  for (const version of versions) {
+    const clock = toClock(version.vectorClock);
+    const dominated = versions.some(other => VectorClock.compare(toClock(other.vectorClock), clock) === 'after');
+    if (dominated) continue;
+
+    const same = result.find(r => sameContent(kind, r, version));
+    if (same) {
+      same.vectorClock = mergeClocks([same.vectorClock, clock]);
+      same.lastUpdated = Math.max(same.lastUpdated || 0, version.lastUpdated || 0);
+    } else {
+      result.push({ ...version, vectorClock: clock });
+    }
+  }
+
+  return result;
+}
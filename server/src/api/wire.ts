@@ -0,0 +1,172 @@
+import cloudConfig from './cloudConfig.json';
+import { MessageAuthenticator } from './auth';
+import { Codec, codecNamed, detectCodec, JSON_CODEC } from './codec';
+import {
+  decodeMessage,
+  encodeMessage,
+  encodeReply,
+  Envelope,
+  MessagePayloads,
+  Operation,
+  ProtocolError
+} from './protocol';
+
+interface TrafficCounters {
+  messages: number;
+  bytes: number;
+  /** What the same messages take as JSON, to show what the codec saves. */
+  jsonBytes: number;
+}
+
+/**
+ * Bytes sent and received per message type and codec. Replies are counted under
+ * `<request type>/REPLY`, so e.g. the cost of READ answers is visible on its own.
+ */
+export type TrafficStats = {
+  sent: Record<string, Record<string, TrafficCounters>>;
+  received: Record<string, Record<string, TrafficCounters>>;
+};
+
+/**
+ * Sends exactly one raw message over a connection and returns the raw reply,
+ * or null on timeout.
+ */
+export type Exchange = (message: Buffer) => Promise<Buffer | null>;
+
+export interface WireOptions {
+  /** Codec names in order of preference; defaults to `cloudConfig.wire.codecs`. */
+  codecs?: string[];
+  /** Signs outgoing and verifies incoming messages; null turns authentication off. */
+  auth?: MessageAuthenticator | null;
+}
+
+/**
+ * One process's end of the wire protocol. Picks the codec of each connection by
+ * a HELLO handshake, encodes and decodes envelopes with it, and keeps byte counts
+ * per message type. Peers that predate codec negotiation reject HELLO as an
+ * unknown message type and are spoken to in JSON. Messages are signed and
+ * verified with the configured authenticator; rejected ones are logged.
+ */
+export class WireEndpoint {
+  readonly sender: string;
+  private codecs: Codec[];
+  private auth: MessageAuthenticator | null;
+  private connectionCodecs: WeakMap<object, Codec> = new WeakMap();
+  private stats: TrafficStats = { sent: {}, received: {} };
+
+  constructor(sender: string, options: WireOptions = {}) {
+    this.sender = sender;
+    this.codecs = (options.codecs ?? cloudConfig.wire.codecs)
+      .map(name => codecNamed(name))
+      .filter((codec): codec is Codec => !!codec);
+    if (!this.codecs.includes(JSON_CODEC)) this.codecs.push(JSON_CODEC);
+    this.auth = options.auth === undefined ? MessageAuthenticator.fromConfig() : options.auth;
+  }
+
+  /**
+   * Codec names this endpoint accepts, most preferred first.
+   */
+  supportedCodecs(): string[] {
+    return this.codecs.map(codec => codec.name);
+  }
+
+  /**
+   * Answer to a HELLO: the first codec we support in the peer's order of preference.
+   */
+  chooseCodec(offered: string[]): Codec {
+    const supported = offered.map(name => codecNamed(name)).find(codec => codec && this.codecs.includes(codec));
+    return supported ?? JSON_CODEC;
+  }
+
+  /**
+   * Codec to use on a connection (a socket), negotiating it on first use. A socket
+   * that replaces a timed-out one negotiates again, since the peer may have been
+   * restarted with another version. Returns null if the peer did not answer, in
+   * which case nothing is remembered.
+   */
+  async codecFor(connection: object, exchange: Exchange): Promise<Codec | null> {
+    const known = this.connectionCodecs.get(connection);
+    if (known) return known;
+
+    const reply = await exchange(this.encodeRequest({ type: 'HELLO', codecs: this.supportedCodecs() }, JSON_CODEC));
+    if (!reply) return null;
+
+    const answer = this.decodeReply(reply, 'HELLO');
+    const codec = (answer.status === 'ok' && codecNamed(answer.codec)) || JSON_CODEC;
+    this.connectionCodecs.set(connection, codec);
+    return codec;
+  }
+
+  encodeRequest(operation: Operation, codec: Codec): Buffer {
+    const data = encodeMessage(operation, this.sender, codec, this.auth);
+    this.count('sent', operation.type, codec, data, () => encodeMessage(operation, this.sender, JSON_CODEC, this.auth));
+    return data;
+  }
+
+  decodeRequest(raw: Buffer): { envelope: Envelope; codec: Codec } {
+    const envelope = this.decode(raw);
+    const codec = detectCodec(raw);
+    this.count('received', envelope.type, codec, raw, () => JSON_CODEC.encode(envelope));
+    return { envelope, codec };
+  }
+
+  encodeReply(reply: MessagePayloads['REPLY'], request: Envelope | undefined, codec: Codec): Buffer {
+    const data = encodeReply(reply, this.sender, request?.id, codec, this.auth);
+    this.count('sent', `${request?.type ?? 'UNKNOWN'}/REPLY`, codec, data, () =>
+      encodeReply(reply, this.sender, request?.id, JSON_CODEC, this.auth)
+    );
+    return data;
+  }
+
+  decodeReply(raw: Buffer, requestType: string): MessagePayloads['REPLY'] {
+    const envelope = this.decode(raw);
+    if (envelope.type !== 'REPLY') {
+      throw new ProtocolError(`Expected a reply, got ${envelope.type}`, 'INVALID_MESSAGE');
+    }
+    this.count('received', `${requestType}/REPLY`, detectCodec(raw), raw, () => JSON_CODEC.encode(envelope));
+    return envelope.payload as MessagePayloads['REPLY'];
+  }
+
+  getStats(): TrafficStats {
+    return this.stats;
+  }
+
+  private decode(raw: Buffer): Envelope {
+    try {
+      return decodeMessage(raw, this.auth);
+    } catch (err) {
+      if (err instanceof ProtocolError && err.code === 'UNAUTHENTICATED') {
+        console.warn(`🚫 ${this.sender} rejected a message: ${err.message}`);
+      }
+      throw err;
+    }
+  }
+
+  private count(direction: 'sent' | 'received', type: string, codec: Codec, data: Buffer, asJson: () => Buffer): void {
+    const byType = (this.stats[direction][type] ??= {});
+    const counters = (byType[codec.name] ??= { messages: 0, bytes: 0, jsonBytes: 0 });
+    counters.messages++;
+    counters.bytes += data.length;
+    counters.jsonBytes += codec === JSON_CODEC ? data.length : asJson().length;
+  }
+}
+
+/**
+ * Sums the traffic stats of several endpoints.
+ */
+export function combineTrafficStats(all: TrafficStats[]): TrafficStats {
+  const total: TrafficStats = { sent: {}, received: {} };
+  for (const stats of all) {
+    for (const direction of ['sent', 'received'] as const) {
+      for (const [type, byCodec] of Object.entries(stats[direction])) {
+        for (const [codec, counters] of Object.entries(byCodec)) {
+          const sum = ((total[direction][type] ??= {})[codec] ??= { messages: 0, bytes: 0, jsonBytes: 0 });
+          sum.messages += counters.messages;
+          sum.bytes += counters.bytes;
+          sum.jsonBytes += counters.jsonBytes;
+        }
+      }
+    }
+  }
+  return total;
+}
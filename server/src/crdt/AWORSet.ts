@@ -1,7 +1,20 @@
 import { CRDTShoppingListItem } from './CRDTShoppingListItem';
-import { PNCounter } from './PNCounter';
+import { PNCounter, PNCounterDelta } from './PNCounter';
 import { LWWRegister } from './LWWRegister';
 
+/**
+ * Delta of an AWORSet, in the same shape as getState(). Elements may be partial:
+ * an add carries the whole item, a field update only the changed field's delta
+ * plus the item's vector clock and timestamp.
+ */
+export type AWORSetDelta = {
+  elements: [string, any][];
+  addSet: [string, string[]][];
+  removeSet: [string, string[]][];
+};
+
+export type AWORSetDeltaListener = (itemId: string, delta: AWORSetDelta) => void;
+
 /**
  * Add-Wins Observed-Remove Set (AWORSet) CRDT.
  * Provides conflict-free set semantics where concurrent add and remove of the same
@@ -14,6 +27,7 @@ export class AWORSet {
   private nodeId: string;
   private operationCounter: number;
   private localRemovals: Set<string>;
+  private deltaListeners: AWORSetDeltaListener[] = [];
 
   constructor(nodeId: string) {
     this.elements = new Map();
@@ -40,6 +54,19 @@ export class AWORSet {
     };
   }
 
+  /**
+   * Copy of a remote item whose counters belong to this node, so that later
+   * local increments are attributed here rather than to the node it came from.
+   */
+  private adoptItem(item: CRDTShoppingListItem): CRDTShoppingListItem {
+    return {
+      ...item,
+      quantity: this.mergePNCounters(new PNCounter(this.nodeId), item.quantity),
+      acquired: this.mergePNCounters(new PNCounter(this.nodeId), item.acquired),
+      vectorClock: { ...item.vectorClock }
+    };
+  }
+
   private mergeLWWRegisters<T>(a: LWWRegister<T>, b: LWWRegister<T>): LWWRegister<T> {
     // Use a.nodeId (public property) instead of a['nodeId'] (private access)
     const merged = new LWWRegister(a.getValue(), a.getNodeId());
@@ -64,6 +91,11 @@ export class AWORSet {
   }
 
   add(item: CRDTShoppingListItem): string {
+    this.addDelta(item);
+    return item.id;
+  }
+
+  addDelta(item: CRDTShoppingListItem): AWORSetDelta {
     const itemId = item.id;
     this.operationCounter++;
     const uniqueTag = `${this.nodeId}:${Date.now()}:${this.operationCounter}`;
@@ -79,23 +111,33 @@ export class AWORSet {
     this.removeSet.delete(itemId);
     this.localRemovals.delete(itemId);
 
-    return itemId;
+    return this.emit(itemId, {
+      elements: [[itemId, this.serializeItem(item)]],
+      addSet: [[itemId, [uniqueTag]]],
+      removeSet: []
+    });
   }
 
   remove(itemId: string): boolean {
-    if (!this.elements.has(itemId)) return false;
+    return this.removeDelta(itemId) !== null;
+  }
 
-    this.operationCounter++;
-    const uniqueTag = `${this.nodeId}:${Date.now()}:${this.operationCounter}`;
+  removeDelta(itemId: string): AWORSetDelta | null {
+    if (!this.elements.has(itemId)) return null;
 
     if (!this.removeSet.has(itemId)) {
       this.removeSet.set(itemId, new Set());
     }
-    this.removeSet.get(itemId)!.add(uniqueTag);
+    // Observed-remove: only the add tags seen here are removed, so a concurrent add still wins
+    const removeTags = this.removeSet.get(itemId)!;
+    const observed = Array.from(this.addSet.get(itemId) ?? []);
+    for (const tag of observed) {
+      removeTags.add(tag);
+    }
 
     this.localRemovals.add(itemId);
 
-    return true;
+    return this.emit(itemId, { elements: [], addSet: [], removeSet: [[itemId, observed]] });
   }
 
   /**
@@ -108,15 +150,53 @@ export class AWORSet {
     value: any,
     nodeId?: string
   ): boolean {
+    return this.updateFieldDelta(itemId, field, value, nodeId) !== null;
+  }
+
+  updateFieldDelta(
+    itemId: string,
+    field: keyof CRDTShoppingListItem,
+    value: any,
+    nodeId?: string
+  ): AWORSetDelta | null {
     const item = this.elements.get(itemId);
-    if (!item || this.localRemovals.has(itemId)) return false;
+    if (!item || this.localRemovals.has(itemId) || !this.shouldExist(itemId)) return null;
 
     const targetNodeId = nodeId || this.nodeId;
+    const element: any = { id: item.id, listId: item.listId };
+    const fieldDelta = this.setFieldValue(item, field, value, targetNodeId);
+    if (fieldDelta !== undefined) element[field] = fieldDelta;
+
+    item.lastUpdated = Date.now();
+    item.vectorClock[targetNodeId] = (item.vectorClock[targetNodeId] || 0) + 1;
+
+    element.lastUpdated = item.lastUpdated;
+    element.vectorClock = { ...item.vectorClock };
+    return this.emit(itemId, { elements: [[itemId, element]], addSet: [], removeSet: [] });
+  }
+
+  /**
+   * Sets a field to the value another node's version of the item holds. Unlike
+   * updateField this is not a local mutation: the vector clock and timestamp are
+   * left to the caller, which adopts the version's, and no delta is emitted.
+   */
+  adoptField(itemId: string, field: 'name' | 'quantity' | 'acquired', value: any): boolean {
+    const item = this.elements.get(itemId);
+    if (!item || this.localRemovals.has(itemId) || !this.shouldExist(itemId)) return false;
 
+    const current = item[field] instanceof LWWRegister ? item[field].getValue() : (item[field] as PNCounter).value();
+    if (current !== value) this.setFieldValue(item, field, value, this.nodeId);
+    return true;
+  }
+
+  /**
+   * Changes one field and returns its delta; undefined when nothing changed.
+   */
+  private setFieldValue(item: CRDTShoppingListItem, field: keyof CRDTShoppingListItem, value: any, nodeId: string): any {
     switch (field) {
       case 'name':
         if (item[field] instanceof LWWRegister) {
-          (item[field] as LWWRegister<any>).setValue(value, targetNodeId);
+          return (item[field] as LWWRegister<any>).setValueDelta(value, nodeId);
         }
         break;
 
@@ -124,22 +204,28 @@ export class AWORSet {
       case 'acquired':
         if (item[field] instanceof PNCounter) {
           const counter = item[field] as PNCounter;
-          const current = counter.value();
-          const delta = value - current;
-          
-          if (delta > 0) {
-            counter.increment(delta);
-          } else if (delta < 0) {
-            counter.decrement(-delta);
-          }
+          const delta = value - counter.value();
+
+          if (delta > 0) return counter.incrementDelta(delta);
+          if (delta < 0) return counter.decrementDelta(-delta);
         }
         break;
     }
+    return undefined;
+  }
 
-    item.lastUpdated = Date.now();
-    item.vectorClock[targetNodeId] = (item.vectorClock[targetNodeId] || 0) + 1;
+  /**
+   * Registers a listener called with the delta of every local mutation.
+   */
+  onDelta(listener: AWORSetDeltaListener): void {
+    this.deltaListeners.push(listener);
+  }
 
-    return true;
+  private emit(itemId: string, delta: AWORSetDelta): AWORSetDelta {
+    for (const listener of this.deltaListeners) {
+      listener(itemId, delta);
+    }
+    return delta;
   }
 
   get(itemId: string): CRDTShoppingListItem | undefined {
@@ -208,7 +294,7 @@ export class AWORSet {
           this.elements.set(itemId, merged);
         } else if (theirItem) {
           // Take theirs
-          this.elements.set(itemId, theirItem);
+          this.elements.set(itemId, this.adoptItem(theirItem));
         }
       } else {
         // Item should not exist
@@ -217,6 +303,55 @@ export class AWORSet {
     }
   }
 
+  /**
+   * Merges a delta (or a full state). Removed items keep their element, as after
+   * a local remove, so their remove tags can still be persisted. Returns false if
+   * the delta updates an item this set has never seen, which can only be fixed by
+   * merging its full state.
+   */
+  mergeDelta(delta: AWORSetDelta): boolean {
+    this.localRemovals.clear();
+
+    for (const [itemId, tags] of delta.addSet) {
+      if (!this.addSet.has(itemId)) {
+        this.addSet.set(itemId, new Set());
+      }
+      tags.forEach(tag => this.addSet.get(itemId)!.add(tag));
+    }
+    for (const [itemId, tags] of delta.removeSet) {
+      if (!this.removeSet.has(itemId)) {
+        this.removeSet.set(itemId, new Set());
+      }
+      tags.forEach(tag => this.removeSet.get(itemId)!.add(tag));
+    }
+
+    let complete = true;
+    for (const [itemId, element] of delta.elements) {
+      const ours = this.elements.get(itemId);
+      if (ours) {
+        this.mergeElementDelta(ours, element);
+      } else if (this.isWholeElement(element)) {
+        this.elements.set(itemId, this.adoptItem(this.deserializeItem(element)));
+      } else {
+        complete = false;
+      }
+    }
+
+    return complete;
+  }
+
+  private mergeElementDelta(item: CRDTShoppingListItem, element: any): void {
+    if (element.name) item.name.mergeDelta(element.name);
+    if (element.quantity) item.quantity.mergeDelta(element.quantity as PNCounterDelta);
+    if (element.acquired) item.acquired.mergeDelta(element.acquired as PNCounterDelta);
+    item.lastUpdated = Math.max(item.lastUpdated, element.lastUpdated || 0);
+    item.vectorClock = this.mergeVectorClocks(item.vectorClock, element.vectorClock || {});
+  }
+
+  private isWholeElement(element: any): boolean {
+    return !!(element.name && element.quantity && element.acquired && element.createdAt !== undefined);
+  }
+
   private shouldExist(itemId: string): boolean {
     const addTags = this.addSet.get(itemId);
     const removeTags = this.removeSet.get(itemId);
@@ -234,6 +369,35 @@ export class AWORSet {
     return false;
   }
 
+  /**
+   * State of a single item in the same shape as getState(), so one item can be
+   * replicated and merged without exchanging the whole set.
+   */
+  getItemState(itemId: string): any | null {
+    const item = this.get(itemId);
+    if (!item) return null;
+
+    return {
+      elements: [[itemId, this.serializeItem(item)]],
+      addSet: [[itemId, Array.from(this.addSet.get(itemId) ?? [])]],
+      removeSet: this.removeSet.has(itemId) ? [[itemId, Array.from(this.removeSet.get(itemId)!)]] : [],
+      nodeId: this.nodeId
+    };
+  }
+
+  /**
+   * Everything the set holds for one item, removed or not: its serialized CRDT
+   * state and its add and remove tags. Used to persist the set item by item.
+   */
+  getEntry(itemId: string): { element: any | null; addTags: string[]; removeTags: string[] } {
+    const item = this.elements.get(itemId);
+    return {
+      element: item ? this.serializeItem(item) : null,
+      addTags: Array.from(this.addSet.get(itemId) ?? []),
+      removeTags: Array.from(this.removeSet.get(itemId) ?? [])
+    };
+  }
+
   getState() {
     return {
       elements: Array.from(this.elements.entries()).map(([k, v]) => [k, this.serializeItem(v)]),
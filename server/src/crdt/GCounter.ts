@@ -1,8 +1,9 @@
 /**
- * Grow-only Counter CRDT.
- * Each node tracks its own counter; the total is the sum of all node counters.
- * Merge uses component-wise max for convergence.
+ * Grow-only counter delta: the new totals of the node entries a mutation changed.
+ * Has the same shape as a full state, so it merges the same way.
  */
+export type GCounterDelta = [string, number][];
+
 export class GCounter {
   private counts: Map<string, number>;
   private nodeId: string;
@@ -14,8 +15,16 @@ export class GCounter {
   }
 
   increment(amount: number = 1): void {
+    this.incrementDelta(amount);
+  }
+
+  /**
+   * Increments this node's entry and returns the delta describing the change.
+   */
+  incrementDelta(amount: number = 1): GCounterDelta {
     const current = this.counts.get(this.nodeId) || 0;
     this.counts.set(this.nodeId, current + amount);
+    return [[this.nodeId, current + amount]];
   }
 
   get value(): number {
@@ -27,7 +36,11 @@ export class GCounter {
   }
 
   merge(other: GCounter): void {
-    for (const [nodeId, count] of other.counts) {
+    this.mergeDelta(other.getState());
+  }
+
+  mergeDelta(delta: GCounterDelta): void {
+    for (const [nodeId, count] of delta) {
       const current = this.counts.get(nodeId) || 0;
       this.counts.set(nodeId, Math.max(current, count));
     }
@@ -41,4 +54,3 @@ export class GCounter {
     this.counts = new Map(state);
   }
 }
-// file content end
\ No newline at end of file
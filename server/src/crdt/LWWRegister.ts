@@ -1,3 +1,8 @@
+/**
+ * Delta of a register: a whole write, which is also its full state.
+ */
+export type LWWRegisterDelta<T> = { value: T; timestamp: number; nodeId: string };
+
 /**
  * Last-Writer-Wins Register CRDT.
  * Resolves concurrent writes by keeping the value with the highest timestamp.
@@ -23,23 +28,32 @@ export class LWWRegister<T> {
   }
 
   setValue(newValue: T, nodeId: string): void {
+    this.setValueDelta(newValue, nodeId);
+  }
+
+  setValueDelta(newValue: T, nodeId: string): LWWRegisterDelta<T> {
     this.value = newValue;
     this.timestamp = Date.now();
     this.nodeId = nodeId;
+    return this.getState();
   }
 
   merge(other: LWWRegister<T>): void {
+    this.mergeDelta(other.getState());
+  }
+
+  mergeDelta(delta: LWWRegisterDelta<T>): void {
     if (
-      other.timestamp > this.timestamp ||
-      (other.timestamp === this.timestamp && other.nodeId > this.nodeId)
+      delta.timestamp > this.timestamp ||
+      (delta.timestamp === this.timestamp && delta.nodeId > this.nodeId)
     ) {
-      this.value = other.value;
-      this.timestamp = other.timestamp;
-      this.nodeId = other.nodeId;
+      this.value = delta.value;
+      this.timestamp = delta.timestamp;
+      this.nodeId = delta.nodeId;
     }
   }
 
-  getState() {
+  getState(): LWWRegisterDelta<T> {
     return {
       value: this.value,
       timestamp: this.timestamp,
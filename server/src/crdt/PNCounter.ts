@@ -1,4 +1,9 @@
-import { GCounter } from './GCounter';
+import { GCounter, GCounterDelta } from './GCounter';
+
+/**
+ * Delta of a PNCounter: the changed entries of its increment and decrement counters.
+ */
+export type PNCounterDelta = { p: GCounterDelta; n: GCounterDelta };
 
 /**
  * Positive-Negative Counter CRDT.
@@ -27,11 +32,19 @@ export class PNCounter {
   }
 
   increment(amount: number = 1) {
-    this.p.increment(amount);
+    this.incrementDelta(amount);
   }
 
   decrement(amount: number = 1) {
-    this.n.increment(amount);
+    this.decrementDelta(amount);
+  }
+
+  incrementDelta(amount: number = 1): PNCounterDelta {
+    return { p: this.p.incrementDelta(amount), n: [] };
+  }
+
+  decrementDelta(amount: number = 1): PNCounterDelta {
+    return { p: [], n: this.n.incrementDelta(amount) };
   }
 
   value(): number {
@@ -43,6 +56,14 @@ export class PNCounter {
     this.n.merge(other.n);
   }
 
+  /**
+   * Merges a delta, or a full state since both have the same shape.
+   */
+  mergeDelta(delta: PNCounterDelta) {
+    this.p.mergeDelta(delta.p);
+    this.n.mergeDelta(delta.n);
+  }
+
   getState() {
     return { 
       p: this.p.getState(), 
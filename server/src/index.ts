@@ -1,8 +1,9 @@
 import { ShoppingListServer } from './api/server';
+import { localAddress } from './api/addresses';
 
 // Start the server
 async function main() {
-  const server = new ShoppingListServer(3000);
+  const server = new ShoppingListServer(localAddress(3000));
   await server.start(); 
 }
 
@@ -31,4 +31,81 @@ export interface SyncMessage {
   nodeId: string;
   operations: Operation[];
   vectorClock: { [nodeId: string]: number };
-}
\ No newline at end of file
+}
+
+export interface Hint {
+  id: number;
+  target: string; // host:port address of the replica the update is for
+  payload: any;
+  createdAt: number;
+}
+
+export interface HintBacklog {
+  target: string;
+  count: number;
+  oldest: number;
+  newest: number;
+}
+/**
+ * Item fields a client changed between two syncs, with the clock of its last
+ * change. Clients send their queued changes in one batch; `id` names the change
+ * in the acknowledgement.
+ */
+export interface ItemChange {
+  id: string;
+  itemId: string;
+  fields: Partial<Pick<ShoppingListItem, 'name' | 'quantity' | 'acquired'>>;
+  vectorClock: { [nodeId: string]: number };
+  lastUpdated: number;
+}
+
+export interface ItemChangeFailure {
+  id: string;
+  status: number;
+  error: string;
+}
+
+export interface Tombstone {
+  kind: 'list' | 'item';
+  id: string;
+  listId?: string;
+  vectorClock: { [nodeId: string]: number };
+  deletedAt: number;
+}
+
+/**
+ * Persisted AWORSet entry of an item: its serialized CRDT state (register and
+ * counter states) and its add and remove tags.
+ */
+export interface ItemCRDTState {
+  id: string;
+  listId: string;
+  element: any | null;
+  addTags: string[];
+  removeTags: string[];
+}
+
+/**
+ * One storage write of an operation, as recorded in the operation log.
+ */
+export type StorageWrite =
+  | { type: 'saveList'; list: ShoppingList }
+  | { type: 'deleteList'; listId: string }
+  | { type: 'saveItem'; item: ShoppingListItem }
+  | { type: 'deleteItem'; itemId: string }
+  | { type: 'saveItemState'; state: ItemCRDTState }
+  | { type: 'saveTombstone'; tombstone: Tombstone }
+  | { type: 'saveSibling'; kind: 'list' | 'item'; id: string; clock: string; data: any }
+  | { type: 'deleteSiblings'; kind: 'list' | 'item'; id: string };
+
+/**
+ * An accepted operation in the write-ahead log: every write it makes, logged
+ * together with the vector clock of the list or item it changed.
+ */
+export interface LoggedOperation {
+  seq: number;
+  operation: string;
+  vectorClock: { [nodeId: string]: number };
+  writes: StorageWrite[];
+  loggedAt: number;
+}
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import cloudConfig from '../api/cloudConfig.json';
+import { EngineMutation, MemoryEngine } from './MemoryEngine';
+
+interface LogStructuredEngineOptions {
+  compactAfter?: number;
+}
+
+/**
+ * Storage engine that appends every change to a file, one JSON record per line,
+ * and serves reads from memory. A change is acknowledged once it is synced to
+ * disk; opening the file replays it. When the file has grown to twice its live
+ * state (and past `compactAfter` records), it is rewritten with just that state.
+ */
+export class LogStructuredEngine extends MemoryEngine {
+  private file: string;
+  private compactAfter: number;
+  private handle: fs.promises.FileHandle | null = null;
+  private loaded: Promise<void>;
+  private queue: Promise<unknown> = Promise.resolve(); // Appends, one at a time and in order
+  private records = 0;
+  private compactAt = 0;
+
+  constructor(file: string, options: LogStructuredEngineOptions = {}) {
+    super();
+    this.file = file;
+    this.compactAfter = options.compactAfter ?? cloudConfig.storage.log.compactAfter;
+    this.loaded = this.load();
+    // Operations wait for the load and fail with the same error if it did
+    this.loaded.catch(() => {});
+  }
+
+  async ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  /**
+   * Rewrites the file with only the live state.
+   */
+  async compact(): Promise<void> {
+    await this.loaded;
+    return this.enqueue(() => this.rewrite());
+  }
+
+  getStats(): { records: number; compactAt: number } {
+    return { records: this.records, compactAt: this.compactAt };
+  }
+
+  close(): void {
+    this.loaded.catch(() => {}).then(() => this.enqueue(async () => {
+      await this.handle?.close();
+      this.handle = null;
+    }));
+  }
+
+  protected async commit(mutation: EngineMutation): Promise<number> {
+    const line = `${JSON.stringify(mutation)}\n`;
+    const changes = await this.enqueue(async () => {
+      if (!this.handle) throw new Error(`Storage log ${this.file} is closed`);
+      await this.handle.appendFile(line);
+      await this.handle.datasync();
+      this.records++;
+      return this.apply(mutation);
+    });
+
+    if (this.records >= this.compactAt) {
+      // Appends queued meanwhile may have scheduled a rewrite already
+      this.enqueue(async () => (this.records >= this.compactAt ? this.rewrite() : undefined)).catch(err => {
+        console.error(`❌ Failed to compact storage log ${this.file}:`, err);
+      });
+    }
+    return changes;
+  }
+
+  private async load(): Promise<void> {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const data = fs.existsSync(this.file) ? await fs.promises.readFile(this.file) : Buffer.alloc(0);
+
+    // A crash in the middle of an append leaves a partial record that was never acknowledged
+    const end = data.lastIndexOf(0x0a) + 1;
+    if (end < data.length) {
+      console.warn(`⚠️ Dropping a partial record at the end of storage log ${this.file}`);
+      await fs.promises.truncate(this.file, end);
+    }
+
+    for (const line of data.subarray(0, end).toString('utf-8').split('\n')) {
+      if (!line) continue;
+      this.apply(JSON.parse(line));
+      this.records++;
+    }
+    this.handle = await fs.promises.open(this.file, 'a');
+    this.compactAt = Math.max(this.compactAfter, 2 * this.dump().length);
+    console.log(`Storage log ${this.file} loaded (${this.records} records)`);
+  }
+
+  private async rewrite(): Promise<void> {
+    if (!this.handle) return;
+    const live = this.dump();
+    const temp = `${this.file}.compact`;
+
+    const out = await fs.promises.open(temp, 'w');
+    try {
+      await out.writeFile(live.map(mutation => `${JSON.stringify(mutation)}\n`).join(''));
+      await out.datasync();
+    } finally {
+      await out.close();
+    }
+
+    await this.handle.close();
+    try {
+      await fs.promises.rename(temp, this.file);
+    } finally {
+      this.handle = await fs.promises.open(this.file, 'a');
+    }
+    console.log(`🗜️ Compacted storage log ${this.file} from ${this.records} to ${live.length} records`);
+    this.records = live.length;
+    this.compactAt = Math.max(this.compactAfter, 2 * live.length);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
@@ -0,0 +1,376 @@
+import { Hint, HintBacklog, ItemCRDTState, LoggedOperation, ShoppingList, ShoppingListItem, StorageWrite, Tombstone } from '../shared/types';
+import { hashKey, rangeContains, RingRange } from '../api/partitioning';
+import { RangeScan, StorageEngine } from './StorageEngine';
+
+type Kind = 'list' | 'item';
+
+/**
+ * One change to an engine's state. The in-memory engine applies it directly;
+ * the log-structured engine appends it to its file first and replays it on open.
+ */
+export type EngineMutation =
+  | StorageWrite
+  | { type: 'saveHint'; hint: Hint }
+  | { type: 'deleteHint'; id: number }
+  | { type: 'deleteHintsForTarget'; target: string }
+  | { type: 'deleteHintsBefore'; timestamp: number }
+  | { type: 'trimHints'; target: string; max: number }
+  | { type: 'saveTombstone'; tombstone: Tombstone }
+  | { type: 'deleteTombstone'; kind: Kind; id: string }
+  | { type: 'deleteTombstonesBefore'; timestamp: number }
+  | { type: 'saveSibling'; kind: Kind; id: string; clock: string; data: any }
+  | { type: 'deleteSibling'; kind: Kind; id: string; clock: string }
+  | { type: 'deleteSiblings'; kind: Kind; id: string }
+  | { type: 'saveClusterState'; key: string; value: string }
+  | { type: 'appendOperation'; operation: LoggedOperation }
+  | { type: 'truncateOperations'; seq: number }
+  | { type: 'sequences'; hintId: number; seq: number };
+
+function byString<T>(key: (value: T) => string): (a: T, b: T) => number {
+  return (a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0);
+}
+
+/**
+ * Storage engine that keeps everything in maps and loses it on exit. Meant for
+ * tests and throwaway nodes; values are copied in and out, like rows.
+ */
+export class MemoryEngine implements StorageEngine {
+  private lists: Map<string, ShoppingList> = new Map();
+  private items: Map<string, ShoppingListItem> = new Map();
+  private itemStates: Map<string, ItemCRDTState> = new Map();
+  private hints: Map<number, Hint> = new Map(); // In id order
+  private tombstones: Map<string, Tombstone> = new Map(); // By `${kind}:${id}`
+  private siblings: Map<string, Map<string, any>> = new Map(); // By `${kind}:${id}`, then clock
+  private clusterState: Map<string, string> = new Map();
+  private operations: Map<number, LoggedOperation> = new Map(); // In seq order
+  private lastHintId = 0;
+  private lastSeq = 0;
+
+  async ready(): Promise<void> {}
+
+  async saveList(list: ShoppingList): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'saveList', list });
+  }
+
+  async getList(listId: string): Promise<ShoppingList | null> {
+    await this.ready();
+    return copy(this.lists.get(listId) ?? null);
+  }
+
+  async deleteList(listId: string): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'deleteList', listId });
+  }
+
+  async getAllLists(): Promise<(ShoppingList & { items: ShoppingListItem[] })[]> {
+    await this.ready();
+    return [...this.lists.values()]
+      .sort((a, b) => b.lastUpdated - a.lastUpdated)
+      .map(list => ({ ...copy(list), items: this.listItems(list.id) }));
+  }
+
+  async saveItem(item: ShoppingListItem): Promise<void> {
+    await this.ready();
+    if (!this.lists.has(item.listId)) {
+      throw new Error(`Cannot save item ${item.id}: list ${item.listId} does not exist`);
+    }
+    await this.commit({ type: 'saveItem', item });
+  }
+
+  async getItem(itemId: string): Promise<ShoppingListItem | null> {
+    await this.ready();
+    return copy(this.items.get(itemId) ?? null);
+  }
+
+  async getItemsByList(listId: string): Promise<ShoppingListItem[]> {
+    await this.ready();
+    return this.listItems(listId);
+  }
+
+  async getAllItems(): Promise<ShoppingListItem[]> {
+    await this.ready();
+    return [...this.items.values()].sort(byString(item => item.name)).map(copy);
+  }
+
+  async deleteItem(itemId: string): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'deleteItem', itemId });
+  }
+
+  async saveItemState(state: ItemCRDTState): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'saveItemState', state });
+  }
+
+  async getItemStates(): Promise<ItemCRDTState[]> {
+    await this.ready();
+    return [...this.itemStates.values()].map(copy);
+  }
+
+  async saveHint(target: string, payload: any, createdAt: number = Date.now()): Promise<number> {
+    await this.ready();
+    const id = ++this.lastHintId;
+    await this.commit({ type: 'saveHint', hint: { id, target, payload, createdAt } });
+    return id;
+  }
+
+  async getHints(target: string, limit: number = -1): Promise<Hint[]> {
+    await this.ready();
+    const hints = [...this.hints.values()].filter(hint => hint.target === target);
+    return (limit < 0 ? hints : hints.slice(0, limit)).map(copy);
+  }
+
+  async deleteHint(id: number): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'deleteHint', id });
+  }
+
+  async deleteHintsForTarget(target: string): Promise<number> {
+    await this.ready();
+    return this.commit({ type: 'deleteHintsForTarget', target });
+  }
+
+  async deleteHintsBefore(timestamp: number): Promise<number> {
+    await this.ready();
+    return this.commit({ type: 'deleteHintsBefore', timestamp });
+  }
+
+  async trimHints(target: string, max: number): Promise<number> {
+    await this.ready();
+    return this.commit({ type: 'trimHints', target, max });
+  }
+
+  async getHintBacklog(): Promise<HintBacklog[]> {
+    await this.ready();
+    const backlog: Map<string, HintBacklog> = new Map();
+    for (const hint of this.hints.values()) {
+      const entry = backlog.get(hint.target);
+      if (!entry) {
+        backlog.set(hint.target, { target: hint.target, count: 1, oldest: hint.createdAt, newest: hint.createdAt });
+      } else {
+        entry.count++;
+        entry.oldest = Math.min(entry.oldest, hint.createdAt);
+        entry.newest = Math.max(entry.newest, hint.createdAt);
+      }
+    }
+    return [...backlog.values()].sort(byString(entry => entry.target));
+  }
+
+  async saveTombstone(tombstone: Tombstone): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'saveTombstone', tombstone });
+  }
+
+  async getTombstone(kind: Kind, id: string): Promise<Tombstone | null> {
+    await this.ready();
+    return copy(this.tombstones.get(`${kind}:${id}`) ?? null);
+  }
+
+  async getAllTombstones(): Promise<Tombstone[]> {
+    await this.ready();
+    return [...this.tombstones.values()].sort((a, b) => a.deletedAt - b.deletedAt).map(copy);
+  }
+
+  async deleteTombstone(kind: Kind, id: string): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'deleteTombstone', kind, id });
+  }
+
+  async deleteTombstonesBefore(timestamp: number): Promise<number> {
+    await this.ready();
+    return this.commit({ type: 'deleteTombstonesBefore', timestamp });
+  }
+
+  async saveSibling(kind: Kind, id: string, clock: string, data: any): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'saveSibling', kind, id, clock, data });
+  }
+
+  async getSiblings(kind: Kind, id: string): Promise<Array<{ clock: string; data: any }>> {
+    await this.ready();
+    return [...(this.siblings.get(`${kind}:${id}`) ?? new Map()).entries()]
+      .map(([clock, data]) => ({ clock, data: copy(data) }))
+      .sort(byString(sibling => sibling.clock));
+  }
+
+  async deleteSibling(kind: Kind, id: string, clock: string): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'deleteSibling', kind, id, clock });
+  }
+
+  async deleteSiblings(kind: Kind, id: string): Promise<number> {
+    await this.ready();
+    return this.commit({ type: 'deleteSiblings', kind, id });
+  }
+
+  async saveClusterState(key: string, value: string): Promise<void> {
+    await this.ready();
+    await this.commit({ type: 'saveClusterState', key, value });
+  }
+
+  async getClusterState(key: string): Promise<string | null> {
+    await this.ready();
+    return this.clusterState.get(key) ?? null;
+  }
+
+  async appendOperation(operation: string, vectorClock: { [nodeId: string]: number }, writes: StorageWrite[]): Promise<number> {
+    await this.ready();
+    const seq = ++this.lastSeq;
+    await this.commit({ type: 'appendOperation', operation: { seq, operation, vectorClock, writes, loggedAt: Date.now() } });
+    return seq;
+  }
+
+  async getOperations(): Promise<LoggedOperation[]> {
+    await this.ready();
+    return [...this.operations.values()].map(copy);
+  }
+
+  async truncateOperations(seq: number): Promise<number> {
+    await this.ready();
+    return this.commit({ type: 'truncateOperations', seq });
+  }
+
+  async scanRange(range: RingRange): Promise<RangeScan> {
+    await this.ready();
+    const inRange = (id: string) => rangeContains(range, hashKey(id));
+    return {
+      lists: [...this.lists.values()].filter(list => inRange(list.id)).map(copy),
+      items: [...this.items.values()].filter(item => inRange(item.id)).map(copy),
+      tombstones: [...this.tombstones.values()].filter(tombstone => inRange(tombstone.id)).map(copy)
+    };
+  }
+
+  close(): void {}
+
+  /**
+   * Makes a change and resolves with the number of records it touched.
+   * Engines that persist override this to store the change first.
+   */
+  protected async commit(mutation: EngineMutation): Promise<number> {
+    return this.apply(mutation);
+  }
+
+  /**
+   * Applies a change to the maps. Deterministic, so replaying the same changes
+   * in the same order rebuilds the same state.
+   */
+  protected apply(mutation: EngineMutation): number {
+    switch (mutation.type) {
+      case 'saveList':
+        this.lists.set(mutation.list.id, copy(mutation.list));
+        return 1;
+      case 'deleteList': {
+        if (!this.lists.delete(mutation.listId)) return 0;
+        // Like ON DELETE CASCADE; CRDT state outlives the items
+        this.deleteWhere(this.items, item => item.listId === mutation.listId);
+        return 1;
+      }
+      case 'saveItem':
+        // The list was deleted while this write waited to be stored
+        if (!this.lists.has(mutation.item.listId)) return 0;
+        this.items.set(mutation.item.id, copy(mutation.item));
+        return 1;
+      case 'deleteItem':
+        return this.items.delete(mutation.itemId) ? 1 : 0;
+      case 'saveItemState':
+        this.itemStates.set(mutation.state.id, copy(mutation.state));
+        return 1;
+      case 'saveHint':
+        this.hints.set(mutation.hint.id, copy(mutation.hint));
+        this.lastHintId = Math.max(this.lastHintId, mutation.hint.id);
+        return 1;
+      case 'deleteHint':
+        return this.hints.delete(mutation.id) ? 1 : 0;
+      case 'deleteHintsForTarget':
+        return this.deleteWhere(this.hints, hint => hint.target === mutation.target);
+      case 'deleteHintsBefore':
+        return this.deleteWhere(this.hints, hint => hint.createdAt < mutation.timestamp);
+      case 'trimHints': {
+        const ids = [...this.hints.values()].filter(hint => hint.target === mutation.target).map(hint => hint.id);
+        const dropped = ids.slice(0, Math.max(0, ids.length - mutation.max));
+        dropped.forEach(id => this.hints.delete(id));
+        return dropped.length;
+      }
+      case 'saveTombstone':
+        this.tombstones.set(`${mutation.tombstone.kind}:${mutation.tombstone.id}`, copy(mutation.tombstone));
+        return 1;
+      case 'deleteTombstone':
+        return this.tombstones.delete(`${mutation.kind}:${mutation.id}`) ? 1 : 0;
+      case 'deleteTombstonesBefore':
+        return this.deleteWhere(this.tombstones, tombstone => tombstone.deletedAt < mutation.timestamp);
+      case 'saveSibling': {
+        const key = `${mutation.kind}:${mutation.id}`;
+        if (!this.siblings.has(key)) this.siblings.set(key, new Map());
+        this.siblings.get(key)!.set(mutation.clock, copy(mutation.data));
+        return 1;
+      }
+      case 'deleteSibling': {
+        const key = `${mutation.kind}:${mutation.id}`;
+        const removed = this.siblings.get(key)?.delete(mutation.clock) ? 1 : 0;
+        if (this.siblings.get(key)?.size === 0) this.siblings.delete(key);
+        return removed;
+      }
+      case 'deleteSiblings': {
+        const key = `${mutation.kind}:${mutation.id}`;
+        const removed = this.siblings.get(key)?.size ?? 0;
+        this.siblings.delete(key);
+        return removed;
+      }
+      case 'saveClusterState':
+        this.clusterState.set(mutation.key, mutation.value);
+        return 1;
+      case 'appendOperation':
+        this.operations.set(mutation.operation.seq, copy(mutation.operation));
+        this.lastSeq = Math.max(this.lastSeq, mutation.operation.seq);
+        return 1;
+      case 'truncateOperations':
+        return this.deleteWhere(this.operations, operation => operation.seq <= mutation.seq);
+      case 'sequences':
+        this.lastHintId = Math.max(this.lastHintId, mutation.hintId);
+        this.lastSeq = Math.max(this.lastSeq, mutation.seq);
+        return 0;
+    }
+  }
+
+  /**
+   * The changes that rebuild the current state from empty, used to compact a log.
+   */
+  protected dump(): EngineMutation[] {
+    const mutations: EngineMutation[] = [{ type: 'sequences', hintId: this.lastHintId, seq: this.lastSeq }];
+    this.lists.forEach(list => mutations.push({ type: 'saveList', list }));
+    this.items.forEach(item => mutations.push({ type: 'saveItem', item }));
+    this.itemStates.forEach(state => mutations.push({ type: 'saveItemState', state }));
+    this.hints.forEach(hint => mutations.push({ type: 'saveHint', hint }));
+    this.tombstones.forEach(tombstone => mutations.push({ type: 'saveTombstone', tombstone }));
+    this.siblings.forEach((versions, key) => {
+      const [kind, id] = [key.slice(0, key.indexOf(':')) as Kind, key.slice(key.indexOf(':') + 1)];
+      versions.forEach((data, clock) => mutations.push({ type: 'saveSibling', kind, id, clock, data }));
+    });
+    this.clusterState.forEach((value, key) => mutations.push({ type: 'saveClusterState', key, value }));
+    this.operations.forEach(operation => mutations.push({ type: 'appendOperation', operation }));
+    return mutations;
+  }
+
+  private listItems(listId: string): ShoppingListItem[] {
+    return [...this.items.values()]
+      .filter(item => item.listId === listId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(copy);
+  }
+
+  private deleteWhere<K, V>(map: Map<K, V>, matches: (value: V) => boolean): number {
+    let removed = 0;
+    for (const [key, value] of map) {
+      if (matches(value)) {
+        map.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,83 @@
+import { StorageWrite } from '../shared/types';
+import { StorageEngine } from './StorageEngine';
+
+/**
+ * Write-ahead log of the operations a node accepts. An operation's writes are
+ * logged as one entry, with the vector clock it produced, before any of them
+ * reaches the lists and items tables; a crash between those writes is repaired
+ * by replaying the log at startup. Writes are whole records rather than deltas,
+ * so replaying an entry that was already applied changes nothing.
+ */
+export class OperationLog {
+  private store: StorageEngine;
+  private inFlight: Set<number> = new Set();
+  private lastSeq = 0;
+  private checkpointedSeq = 0;
+
+  constructor(store: StorageEngine) {
+    this.store = store;
+  }
+
+  /**
+   * Logs an operation durably, then applies its writes in order.
+   */
+  async record(
+    operation: string,
+    vectorClock: { [nodeId: string]: number },
+    writes: StorageWrite[],
+    apply: (write: StorageWrite) => Promise<void>
+  ): Promise<void> {
+    const seq = await this.store.appendOperation(operation, vectorClock, writes);
+    this.inFlight.add(seq);
+    this.lastSeq = Math.max(this.lastSeq, seq);
+
+    for (const write of writes) {
+      await apply(write);
+    }
+    // A failed write leaves the entry in flight, so checkpoints keep it for the replay at the next start
+    this.inFlight.delete(seq);
+  }
+
+  /**
+   * Applies the entries left by a previous run and truncates them. Returns how many were replayed.
+   */
+  async replay(apply: (write: StorageWrite) => Promise<void>): Promise<number> {
+    const operations = await this.store.getOperations();
+    if (operations.length === 0) return 0;
+
+    for (const operation of operations) {
+      for (const write of operation.writes) {
+        try {
+          await apply(write);
+        } catch (err) {
+          console.error(`❌ Error replaying ${operation.operation} (seq ${operation.seq}):`, err);
+        }
+      }
+    }
+
+    const last = operations[operations.length - 1].seq;
+    await this.store.truncateOperations(last);
+    this.lastSeq = Math.max(this.lastSeq, last);
+    this.checkpointedSeq = last;
+    console.log(`📜 Replayed ${operations.length} operations from the write-ahead log`);
+    return operations.length;
+  }
+
+  /**
+   * Truncates the entries whose writes have all been applied, i.e. everything
+   * before the oldest operation still in flight or interrupted by an error.
+   * Returns how many were removed.
+   */
+  async checkpoint(): Promise<number> {
+    const upTo = this.inFlight.size > 0 ? Math.min(...this.inFlight) - 1 : this.lastSeq;
+    if (upTo <= this.checkpointedSeq) return 0;
+
+    const removed = await this.store.truncateOperations(upTo);
+    this.checkpointedSeq = upTo;
+    return removed;
+  }
+
+  getStats(): { lastSeq: number; checkpointedSeq: number; inFlight: number } {
+    return { lastSeq: this.lastSeq, checkpointedSeq: this.checkpointedSeq, inFlight: this.inFlight.size };
+  }
+}
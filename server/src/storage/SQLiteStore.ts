@@ -1,47 +1,79 @@
 import sqlite3 from 'sqlite3';
-import { ShoppingList, ShoppingListItem } from '../shared/types';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { Hint, HintBacklog, ItemCRDTState, LoggedOperation, ShoppingList, ShoppingListItem, StorageWrite, Tombstone } from '../shared/types';
+import { hashKey, RingRange } from '../api/partitioning';
+import { loadMigrations, migrate, Migration } from './migrations';
+import { RangeScan, StorageEngine } from './StorageEngine';
+
+/**
+ * Position of a key on the ring as stored in `ring_token` columns: 40 hex digits,
+ * so that comparing tokens as text compares them on the ring.
+ */
+function ringToken(hash: bigint): string {
+  return hash.toString(16).padStart(40, '0');
+}
 
 /** 
  * SQLite-based persistence layer for shopping lists and items. 
  */
-export class SQLiteStore {
+export class SQLiteStore implements StorageEngine {
   private db: sqlite3.Database;
+  private migrated: Promise<void>;
 
-  constructor(dbPath: string = '../database/shopping.db') {
+  constructor(dbPath: string = '../database/shopping.db', migrations: Migration[] = loadMigrations()) {
     this.db = new sqlite3.Database(dbPath);
-    this.initDatabase();
+    this.migrated = this.initDatabase(migrations);
+    // Queries wait for the migrations and fail with the same error if they did
+    this.migrated.catch(() => {});
   }
 
-  private initDatabase(): void {
+  private async initDatabase(migrations: Migration[]): Promise<void> {
     // Enforce referential integrity
     this.db.exec('PRAGMA foreign_keys = ON;');
 
-    // Read schema from external file
-    const schemaPath = join(__dirname, '../../database/schema.sql');
-    const schema = readFileSync(schemaPath, 'utf-8');
-    
-    this.db.exec(schema, (err) => {
-      if (err) {
-        console.error('Error initializing database:', err);
-      } else {
-        console.log('Database initialized successfully');
+    try {
+      const version = await migrate(this.db, migrations);
+      await this.run('BEGIN');
+      try {
+        await this.fillRingTokens();
+        await this.run('COMMIT');
+      } catch (err) {
+        await this.run('ROLLBACK');
+        throw err;
       }
-    });
+      console.log(`Database initialized at schema version ${version}`);
+    } catch (err) {
+      console.error('Error initializing database:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Resolves once the schema is up to date; rejects if the database cannot be used.
+   */
+  async ready(): Promise<void> {
+    return this.migrated;
   }
 
   async saveList(list: ShoppingList): Promise<void> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.run(
-        `INSERT OR REPLACE INTO lists (id, name, created_at, last_updated, vector_clock) 
-         VALUES (?, ?, ?, ?, ?)`,
+        // Upsert rather than INSERT OR REPLACE: replacing deletes the row, which cascades to the list's items
+        `INSERT INTO lists (id, name, created_at, last_updated, vector_clock, ring_token) 
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           created_at = excluded.created_at,
+           last_updated = excluded.last_updated,
+           vector_clock = excluded.vector_clock,
+           ring_token = excluded.ring_token`,
         [
           list.id,
           list.name,
           list.createdAt,
           list.lastUpdated,
-          JSON.stringify(list.vectorClock)
+          JSON.stringify(list.vectorClock),
+          ringToken(hashKey(list.id))
         ],
         function(err) {
           if (err) reject(err);
@@ -52,6 +84,7 @@ export class SQLiteStore {
   }
 
   async getList(listId: string): Promise<ShoppingList | null> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.get(
         'SELECT * FROM lists WHERE id = ?',
@@ -74,6 +107,7 @@ export class SQLiteStore {
   }
 
   async deleteList(listId: string): Promise<void> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.run('DELETE FROM lists WHERE id = ?', [listId], function(err) {
         if (err) reject(err);
@@ -83,11 +117,12 @@ export class SQLiteStore {
   }
 
   async saveItem(item: ShoppingListItem): Promise<void> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.run(
         `INSERT OR REPLACE INTO items 
-         (id, list_id, name, quantity, acquired, created_at, last_updated, vector_clock) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+         (id, list_id, name, quantity, acquired, created_at, last_updated, vector_clock, ring_token) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           item.id,
           item.listId,
@@ -96,7 +131,8 @@ export class SQLiteStore {
           item.acquired,
           item.createdAt,
           item.lastUpdated,
-          JSON.stringify(item.vectorClock)
+          JSON.stringify(item.vectorClock),
+          ringToken(hashKey(item.id))
         ],
         function(err) {
           if (err) reject(err);
@@ -107,6 +143,7 @@ export class SQLiteStore {
   }
 
   async getItem(itemId: string): Promise<ShoppingListItem | null> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.get(
         'SELECT * FROM items WHERE id = ?',
@@ -132,6 +169,7 @@ export class SQLiteStore {
   }
 
   async getItemsByList(listId: string): Promise<ShoppingListItem[]> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.all(
         'SELECT * FROM items WHERE list_id = ? ORDER BY created_at DESC',
@@ -156,6 +194,7 @@ export class SQLiteStore {
   }
 
   async deleteItem(itemId: string): Promise<void> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.run('DELETE FROM items WHERE id = ?', [itemId], function(err) {
         if (err) reject(err);
@@ -164,7 +203,48 @@ export class SQLiteStore {
     });
   }
 
+  /**
+   * Stores an item's CRDT state and AWORSet tags alongside its plain values.
+   */
+  async saveItemState(state: ItemCRDTState): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT OR REPLACE INTO item_crdt (id, list_id, element, add_tags, remove_tags) 
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          state.id,
+          state.listId,
+          state.element ? JSON.stringify(state.element) : null,
+          JSON.stringify(state.addTags),
+          JSON.stringify(state.removeTags)
+        ],
+        function(err) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getItemStates(): Promise<ItemCRDTState[]> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM item_crdt', (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map(row => ({
+          id: row.id,
+          listId: row.list_id,
+          element: row.element ? JSON.parse(row.element) : null,
+          addTags: JSON.parse(row.add_tags),
+          removeTags: JSON.parse(row.remove_tags)
+        })));
+      });
+    });
+  }
+
   async getAllLists(): Promise<(ShoppingList & { items: ShoppingListItem[] })[]> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.all(
         'SELECT * FROM lists ORDER BY last_updated DESC',
@@ -191,6 +271,7 @@ export class SQLiteStore {
   }
 
   async getAllItems(): Promise<ShoppingListItem[]> {
+    await this.migrated;
     return new Promise((resolve, reject) => {
       this.db.all(
         'SELECT * FROM items ORDER BY name',
@@ -213,7 +294,418 @@ export class SQLiteStore {
     });
   }
 
+  async saveHint(target: string, payload: any, createdAt: number = Date.now()): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'INSERT INTO hints (target, payload, created_at) VALUES (?, ?, ?)',
+        [target, JSON.stringify(payload), createdAt],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  async getHints(target: string, limit: number = -1): Promise<Hint[]> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT * FROM hints WHERE target = ? ORDER BY id LIMIT ?',
+        [target, limit],
+        (err, rows: any[]) => {
+          if (err) return reject(err);
+
+          const hints: Hint[] = rows.map(row => ({
+            id: row.id,
+            target: row.target,
+            payload: JSON.parse(row.payload),
+            createdAt: row.created_at
+          }));
+          resolve(hints);
+        }
+      );
+    });
+  }
+
+  async deleteHint(id: number): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM hints WHERE id = ?', [id], function(err) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async deleteHintsForTarget(target: string): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM hints WHERE target = ?', [target], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  /**
+   * Deletes hints created before the given timestamp. Returns how many were removed.
+   */
+  async deleteHintsBefore(timestamp: number): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM hints WHERE created_at < ?', [timestamp], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  /**
+   * Keeps only the newest `max` hints for a target. Returns how many were removed.
+   */
+  async trimHints(target: string, max: number): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `DELETE FROM hints WHERE target = ? AND id NOT IN (
+           SELECT id FROM hints WHERE target = ? ORDER BY id DESC LIMIT ?
+         )`,
+        [target, target, max],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  async getHintBacklog(): Promise<HintBacklog[]> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        `SELECT target, COUNT(*) AS count, MIN(created_at) AS oldest, MAX(created_at) AS newest
+         FROM hints GROUP BY target ORDER BY target`,
+        (err, rows: any[]) => {
+          if (err) return reject(err);
+
+          resolve(rows.map(row => ({
+            target: row.target,
+            count: row.count,
+            oldest: row.oldest,
+            newest: row.newest
+          })));
+        }
+      );
+    });
+  }
+
+  async saveTombstone(tombstone: Tombstone): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        `INSERT OR REPLACE INTO tombstones (kind, id, list_id, vector_clock, deleted_at, ring_token)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          tombstone.kind,
+          tombstone.id,
+          tombstone.listId ?? null,
+          JSON.stringify(tombstone.vectorClock),
+          tombstone.deletedAt,
+          ringToken(hashKey(tombstone.id))
+        ],
+        function(err) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getTombstone(kind: 'list' | 'item', id: string): Promise<Tombstone | null> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.get(
+        'SELECT * FROM tombstones WHERE kind = ? AND id = ?',
+        [kind, id],
+        (err, row: any) => {
+          if (err) return reject(err);
+          resolve(row ? this.rowToTombstone(row) : null);
+        }
+      );
+    });
+  }
+
+  async getAllTombstones(): Promise<Tombstone[]> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM tombstones ORDER BY deleted_at', (err, rows: any[]) => {
+        if (err) return reject(err);
+        resolve(rows.map(row => this.rowToTombstone(row)));
+      });
+    });
+  }
+
+  async deleteTombstone(kind: 'list' | 'item', id: string): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM tombstones WHERE kind = ? AND id = ?', [kind, id], function(err) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  /**
+   * Deletes tombstones created before the given timestamp. Returns how many were removed.
+   */
+  async deleteTombstonesBefore(timestamp: number): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM tombstones WHERE deleted_at < ?', [timestamp], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  /**
+   * Stores a concurrent version of a list or item, keyed by its canonical clock.
+   */
+  async saveSibling(kind: 'list' | 'item', id: string, clock: string, data: any): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'INSERT OR REPLACE INTO siblings (kind, id, clock, data) VALUES (?, ?, ?, ?)',
+        [kind, id, clock, JSON.stringify(data)],
+        function(err) {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getSiblings(kind: 'list' | 'item', id: string): Promise<Array<{ clock: string; data: any }>> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.all(
+        'SELECT clock, data FROM siblings WHERE kind = ? AND id = ? ORDER BY clock',
+        [kind, id],
+        (err, rows: any[]) => {
+          if (err) return reject(err);
+          resolve(rows.map(row => ({ clock: row.clock, data: JSON.parse(row.data) })));
+        }
+      );
+    });
+  }
+
+  async deleteSibling(kind: 'list' | 'item', id: string, clock: string): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM siblings WHERE kind = ? AND id = ? AND clock = ?', [kind, id, clock], function(err) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async deleteSiblings(kind: 'list' | 'item', id: string): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM siblings WHERE kind = ? AND id = ?', [kind, id], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  async saveClusterState(key: string, value: string): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('INSERT OR REPLACE INTO cluster_state (key, value) VALUES (?, ?)', [key, value], function(err) {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  }
+
+  async getClusterState(key: string): Promise<string | null> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT value FROM cluster_state WHERE key = ?', [key], (err, row: any) => {
+        if (err) reject(err);
+        else resolve(row ? row.value : null);
+      });
+    });
+  }
+
+  /**
+   * Appends an operation to the write-ahead log. Resolves with its sequence
+   * number once the row is committed.
+   */
+  async appendOperation(operation: string, vectorClock: { [nodeId: string]: number }, writes: StorageWrite[]): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run(
+        'INSERT INTO operation_log (operation, vector_clock, writes, logged_at) VALUES (?, ?, ?, ?)',
+        [operation, JSON.stringify(vectorClock), JSON.stringify(writes), Date.now()],
+        function(err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  async getOperations(): Promise<LoggedOperation[]> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT * FROM operation_log ORDER BY seq', (err, rows: any[]) => {
+        if (err) return reject(err);
+
+        resolve(rows.map(row => ({
+          seq: row.seq,
+          operation: row.operation,
+          vectorClock: JSON.parse(row.vector_clock),
+          writes: JSON.parse(row.writes),
+          loggedAt: row.logged_at
+        })));
+      });
+    });
+  }
+
+  /**
+   * Deletes log entries up to and including `seq`. Returns how many were removed.
+   */
+  async truncateOperations(seq: number): Promise<number> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM operation_log WHERE seq <= ?', [seq], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
+  /**
+   * Reads the range through the `ring_token` indexes.
+   */
+  async scanRange(range: RingRange): Promise<RangeScan> {
+    const where = range.start < range.end ? 'ring_token > ? AND ring_token <= ?' : '(ring_token > ? OR ring_token <= ?)';
+    const bounds = [ringToken(range.start), ringToken(range.end)];
+    const select = (table: string) => this.query(`SELECT * FROM ${table} WHERE ${where} ORDER BY ring_token`, bounds);
+
+    return {
+      lists: (await select('lists')).map(row => ({
+        id: row.id,
+        name: row.name,
+        createdAt: row.created_at,
+        lastUpdated: row.last_updated,
+        vectorClock: JSON.parse(row.vector_clock || '{}')
+      })),
+      items: (await select('items')).map(row => ({
+        id: row.id,
+        listId: row.list_id,
+        name: row.name,
+        quantity: row.quantity,
+        acquired: row.acquired,
+        createdAt: row.created_at,
+        lastUpdated: row.last_updated,
+        vectorClock: JSON.parse(row.vector_clock || '{}')
+      })),
+      tombstones: (await select('tombstones')).map(row => this.rowToTombstone(row))
+    };
+  }
+
+  /**
+   * Gives rows saved before the ring tokens were added, or restored from a
+   * snapshot taken before then, their token. Callers run it in a transaction.
+   */
+  private async fillRingTokens(): Promise<void> {
+    for (const table of ['lists', 'items', 'tombstones']) {
+      const rows = await this.all(`SELECT rowid, id FROM ${table} WHERE ring_token IS NULL`);
+      for (const row of rows) {
+        await this.run(`UPDATE ${table} SET ring_token = ? WHERE rowid = ?`, [ringToken(hashKey(row.id)), row.rowid]);
+      }
+      if (rows.length > 0) console.log(`Filled in ring tokens for ${rows.length} rows of ${table}`);
+    }
+  }
+
+  private async query(sql: string, params: any[] = []): Promise<any[]> {
+    await this.migrated;
+    return this.all(sql, params);
+  }
+
+  // Unlike the public methods these do not wait for the migrations, which use them
+
+  private run(sql: string, params: any[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, err => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private all(sql: string, params: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all(sql, params, (err, rows: any[]) => (err ? reject(err) : resolve(rows)));
+    });
+  }
+
+  /**
+   * Writes a consistent copy of the whole database to `file` while it stays in use.
+   */
+  async backup(file: string): Promise<void> {
+    await this.migrated;
+    return new Promise((resolve, reject) => {
+      this.db.run('VACUUM INTO ?', [file], err => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Replaces the contents of `tables` with those of the same tables in the
+   * database at `file`, in one transaction. Both must be at the same schema
+   * version; tables are filled in the given order, so parents come first.
+   */
+  async replaceTables(file: string, tables: string[]): Promise<void> {
+    await this.migrated;
+    const exec = (sql: string, params: any[] = []) => new Promise<void>((resolve, reject) => {
+      this.db.run(sql, params, err => (err ? reject(err) : resolve()));
+    });
+
+    await exec('ATTACH DATABASE ? AS source', [file]);
+    try {
+      await exec('BEGIN');
+      try {
+        for (const table of [...tables].reverse()) {
+          await exec(`DELETE FROM main.${table}`);
+        }
+        for (const table of tables) {
+          await exec(`INSERT INTO main.${table} SELECT * FROM source.${table}`);
+        }
+        await this.fillRingTokens();
+        await exec('COMMIT');
+      } catch (err) {
+        await exec('ROLLBACK');
+        throw err;
+      }
+    } finally {
+      await exec('DETACH DATABASE source');
+    }
+  }
+
+  private rowToTombstone(row: any): Tombstone {
+    return {
+      kind: row.kind,
+      id: row.id,
+      ...(row.list_id ? { listId: row.list_id } : {}),
+      vectorClock: JSON.parse(row.vector_clock || '{}'),
+      deletedAt: row.deleted_at
+    };
+  }
+
   close(): void {
-    this.db.close();
+    // Let migrations still running finish rather than fail on a closed handle
+    this.migrated.catch(() => {}).then(() => this.db.close());
   }
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ShoppingList, ShoppingListItem } from '../shared/types';
-import { SQLiteStore } from './SQLiteStore';
-import { AWORSet } from '../crdt/AWORSet';
+import { ShoppingList, ShoppingListItem, StorageWrite } from '../shared/types';
+import { StorageEngine } from './StorageEngine';
+import { OperationLog } from './OperationLog';
+import { AWORSet, AWORSetDelta, AWORSetDeltaListener } from '../crdt/AWORSet';
 import { CRDTShoppingListItem } from '../crdt/CRDTShoppingListItem';
 import { LWWRegister } from '../crdt/LWWRegister';
 import { PNCounter } from '../crdt/PNCounter';  
@@ -10,34 +11,55 @@ import { VectorClock } from '../crdt/VectorClock';
 
 /**
  * Manages shopping lists and items using CRDTs for conflict-free replication.
- * Handles persistence to SQLite and synchronization with other nodes.
+ * Handles persistence through the node's storage engine and synchronization with other nodes.
  */
 export class ShoppingListManager {
   private lists: Map<string, ShoppingList> = new Map();
   private items: AWORSet;
   private nodeId: string;
-  private store: SQLiteStore;
+  private store: StorageEngine;
+  private log: OperationLog;
   private isInitialized: boolean = false;
 
-  constructor(nodeId: string = uuidv4(), store?: SQLiteStore) {
+  constructor(nodeId: string, store: StorageEngine) {
     this.nodeId = nodeId;
-    this.store = store || new SQLiteStore();
+    this.store = store;
+    this.log = new OperationLog(this.store);
     this.items = new AWORSet(nodeId);
   }
 
   async initialize(): Promise<void> {
     if (!this.isInitialized) {
-      await this.loadFromStorage();
+      // Outside loadFromStorage's error handling: a database that cannot be migrated stops the node
+      await this.store.ready();
+      await this.reload();
       this.isInitialized = true;
     }
   }
 
+  /**
+   * Rebuilds memory from storage, e.g. after a snapshot replaced the tables.
+   */
+  async reload(): Promise<void> {
+    // Finish the operations a crash interrupted before rebuilding memory from the tables
+    await this.log.replay(write => this.applyWrite(write));
+    await this.loadFromStorage();
+  }
+
+  /**
+   * Rebuilds the lists and the items AWORSet from storage. Items restore their
+   * persisted CRDT state and tags, so a restarted node holds exactly the state it
+   * had before; only items stored without CRDT state are rebuilt from plain values.
+   */
   private async loadFromStorage(): Promise<void> {
     try {
       const listsWithItems = await this.store.getAllLists();
+      const states = new Map((await this.store.getItemStates()).map(state => [state.id, state]));
       
       this.lists.clear();
-      this.items = new AWORSet(this.nodeId);
+
+      const elements: [string, any][] = [];
+      const withoutState: ShoppingListItem[] = [];
       
       listsWithItems.forEach(listWithItems => {
         const list: ShoppingList = {
@@ -49,12 +71,24 @@ export class ShoppingListManager {
         };
         this.lists.set(listWithItems.id, list);
 
-        // Convert each stored item to CRDT item and add to AWORSet
         listWithItems.items.forEach(item => {
-          const crdtItem = dbToCRDT(item, this.nodeId);
-          this.items.add(crdtItem);
+          const state = states.get(item.id);
+          if (state?.element) elements.push([item.id, state.element]);
+          else withoutState.push(item);
         });
       });
+
+      this.items.setState({
+        elements,
+        addSet: [...states.values()].map(state => [state.id, state.addTags]),
+        removeSet: [...states.values()].filter(state => state.removeTags.length > 0).map(state => [state.id, state.removeTags]),
+        nodeId: this.nodeId
+      });
+
+      // Items stored before CRDT state was persisted
+      withoutState.forEach(item => {
+        this.items.add(dbToCRDT(item, this.nodeId));
+      });
       
       console.log(`✅ Loaded ${listsWithItems.length} lists and ${this.items.getAll().length} items from storage`);
     } catch (error) {
@@ -89,7 +123,7 @@ export class ShoppingListManager {
     };
 
     this.lists.set(listId, list);
-    await this.store.saveList(list);
+    await this.commit('createList', list.vectorClock, [{ type: 'saveList', list }]);
     
     return { ...list, items: [] };
   }
@@ -144,8 +178,7 @@ export class ShoppingListManager {
     this.incrementListClock(list);
 
     try {
-      await this.store.saveList(list);
-      await this.store.saveItem(crdtToDB(crdtItem));
+      await this.commit('addItem', crdtItem.vectorClock, [{ type: 'saveList', list }, ...this.itemWrites(crdtItem)]);
       return crdtToDB(crdtItem);
     } catch (error) {
       console.error(`❌ Error adding item to list ${listId}:`, error);
@@ -173,7 +206,7 @@ export class ShoppingListManager {
     }
 
     // Save to storage
-    await this.store.saveList(existingList);
+    await this.commit('updateList', existingList.vectorClock, [{ type: 'saveList', list: existingList }]);
 
     return existingList;
   }
@@ -205,17 +238,177 @@ export class ShoppingListManager {
     if (!crdtItem) return null;
     
     // Update list timestamp and clock
-    const list = this.lists.get(crdtItem.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-    
-    await this.store.saveItem(crdtToDB(crdtItem));
+    await this.commit('updateItem', crdtItem.vectorClock, [...this.touchList(crdtItem.listId), ...this.itemWrites(crdtItem)]);
+    return crdtToDB(crdtItem);
+  }
+
+  /**
+   * Adopts a version of an item replicated from another node. Field values,
+   * timestamp and vector clock are taken as-is: applying another node's write is
+   * not a new local event, so neither the item's nor the list's clock is bumped.
+   */
+  async applyRemoteItem(item: ShoppingListItem): Promise<ShoppingListItem | null> {
+    const crdtItem = this.items.get(item.id);
+    if (!crdtItem) return null;
+
+    // Not a local change: nothing to record as this node's delta
+    this.items.adoptField(item.id, 'name', item.name);
+    this.items.adoptField(item.id, 'quantity', item.quantity);
+    this.items.adoptField(item.id, 'acquired', item.acquired);
+
+    const vectorClock = typeof item.vectorClock === 'string' ? JSON.parse(item.vectorClock) : item.vectorClock;
+    crdtItem.vectorClock = { ...(vectorClock || {}) };
+    crdtItem.lastUpdated = item.lastUpdated;
+
+    await this.commit('applyRemoteItem', crdtItem.vectorClock, this.itemWrites(crdtItem));
     return crdtToDB(crdtItem);
   }
 
+  /**
+   * AWORSet state of a single item, replicated alongside its plain values.
+   */
+  getItemState(itemId: string): any | null {
+    return this.items.getItemState(itemId);
+  }
+
+  /**
+   * Merges an item replicated with its AWORSet state (`crdt`). Counters keep
+   * every node's contributions, so concurrent increments add up instead of
+   * overwriting each other. The plain fields carry the version being replicated,
+   * so their vector clock and timestamp take precedence over the embedded ones.
+   */
+  async mergeItemState(item: ShoppingListItem & { crdt: any }): Promise<ShoppingListItem | null> {
+    if (!this.lists.has(item.listId)) return null;
+
+    const incoming = new AWORSet(this.nodeId);
+    incoming.setState(item.crdt);
+    const element = incoming.get(item.id);
+    if (!element) return null;
+
+    const vectorClock = typeof item.vectorClock === 'string' ? JSON.parse(item.vectorClock) : item.vectorClock;
+    element.vectorClock = { ...(vectorClock || element.vectorClock) };
+    element.lastUpdated = item.lastUpdated ?? element.lastUpdated;
+
+    this.items.merge(incoming);
+
+    const merged = this.items.get(item.id);
+    if (!merged) return null;
+
+    await this.commit('mergeItemState', merged.vectorClock, this.itemWrites(merged));
+    return crdtToDB(merged);
+  }
+
+  /**
+   * Registers a listener for the AWORSet delta of every local item mutation.
+   */
+  onItemDelta(listener: AWORSetDeltaListener): void {
+    this.items.onDelta(listener);
+  }
+
+  /**
+   * Merges a batch of AWORSet deltas for one item. As with mergeItemState, the
+   * plain fields' vector clock and timestamp describe the version being replicated.
+   * Returns false when the deltas cannot be applied on their own (unknown list or
+   * item), in which case the item's full state is needed.
+   */
+  async mergeItemDeltas(item: ShoppingListItem, deltas: AWORSetDelta[]): Promise<boolean> {
+    if (!this.lists.has(item.listId)) return false;
+
+    let complete = true;
+    for (const delta of deltas) {
+      complete = this.items.mergeDelta(delta) && complete;
+    }
+
+    const merged = this.items.get(item.id);
+    if (merged) {
+      const vectorClock = typeof item.vectorClock === 'string' ? JSON.parse(item.vectorClock) : item.vectorClock;
+      for (const [nodeId, counter] of Object.entries<number>(vectorClock || {})) {
+        merged.vectorClock[nodeId] = Math.max(merged.vectorClock[nodeId] || 0, counter);
+      }
+      merged.lastUpdated = Math.max(merged.lastUpdated, item.lastUpdated || 0);
+      await this.commit('mergeItemDeltas', merged.vectorClock, this.itemWrites(merged));
+    } else if (complete && this.items.getEntry(item.id).addTags.length > 0) {
+      // Removed by the deltas; keep the remove tags
+      await this.commit('mergeItemDeltas', this.itemClock(item.id), [{ type: 'deleteItem', itemId: item.id }, ...this.itemStateWrites(item.id)]);
+    } else {
+      complete = false;
+    }
+    return complete;
+  }
+
+  /**
+   * Logs an operation's writes to the write-ahead log, then applies them to
+   * storage. Callers acknowledge the operation only after this resolves.
+   */
+  private async commit(operation: string, vectorClock: { [nodeId: string]: number }, writes: StorageWrite[]): Promise<void> {
+    await this.log.record(operation, vectorClock, writes, write => this.applyWrite(write));
+  }
+
+  private async applyWrite(write: StorageWrite): Promise<void> {
+    switch (write.type) {
+      case 'saveList':
+        return this.store.saveList(write.list);
+      case 'deleteList':
+        return this.store.deleteList(write.listId);
+      case 'saveItem':
+        return this.store.saveItem(write.item);
+      case 'deleteItem':
+        return this.store.deleteItem(write.itemId);
+      case 'saveItemState':
+        return this.store.saveItemState(write.state);
+      case 'saveTombstone':
+        return this.store.saveTombstone(write.tombstone);
+      case 'saveSibling':
+        return this.store.saveSibling(write.kind, write.id, write.clock, write.data);
+      case 'deleteSiblings':
+        await this.store.deleteSiblings(write.kind, write.id);
+        return;
+    }
+  }
+
+  /**
+   * Logs and applies replication writes that change no list or item held here,
+   * e.g. the tombstone of a key this node never had, as one operation.
+   */
+  async recordWrites(operation: string, vectorClock: { [nodeId: string]: number }, writes: StorageWrite[]): Promise<void> {
+    await this.commit(operation, vectorClock, writes);
+  }
+
+  /**
+   * Writes that save an item's plain values together with its CRDT state and tags.
+   */
+  private itemWrites(crdtItem: CRDTShoppingListItem): StorageWrite[] {
+    return [{ type: 'saveItem', item: crdtToDB(crdtItem) }, ...this.itemStateWrites(crdtItem.id)];
+  }
+
+  /**
+   * Write that persists the AWORSet entry of an item. Removed items keep their
+   * entry so their remove tags survive a restart.
+   */
+  private itemStateWrites(itemId: string): StorageWrite[] {
+    const entry = this.items.getEntry(itemId);
+    if (!entry.element) return [];
+    return [{ type: 'saveItemState', state: { id: itemId, listId: entry.element.listId, ...entry } }];
+  }
+
+  /**
+   * Vector clock of an item, including one that has been removed.
+   */
+  private itemClock(itemId: string): { [nodeId: string]: number } {
+    return this.items.getEntry(itemId).element?.vectorClock ?? {};
+  }
+
+  /**
+   * Bumps a list's timestamp and clock for a change to one of its items.
+   */
+  private touchList(listId: string): StorageWrite[] {
+    const list = this.lists.get(listId);
+    if (!list) return [];
+    list.lastUpdated = Date.now();
+    this.incrementListClock(list);
+    return [{ type: 'saveList', list }];
+  }
+
   private mapSimpleFieldToCRDTField(field: string): keyof CRDTShoppingListItem | null {
     const mapping: Record<string, keyof CRDTShoppingListItem> = {
       'name': 'name',
@@ -237,14 +430,7 @@ export class ShoppingListManager {
     if (!crdtItem) return null;
     
     // Update list timestamp and clock
-    const list = this.lists.get(crdtItem.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-    
-    await this.store.saveItem(crdtToDB(crdtItem));
+    await this.commit('updateItemName', crdtItem.vectorClock, [...this.touchList(crdtItem.listId), ...this.itemWrites(crdtItem)]);
     return crdtToDB(crdtItem);
   }
 
@@ -263,14 +449,7 @@ export class ShoppingListManager {
     if (!crdtItem) return null;
     
     // Update list timestamp and clock
-    const list = this.lists.get(crdtItem.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-    
-    await this.store.saveItem(crdtToDB(crdtItem));
+    await this.commit('updateItemQuantity', crdtItem.vectorClock, [...this.touchList(crdtItem.listId), ...this.itemWrites(crdtItem)]);
     return crdtToDB(crdtItem);
   }
 
@@ -297,14 +476,7 @@ export class ShoppingListManager {
     if (!updatedItem) return null;
 
     // Update list timestamp and clock
-    const list = this.lists.get(updatedItem.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-
-    await this.store.saveItem(crdtToDB(updatedItem));
+    await this.commit('setItemCheck', updatedItem.vectorClock, [...this.touchList(updatedItem.listId), ...this.itemWrites(updatedItem)]);
     return crdtToDB(updatedItem);
   }
 
@@ -326,18 +498,15 @@ export class ShoppingListManager {
     if (!updatedItem) return null;
 
     // Update list timestamp and clock
-    const list = this.lists.get(updatedItem.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-
-    await this.store.saveItem(crdtToDB(updatedItem));
+    await this.commit('toggleItemCheck', updatedItem.vectorClock, [...this.touchList(updatedItem.listId), ...this.itemWrites(updatedItem)]);
     return crdtToDB(updatedItem);
   }
 
-  async deleteList(listId: string): Promise<boolean> {
+  /**
+   * Deletes a list and its items. `writes` (tombstones, say) are logged and
+   * applied as part of the same operation.
+   */
+  async deleteList(listId: string, writes: StorageWrite[] = []): Promise<boolean> {
     const list = this.lists.get(listId);
     if (!list) return false;
 
@@ -352,7 +521,11 @@ export class ShoppingListManager {
       this.lists.delete(listId);
       
       // Remove from database
-      await this.store.deleteList(listId);
+      await this.commit('deleteList', list.vectorClock, [
+        ...writes,
+        { type: 'deleteList', listId },
+        ...listItems.flatMap(item => this.itemStateWrites(item.id))
+      ]);
       
       return true;
     } catch (error) {
@@ -361,24 +534,24 @@ export class ShoppingListManager {
     }
   }
 
-  async removeItemFromList(itemId: string): Promise<boolean> {
+  /**
+   * Removes an item; as with deleteList, `writes` go into the same logged operation.
+   */
+  async removeItemFromList(itemId: string, extraWrites: StorageWrite[] = []): Promise<boolean> {
     const success = this.items.remove(itemId);
     if (!success) return false;
 
     // Get item before removal to get listId
     const item = this.items.get(itemId); // Note: this might return undefined if already removed
+    const writes: StorageWrite[] = [...extraWrites];
     if (item) {
       // Update list timestamp and clock
-      const list = this.lists.get(item.listId);
-      if (list) {
-        list.lastUpdated = Date.now();
-        this.incrementListClock(list);
-        await this.store.saveList(list);
-      }
+      writes.push(...this.touchList(item.listId));
     }
 
-    // Remove from database
-    await this.store.deleteItem(itemId);
+    // Remove from database, keeping the remove tags
+    writes.push({ type: 'deleteItem', itemId }, ...this.itemStateWrites(itemId));
+    await this.commit('removeItem', this.itemClock(itemId), writes);
     return true;
   }
 
@@ -485,12 +658,12 @@ export class ShoppingListManager {
     if (existingList) {
       if (listData.lastUpdated > existingList.lastUpdated) {
         this.lists.set(listData.id, listData);
-        await this.store.saveList(listData);
+        await this.commit('syncCreateList', listData.vectorClock || {}, [{ type: 'saveList', list: listData }]);
         console.log(`[${this.nodeId}] Updated list from sync: ${listData.name}`);
       }
     } else {
       this.lists.set(listData.id, listData);
-      await this.store.saveList(listData);
+      await this.commit('syncCreateList', listData.vectorClock || {}, [{ type: 'saveList', list: listData }]);
       console.log(`[${this.nodeId}] Created list from sync: ${listData.name}`);
     }
   }
@@ -518,15 +691,7 @@ export class ShoppingListManager {
     console.log(`[${this.nodeId}] Added item from sync: ${itemData.name}, ID: ${itemData.id}`);
     
     // Update list timestamp and clock
-    const list = this.lists.get(itemData.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-    
-    // Save item to database
-    await this.store.saveItem(crdtToDB(crdtItem));
+    await this.commit('syncAddItem', crdtItem.vectorClock, [...this.touchList(itemData.listId), ...this.itemWrites(crdtItem)]);
   }
 
   private async handleUpdateItemUpdate(itemData: any): Promise<void> {
@@ -548,21 +713,10 @@ export class ShoppingListManager {
     
     console.log(`[${this.nodeId}] Updated item from sync: ${itemData.id}`);
     
-    // Update list timestamp and clock
-    const item = this.items.get(itemData.id);
-    if (item && item.listId) {
-      const list = this.lists.get(item.listId);
-      if (list) {
-        list.lastUpdated = Date.now();
-        this.incrementListClock(list);
-        await this.store.saveList(list);
-      }
-    }
-    
-    // Save to database
+    // Update list timestamp and clock and save to database
     const updatedItem = this.items.get(itemData.id);
     if (updatedItem) {
-      await this.store.saveItem(crdtToDB(updatedItem));
+      await this.commit('syncUpdateItem', updatedItem.vectorClock, [...this.touchList(updatedItem.listId), ...this.itemWrites(updatedItem)]);
     }
   }
 
@@ -605,17 +759,10 @@ export class ShoppingListManager {
       this.items.updateField(itemData.id, 'acquired', finalAcquired);
     }
     
-    // Update list timestamp and clock
-    const list = this.lists.get(crdtItem.listId);
-    if (list) {
-      list.lastUpdated = Date.now();
-      this.incrementListClock(list);
-      await this.store.saveList(list);
-    }
-    
+    // Update list timestamp and clock and save to database
     const updatedItem = this.items.get(itemData.id);
     if (updatedItem) {
-      await this.store.saveItem(crdtToDB(updatedItem));
+      await this.commit('syncToggleCheck', updatedItem.vectorClock, [...this.touchList(updatedItem.listId), ...this.itemWrites(updatedItem)]);
     }
   }
 
@@ -666,20 +813,10 @@ export class ShoppingListManager {
       this.items.updateField(itemData.id, 'acquired', finalAcquired);
     }
     
-    // Update list timestamp and clock
-    const item = this.items.get(itemData.id);
-    if (item && item.listId) {
-      const list = this.lists.get(item.listId);
-      if (list) {
-        list.lastUpdated = Date.now();
-        this.incrementListClock(list);
-        await this.store.saveList(list);
-      }
-    }
-    
+    // Update list timestamp and clock and save to database
     const updatedItem = this.items.get(itemData.id);
     if (updatedItem) {
-      await this.store.saveItem(crdtToDB(updatedItem));
+      await this.commit('syncUpdateQuantity', updatedItem.vectorClock, [...this.touchList(updatedItem.listId), ...this.itemWrites(updatedItem)]);
     }
   }
 
@@ -687,7 +824,7 @@ export class ShoppingListManager {
     const success = this.items.remove(itemId);
     if (success) {
       console.log(`[${this.nodeId}] Removed item from sync: ${itemId}`);
-      await this.store.deleteItem(itemId);
+      await this.commit('syncRemoveItem', this.itemClock(itemId), [{ type: 'deleteItem', itemId }, ...this.itemStateWrites(itemId)]);
     } else {
       console.log(`[${this.nodeId}] Item ${itemId} not found or already removed`);
     }
@@ -711,7 +848,10 @@ export class ShoppingListManager {
       this.lists.delete(listId);
       
       // Remove from database
-      await this.store.deleteList(listId);
+      await this.commit('syncDeleteList', list.vectorClock, [
+        { type: 'deleteList', listId },
+        ...listItems.flatMap(item => this.itemStateWrites(item.id))
+      ]);
       
       console.log(`[${this.nodeId}] Deleted list from sync: ${list.name} (${listId})`);
     } catch (error) {
@@ -736,13 +876,11 @@ export class ShoppingListManager {
 
   private async persistAllChanges(): Promise<void> {
     // Save all lists
-    for (const list of this.lists.values()) {
-      await this.store.saveList(list);
-    }
+    const writes: StorageWrite[] = [...this.lists.values()].map(list => ({ type: 'saveList' as const, list }));
 
     // Save all items (convert CRDT items to simple items for storage)
     for (const crdtItem of this.items.getAll()) {
-      await this.store.saveItem(crdtToDB(crdtItem));
+      writes.push(...this.itemWrites(crdtItem));
     }
 
     // Remove items that are no longer in the CRDT set
@@ -751,9 +889,12 @@ export class ShoppingListManager {
     
     for (const storedItem of allStoredItems) {
       if (!currentItemIds.has(storedItem.id)) {
-        await this.store.deleteItem(storedItem.id);
+        writes.push({ type: 'deleteItem', itemId: storedItem.id }, ...this.itemStateWrites(storedItem.id));
       }
     }
+
+    // Spans every list and item, so there is no single clock to log
+    await this.commit('syncPersistAll', {}, writes);
   }
 
   // Helper to convert JSON data to CRDTShoppingListItem
@@ -784,6 +925,13 @@ export class ShoppingListManager {
     };
   }
 
+  /**
+   * Truncates the write-ahead log up to the operations fully applied to storage.
+   */
+  async checkpoint(): Promise<number> {
+    return this.log.checkpoint();
+  }
+
   async close(): Promise<void> {
     this.store.close();
   }
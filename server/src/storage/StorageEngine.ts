@@ -0,0 +1,83 @@
+import { Hint, HintBacklog, ItemCRDTState, LoggedOperation, ShoppingList, ShoppingListItem, StorageWrite, Tombstone } from '../shared/types';
+import { RingRange } from '../api/partitioning';
+
+/**
+ * Lists, items and tombstones whose key hash falls in a ring range.
+ */
+export interface RangeScan {
+  lists: ShoppingList[];
+  items: ShoppingListItem[];
+  tombstones: Tombstone[];
+}
+
+/**
+ * Persistence a storage node runs on: its lists and items, their CRDT metadata,
+ * tombstones and siblings, hinted handoff, the operation log and node-local
+ * cluster state. Engines behave like the SQLite schema they were modelled on:
+ * deleting a list deletes its items but not their CRDT state, an item needs its
+ * list to exist, and hint ids and log sequence numbers are never reused.
+ */
+export interface StorageEngine {
+  /**
+   * Resolves once the engine can serve reads and writes; rejects if it cannot be used.
+   */
+  ready(): Promise<void>;
+
+  saveList(list: ShoppingList): Promise<void>;
+  getList(listId: string): Promise<ShoppingList | null>;
+  deleteList(listId: string): Promise<void>;
+  /** Lists with their items, most recently updated first. */
+  getAllLists(): Promise<(ShoppingList & { items: ShoppingListItem[] })[]>;
+
+  saveItem(item: ShoppingListItem): Promise<void>;
+  getItem(itemId: string): Promise<ShoppingListItem | null>;
+  /** Items of a list, newest first. */
+  getItemsByList(listId: string): Promise<ShoppingListItem[]>;
+  /** Every item, by name. */
+  getAllItems(): Promise<ShoppingListItem[]>;
+  deleteItem(itemId: string): Promise<void>;
+
+  saveItemState(state: ItemCRDTState): Promise<void>;
+  getItemStates(): Promise<ItemCRDTState[]>;
+
+  /** Resolves with the hint's id. */
+  saveHint(target: string, payload: any, createdAt?: number): Promise<number>;
+  /** Hints for a target, oldest first; a negative limit means all of them. */
+  getHints(target: string, limit?: number): Promise<Hint[]>;
+  deleteHint(id: number): Promise<void>;
+  deleteHintsForTarget(target: string): Promise<number>;
+  deleteHintsBefore(timestamp: number): Promise<number>;
+  /** Keeps only the newest `max` hints for a target. Returns how many were removed. */
+  trimHints(target: string, max: number): Promise<number>;
+  getHintBacklog(): Promise<HintBacklog[]>;
+
+  saveTombstone(tombstone: Tombstone): Promise<void>;
+  getTombstone(kind: 'list' | 'item', id: string): Promise<Tombstone | null>;
+  /** Tombstones, oldest deletion first. */
+  getAllTombstones(): Promise<Tombstone[]>;
+  deleteTombstone(kind: 'list' | 'item', id: string): Promise<void>;
+  deleteTombstonesBefore(timestamp: number): Promise<number>;
+
+  saveSibling(kind: 'list' | 'item', id: string, clock: string, data: any): Promise<void>;
+  /** Siblings of a list or item, by canonical clock. */
+  getSiblings(kind: 'list' | 'item', id: string): Promise<Array<{ clock: string; data: any }>>;
+  deleteSibling(kind: 'list' | 'item', id: string, clock: string): Promise<void>;
+  deleteSiblings(kind: 'list' | 'item', id: string): Promise<number>;
+
+  saveClusterState(key: string, value: string): Promise<void>;
+  getClusterState(key: string): Promise<string | null>;
+
+  /** Resolves with the operation's sequence number once it is durable. */
+  appendOperation(operation: string, vectorClock: { [nodeId: string]: number }, writes: StorageWrite[]): Promise<number>;
+  getOperations(): Promise<LoggedOperation[]>;
+  /** Deletes log entries up to and including `seq`. Returns how many were removed. */
+  truncateOperations(seq: number): Promise<number>;
+
+  /**
+   * Lists, items and tombstones whose id hashes into `range`, the unit anti-entropy
+   * and rebalancing work in.
+   */
+  scanRange(range: RingRange): Promise<RangeScan>;
+
+  close(): void;
+}
@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import cloudConfig from '../api/cloudConfig.json';
+import { NodeAddress } from '../api/addresses';
+import { LogStructuredEngine } from './LogStructuredEngine';
+import { MemoryEngine } from './MemoryEngine';
+import { SQLiteStore } from './SQLiteStore';
+import { StorageEngine } from './StorageEngine';
+
+export const STORAGE_ENGINES = ['sqlite', 'log', 'memory'] as const;
+
+export type StorageEngineKind = typeof STORAGE_ENGINES[number];
+
+/**
+ * Data file of a storage node under `database/servers/`, created on first use.
+ */
+export function nodeDataFile(nodeId: string, extension: string): string {
+  const dbFolder = path.join(__dirname, '../../database/servers');
+  if (!fs.existsSync(dbFolder)) fs.mkdirSync(dbFolder, { recursive: true });
+  return path.join(dbFolder, `${nodeId}.${extension}`);
+}
+
+/**
+ * Checks an engine name from config or the command line.
+ */
+export function parseEngine(name: string): StorageEngineKind {
+  const kind = STORAGE_ENGINES.find(engine => engine === name);
+  if (!kind) throw new Error(`Unknown storage engine "${name}"; use one of ${STORAGE_ENGINES.join(', ')}`);
+  return kind;
+}
+
+/**
+ * The engine configured for a node: its entry in `storage.nodeEngines`, else `storage.engine`.
+ */
+export function engineFor(node: NodeAddress): StorageEngineKind {
+  const nodeEngines: Record<string, string> = cloudConfig.storage.nodeEngines;
+  return parseEngine(nodeEngines[node] ?? cloudConfig.storage.engine);
+}
+
+/**
+ * Opens a node's storage. SQLite keeps `<nodeId>.db` and the log-structured
+ * engine `<nodeId>.log`; the in-memory engine starts empty every time.
+ */
+export function createStorageEngine(kind: StorageEngineKind, nodeId: string): StorageEngine {
+  switch (kind) {
+    case 'sqlite':
+      return new SQLiteStore(nodeDataFile(nodeId, 'db'));
+    case 'log':
+      return new LogStructuredEngine(nodeDataFile(nodeId, 'log'));
+    case 'memory':
+      return new MemoryEngine();
+  }
+}
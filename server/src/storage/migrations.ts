@@ -0,0 +1,109 @@
+import sqlite3 from 'sqlite3';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * One forward-only schema change, read from `database/migrations/NNN_description.sql`.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const MIGRATIONS_DIR = join(__dirname, '../../database/migrations');
+
+/**
+ * Raised when a database cannot be brought to this build's schema, e.g. because
+ * it was written by a newer build.
+ */
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/**
+ * Reads the migrations in a directory in version order. Versions start at 1
+ * and must not repeat or leave gaps.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations = readdirSync(dir)
+    .filter(file => file.endsWith('.sql'))
+    .map(file => {
+      const match = /^(\d+)_(.+)\.sql$/.exec(file);
+      if (!match) throw new SchemaVersionError(`Migration file ${file} is not named NNN_description.sql`);
+      return { version: Number(match[1]), name: match[2], sql: readFileSync(join(dir, file), 'utf-8') };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, idx) => {
+    if (migration.version !== idx + 1) {
+      throw new SchemaVersionError(`Expected migration ${idx + 1}, found ${migration.version}_${migration.name}`);
+    }
+  });
+  return migrations;
+}
+
+/**
+ * Applies the migrations the database has not seen yet, each in its own
+ * transaction together with its `schema_version` row. A database at a version
+ * beyond the last known migration is refused rather than used with a schema
+ * this build does not understand. Returns the version the database is at.
+ */
+export async function migrate(db: sqlite3.Database, migrations: Migration[]): Promise<number> {
+  await exec(db, `CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  )`);
+
+  const current = await schemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (current > latest) {
+    throw new SchemaVersionError(
+      `Database is at schema version ${current} but this build only knows up to ${latest}; refusing to downgrade it`
+    );
+  }
+
+  for (const migration of migrations.filter(m => m.version > current)) {
+    await exec(db, 'BEGIN');
+    try {
+      await exec(db, migration.sql);
+      await run(db, 'INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)', [
+        migration.version,
+        migration.name,
+        Date.now()
+      ]);
+      await exec(db, 'COMMIT');
+    } catch (err) {
+      await exec(db, 'ROLLBACK');
+      throw new SchemaVersionError(`Migration ${migration.version}_${migration.name} failed: ${(err as Error).message}`);
+    }
+    console.log(`🗄️ Applied migration ${migration.version}_${migration.name}`);
+  }
+
+  return Math.max(current, latest);
+}
+
+export async function schemaVersion(db: sqlite3.Database): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.get('SELECT MAX(version) AS version FROM schema_version', (err, row: any) => {
+      if (err) reject(err);
+      else resolve(row?.version ?? 0);
+    });
+  });
+}
+
+function exec(db: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.exec(sql, err => (err ? reject(err) : resolve()));
+  });
+}
+
+function run(db: sqlite3.Database, sql: string, params: any[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    db.run(sql, params, err => (err ? reject(err) : resolve()));
+  });
+}
@@ -0,0 +1,153 @@
+import sqlite3 from 'sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadMigrations, migrate, schemaVersion, SchemaVersionError } from './migrations';
+import { SQLiteStore } from './SQLiteStore';
+import { StorageEngine } from './StorageEngine';
+
+/**
+ * What a snapshot holds, written next to its database copy as `manifest.json`.
+ */
+export interface SnapshotManifest {
+  id: string;
+  nodeId: string;
+  node: string; // Address of the node when the snapshot was taken
+  createdAt: number;
+  schemaVersion: number;
+  rows: Record<string, number>;
+}
+
+export const SNAPSHOTS_DIR = path.join(__dirname, '../../database/snapshots');
+
+/**
+ * Tables a restore brings back, parents first: the data, its CRDT metadata,
+ * hinted-handoff state and the operation log. The ring in `cluster_state`
+ * belongs to the live cluster and is left alone.
+ */
+export const SNAPSHOT_TABLES = ['lists', 'items', 'item_crdt', 'hints', 'tombstones', 'siblings', 'operation_log'];
+
+const DB_FILE = 'snapshot.db';
+const MANIFEST_FILE = 'manifest.json';
+
+export type SnapshotErrorCode = 'NOT_FOUND' | 'WRONG_NODE' | 'INCOMPATIBLE' | 'BUSY' | 'UNSUPPORTED';
+
+export class SnapshotError extends Error {
+  constructor(message: string, public readonly code: SnapshotErrorCode) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+/**
+ * Snapshots are SQLite database copies, so only nodes on the SQLite engine take and restore them.
+ */
+function sqliteStore(store: StorageEngine): SQLiteStore {
+  if (!(store instanceof SQLiteStore)) {
+    throw new SnapshotError('Snapshots need the sqlite storage engine', 'UNSUPPORTED');
+  }
+  return store;
+}
+
+/**
+ * Takes a point-in-time copy of a node's database while it keeps serving.
+ * Operations that were still being written are in the copied operation log and
+ * are completed when the snapshot is restored.
+ */
+export async function createSnapshot(
+  store: StorageEngine,
+  source: { nodeId: string; node: string },
+  dir: string = SNAPSHOTS_DIR
+): Promise<SnapshotManifest> {
+  const sqlite = sqliteStore(store);
+  const createdAt = Date.now();
+  const id = `${source.nodeId}-${createdAt}`;
+  const folder = path.join(dir, id);
+  fs.mkdirSync(folder, { recursive: true });
+
+  await sqlite.backup(path.join(folder, DB_FILE));
+
+  const db = new sqlite3.Database(path.join(folder, DB_FILE), sqlite3.OPEN_READONLY);
+  try {
+    const rows: Record<string, number> = {};
+    for (const table of SNAPSHOT_TABLES) {
+      rows[table] = await count(db, table);
+    }
+    const manifest: SnapshotManifest = { id, ...source, createdAt, schemaVersion: await schemaVersion(db), rows };
+    fs.writeFileSync(path.join(folder, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    console.log(`📸 Snapshot ${id} written to ${folder}`);
+    return manifest;
+  } finally {
+    await close(db);
+  }
+}
+
+/**
+ * Snapshots in `dir`, oldest first, optionally only those of one node.
+ */
+export function listSnapshots(dir: string = SNAPSHOTS_DIR, nodeId?: string): SnapshotManifest[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter(id => fs.existsSync(path.join(dir, id, MANIFEST_FILE)))
+    .map(id => readSnapshot(id, dir))
+    .filter(manifest => nodeId === undefined || manifest.nodeId === nodeId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function readSnapshot(id: string, dir: string = SNAPSHOTS_DIR): SnapshotManifest {
+  const file = path.join(dir, id, MANIFEST_FILE);
+  // Ids come from HTTP requests; never let one point outside the snapshots folder
+  if (!/^[\w.-]+$/.test(id) || !fs.existsSync(file)) {
+    throw new SnapshotError(`Snapshot ${id} not found`, 'NOT_FOUND');
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+/**
+ * Replaces a node's data with a snapshot of that same node. The snapshot is
+ * first brought to this build's schema in a scratch copy, so one taken by an
+ * older build restores fine and one from a newer build is refused untouched.
+ */
+export async function restoreSnapshot(
+  store: StorageEngine,
+  id: string,
+  nodeId: string,
+  dir: string = SNAPSHOTS_DIR
+): Promise<SnapshotManifest> {
+  const sqlite = sqliteStore(store);
+  const manifest = readSnapshot(id, dir);
+  if (manifest.nodeId !== nodeId) {
+    throw new SnapshotError(`Snapshot ${id} belongs to node ${manifest.nodeId}, not ${nodeId}`, 'WRONG_NODE');
+  }
+
+  const scratch = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'restore-')), DB_FILE);
+  try {
+    fs.copyFileSync(path.join(dir, id, DB_FILE), scratch);
+    const db = new sqlite3.Database(scratch);
+    try {
+      await migrate(db, loadMigrations());
+    } catch (err) {
+      if (err instanceof SchemaVersionError) throw new SnapshotError(err.message, 'INCOMPATIBLE');
+      throw err;
+    } finally {
+      await close(db);
+    }
+
+    await sqlite.replaceTables(scratch, SNAPSHOT_TABLES);
+    console.log(`♻️ Restored snapshot ${id} taken at ${new Date(manifest.createdAt).toISOString()}`);
+    return manifest;
+  } finally {
+    fs.rmSync(path.dirname(scratch), { recursive: true, force: true });
+  }
+}
+
+function count(db: sqlite3.Database, table: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    db.get(`SELECT COUNT(*) AS count FROM ${table}`, (err, row: any) => (err ? reject(err) : resolve(row.count)));
+  });
+}
+
+function close(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => db.close(err => (err ? reject(err) : resolve())));
+}
@@ -396,6 +396,57 @@ describe('AWORSet', () => {
       expect(quantity1).toBe(quantity2);
     });
   });
+
+  describe('single item state', () => {
+    const itemOn = (nodeId: string, quantity: number): CRDTShoppingListItem => ({
+      ...createTestItem('item1', 'list1'),
+      quantity: new PNCounter(nodeId, quantity),
+      acquired: new PNCounter(nodeId)
+    });
+
+    const exchange = (from: AWORSet, to: AWORSet) => {
+      const incoming = new AWORSet('incoming');
+      incoming.setState(from.getItemState('item1'));
+      to.merge(incoming);
+    };
+
+    it('should sum concurrent increments made on different replicas', () => {
+      const set1 = new AWORSet('node1');
+      const set2 = new AWORSet('node2');
+      set1.add(itemOn('node1', 2));
+      exchange(set1, set2);
+
+      set1.updateField('item1', 'quantity', 3);
+      set2.updateField('item1', 'quantity', 5);
+      exchange(set1, set2);
+      exchange(set2, set1);
+
+      expect(set1.get('item1')?.quantity.value()).toBe(6);
+      expect(set2.get('item1')?.quantity.value()).toBe(6);
+    });
+
+    it('should not resurrect locally removed items when merging one item', () => {
+      const set1 = new AWORSet('node1');
+      const set2 = new AWORSet('node2');
+      set1.add(itemOn('node1', 1));
+      set1.add({ ...itemOn('node1', 1), id: 'item2' });
+      exchange(set1, set2);
+
+      set1.remove('item2');
+      exchange(set2, set1);
+
+      expect(set1.get('item1')).toBeDefined();
+      expect(set1.get('item2')).toBeUndefined();
+    });
+
+    it('should return null for unknown or removed items', () => {
+      aworset.add(createTestItem('item1', 'list1'));
+      aworset.remove('item1');
+
+      expect(aworset.getItemState('item1')).toBeNull();
+      expect(aworset.getItemState('missing')).toBeNull();
+    });
+  });
 });
 
 // Helper function to create test items
@@ -0,0 +1,70 @@
+import { compareAddresses, messagingAddress, parseAddress } from '../src/api/addresses';
+import { nodeLaunchOptions } from '../src/api/launchOptions';
+import cloudConfig from '../src/api/cloudConfig.json';
+
+describe('Node addresses', () => {
+  test('should parse host:port and reject bare ports or bad ports', () => {
+    expect(parseAddress('10.0.0.5:5000')).toEqual({ host: '10.0.0.5', port: 5000 });
+    expect(parseAddress('node-a.internal:5001')).toEqual({ host: 'node-a.internal', port: 5001 });
+
+    expect(() => parseAddress('5000')).toThrow('expected host:port');
+    expect(() => parseAddress('10.0.0.5:70000')).toThrow('expected host:port');
+    expect(() => parseAddress('10.0.0.5:')).toThrow('expected host:port');
+    expect(() => nodeLaunchOptions(['--http', '10.0.0.5:5000', '--engine', 'rocksdb'])).toThrow('Unknown storage engine');
+  });
+
+  test('should derive the messaging address from the HTTP address', () => {
+    const offset = cloudConfig.storage.zmqPortOffset;
+    expect(messagingAddress('10.0.0.5:5000')).toBe(`10.0.0.5:${5000 + offset}`);
+  });
+
+  test('should order addresses by host, then numerically by port', () => {
+    const sorted = ['10.0.0.6:5000', '10.0.0.5:10000', '10.0.0.5:9000'].sort(compareAddresses);
+    expect(sorted).toEqual(['10.0.0.5:9000', '10.0.0.5:10000', '10.0.0.6:5000']);
+  });
+});
+
+describe('Node launcher options', () => {
+  const env = { ...process.env };
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('should take addresses and seeds from flags', () => {
+    const launch = nodeLaunchOptions([
+      '--id', 'a', '--http', '10.0.0.5:5000', '--peers', '10.0.0.6:5000, 10.0.0.7:5000,10.0.0.5:5000',
+      '--coordinator=10.0.0.1:7100', '--engine', 'log'
+    ]);
+
+    expect(launch).toEqual({
+      nodeId: 'a',
+      address: '10.0.0.5:5000',
+      bind: { http: '10.0.0.5:5000', zmq: messagingAddress('10.0.0.5:5000') },
+      seeds: ['10.0.0.6:5000', '10.0.0.7:5000'],
+      coordinator: '10.0.0.1:7100',
+      engine: 'log'
+    });
+  });
+
+  test('should fall back to environment variables and the configured coordinator', () => {
+    process.env.NODE_ADVERTISE = 'node-b.internal:5001';
+    process.env.NODE_PEERS = 'node-a.internal:5000';
+
+    const launch = nodeLaunchOptions([]);
+    expect(launch.address).toBe('node-b.internal:5001');
+    expect(launch.bind).toEqual({ http: undefined, zmq: undefined });
+    expect(launch.seeds).toEqual(['node-a.internal:5000']);
+    expect(launch.coordinator).toBe(cloudConfig.coordinator.zmq);
+  });
+
+  test('should bind every interface but advertise a reachable address', () => {
+    const launch = nodeLaunchOptions(['--http', '0.0.0.0:5000', '--advertise', '10.0.0.5:5000']);
+    expect(launch.address).toBe('10.0.0.5:5000');
+    expect(launch.bind.zmq).toBe(`0.0.0.0:${parseAddress(messagingAddress('10.0.0.5:5000')).port}`);
+
+    expect(() => nodeLaunchOptions(['--http', '0.0.0.0:5000'])).toThrow('--advertise');
+    expect(() => nodeLaunchOptions([])).toThrow('--http or --advertise');
+    expect(() => nodeLaunchOptions(['--http', '10.0.0.5:5000', '--peers', '5001'])).toThrow('expected host:port');
+    expect(() => nodeLaunchOptions(['--http', '10.0.0.5:5000', '--engine', 'rocksdb'])).toThrow('Unknown storage engine');
+  });
+});
@@ -0,0 +1,141 @@
+import { BINARY_CODEC, detectCodec, JSON_CODEC } from '../src/api/codec';
+import { decodeMessage, encodeMessage, encodeReply, Operation } from '../src/api/protocol';
+import { combineTrafficStats, Exchange, WireEndpoint } from '../src/api/wire';
+
+const itemWrite: Operation = {
+  type: 'UPDATE_QUANTITY',
+  item: {
+    id: '3f2b9c1e-8a7d-4e6f-9b0a-1c2d3e4f5a6b',
+    listId: '0c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f',
+    name: 'Oat milk',
+    quantity: 3,
+    acquired: 0,
+    createdAt: 1760000000000,
+    lastUpdated: 1760000000123,
+    vectorClock: { '5000': 4, '5001': 2, '5002': 7 },
+    crdt: {
+      quantity: { p: [['5000', 5], ['5001', 1]], n: [['5000', -2]] },
+      acquired: { p: [], n: [] }
+    }
+  }
+};
+
+describe('Binary codec', () => {
+  test('should round-trip JSON-compatible values', () => {
+    const value = {
+      nothing: null,
+      flags: [true, false],
+      ints: [0, 1, -1, 63, -64, 300, -300, 2 ** 40, -(2 ** 40)],
+      floats: [0.5, -1.25, 2 ** 60, Number.MAX_SAFE_INTEGER],
+      text: ['', 'Milk', 'Crème brûlée 🥐', 'deadbeef', 'DEADBEEFDEADBEEF'],
+      nested: { a: { b: [{ c: 'd' }] } }
+    };
+
+    expect(BINARY_CODEC.decode(BINARY_CODEC.encode(value))).toEqual(value);
+  });
+
+  test('should leave out undefined fields like JSON does', () => {
+    const decoded = BINARY_CODEC.decode(BINARY_CODEC.encode({ kept: 1, dropped: undefined }));
+    expect(decoded).toEqual({ kept: 1 });
+    expect('dropped' in decoded).toBe(false);
+  });
+
+  test('should pack UUIDs, hex digests and repeated strings', () => {
+    const uuid = '3f2b9c1e-8a7d-4e6f-9b0a-1c2d3e4f5a6b';
+    const digest = 'a'.repeat(64);
+
+    // Tag + 16 bytes instead of a 36 character string
+    expect(BINARY_CODEC.encode(uuid).length).toBe(2 + 1 + 16);
+    expect(BINARY_CODEC.encode(digest).length).toBeLessThan(40);
+    expect(BINARY_CODEC.decode(BINARY_CODEC.encode([uuid, digest, uuid]))).toEqual([uuid, digest, uuid]);
+
+    const repeated = BINARY_CODEC.encode(Array(10).fill('shopping-list'));
+    expect(repeated.length).toBeLessThan(40);
+  });
+
+  test('should make replication messages smaller than JSON', () => {
+    const json = encodeMessage(itemWrite, '5000', JSON_CODEC);
+    const binary = encodeMessage(itemWrite, '5000', BINARY_CODEC);
+
+    expect(binary.length).toBeLessThan(json.length * 0.7);
+    expect(decodeMessage(binary)).toEqual({ ...decodeMessage(json), id: decodeMessage(binary).id });
+  });
+
+  test('should tell the codec of a message from its first byte', () => {
+    expect(detectCodec(encodeMessage(itemWrite, '5000', BINARY_CODEC))).toBe(BINARY_CODEC);
+    expect(detectCodec(encodeMessage(itemWrite, '5000', JSON_CODEC))).toBe(JSON_CODEC);
+  });
+
+  test('should reject truncated or corrupt binary messages as invalid', () => {
+    const binary = encodeMessage(itemWrite, '5000', BINARY_CODEC);
+
+    expect(() => decodeMessage(binary.subarray(0, binary.length - 3))).toThrow(/could not be decoded as binary/);
+    expect(() => decodeMessage(Buffer.concat([binary, Buffer.from([0])]))).toThrow(/Trailing bytes/);
+  });
+});
+
+describe('WireEndpoint', () => {
+  /** A peer that answers with its own endpoint, the way a node's REP listener does. */
+  function peer(endpoint: WireEndpoint | null): { exchange: Exchange; hellos: () => number } {
+    let hellos = 0;
+    const exchange: Exchange = async data => {
+      const codec = detectCodec(data);
+      const request = decodeMessage(data);
+      if (request.type === 'HELLO') hellos++;
+      if (!endpoint) {
+        // Predates codec negotiation
+        return encodeReply({ status: 'error', error: 'Unknown message type: HELLO' }, 'old', request.id, codec);
+      }
+      const reply = request.type === 'HELLO'
+        ? { status: 'ok' as const, codec: endpoint.chooseCodec((request.payload as any).codecs).name }
+        : { status: 'ok' as const };
+      return endpoint.encodeReply(reply, endpoint.decodeRequest(data).envelope, codec);
+    };
+    return { exchange, hellos: () => hellos };
+  }
+
+  test('should negotiate the most preferred codec both sides support once per connection', async () => {
+    const local = new WireEndpoint('5000', { codecs: ['binary', 'json'] });
+    const remote = peer(new WireEndpoint('5001', { codecs: ['json', 'binary'] }));
+    const connection = {};
+
+    expect((await local.codecFor(connection, remote.exchange))!.name).toBe('binary');
+    await local.codecFor(connection, remote.exchange);
+    expect(remote.hellos()).toBe(1);
+
+    // A replacement socket is a new connection
+    await local.codecFor({}, remote.exchange);
+    expect(remote.hellos()).toBe(2);
+  });
+
+  test('should fall back to JSON for peers without binary or without negotiation', async () => {
+    // Peers that predate negotiation do not sign their replies either
+    const local = new WireEndpoint('5000', { auth: null });
+
+    expect((await local.codecFor({}, peer(new WireEndpoint('5001', { codecs: ['json'], auth: null })).exchange))!.name).toBe('json');
+    expect((await local.codecFor({}, peer(null).exchange))!.name).toBe('json');
+    expect(await local.codecFor({}, async () => null)).toBeNull();
+  });
+
+  test('should count bytes per message type, with replies under their request type', async () => {
+    const local = new WireEndpoint('5000');
+    const remoteEndpoint = new WireEndpoint('5001');
+    const remote = peer(remoteEndpoint);
+    const connection = {};
+
+    const codec = (await local.codecFor(connection, remote.exchange))!;
+    const request = local.encodeRequest(itemWrite, codec);
+    local.decodeReply((await remote.exchange(request))!, itemWrite.type);
+
+    const sent = local.getStats().sent.UPDATE_QUANTITY.binary;
+    expect(sent.messages).toBe(1);
+    expect(sent.bytes).toBe(request.length);
+    expect(sent.jsonBytes).toBeGreaterThan(sent.bytes);
+    expect(local.getStats().received['UPDATE_QUANTITY/REPLY'].binary.messages).toBe(1);
+    expect(remoteEndpoint.getStats().received.UPDATE_QUANTITY.binary).toEqual(sent);
+
+    const total = combineTrafficStats([local.getStats(), remoteEndpoint.getStats()]);
+    expect(total.sent.HELLO.json.messages).toBe(1);
+    expect(total.received.UPDATE_QUANTITY.binary.messages).toBe(1);
+  });
+});
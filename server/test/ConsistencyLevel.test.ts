@@ -0,0 +1,53 @@
+import { parseConsistencyLevel, consistencyMiddleware, DEFAULT_CONSISTENCY } from '../src/api/consistency';
+
+function run(headers: Record<string, string>, query: Record<string, string> = {}) {
+  const req: any = { get: (name: string) => headers[name.toLowerCase()], query };
+  const res: any = {
+    locals: {},
+    statusCode: 200,
+    body: undefined,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: any) {
+      this.body = body;
+      return this;
+    }
+  };
+  const next = jest.fn();
+  consistencyMiddleware(req, res, next);
+  return { res, next };
+}
+
+describe('Consistency levels', () => {
+  test('should parse levels case-insensitively', () => {
+    expect(parseConsistencyLevel('one')).toBe('ONE');
+    expect(parseConsistencyLevel(' Quorum ')).toBe('QUORUM');
+    expect(parseConsistencyLevel('ALL')).toBe('ALL');
+    expect(parseConsistencyLevel('TWO')).toBeNull();
+    expect(parseConsistencyLevel(undefined)).toBeNull();
+  });
+
+  test('should default to QUORUM when nothing is requested', () => {
+    const { res, next } = run({});
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.consistency).toBe(DEFAULT_CONSISTENCY);
+  });
+
+  test('should prefer the header over the query parameter', () => {
+    const { res } = run({ 'x-consistency-level': 'all' }, { consistency: 'one' });
+
+    expect(res.locals.consistency).toBe('ALL');
+    expect(run({}, { consistency: 'one' }).res.locals.consistency).toBe('ONE');
+  });
+
+  test('should reject unknown levels with 400', () => {
+    const { res, next } = run({ 'x-consistency-level': 'SOME' });
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+    expect(res.body.allowed).toEqual(['ONE', 'QUORUM', 'ALL']);
+  });
+});
@@ -1,4 +1,6 @@
 import * as crypto from 'crypto';
+import { Partitioner } from '../src/api/partitioning';
+import { localAddress } from '../src/api/addresses';
 
 // Mock the actual functions from partitioning.ts
 function hashKey(key: string): bigint {
@@ -174,4 +176,63 @@ describe('Consistent Hashing', () => {
     console.log(`Keys moved after removing node: ${movedKeys}/${testKeys.length} (${(actualMoveRatio*100).toFixed(1)}%)`);
     expect(actualMoveRatio).toBeLessThan(0.5);
   });
-});
\ No newline at end of file
+});
+
+describe('Virtual Nodes', () => {
+  const NODES = [5000, 5001, 5002, 5003, 5004].map(localAddress);
+
+  test('should place the configured number of tokens per node', () => {
+    const ring = new Partitioner(NODES, { virtualNodes: 16 }).getTokens();
+
+    expect(ring).toHaveLength(NODES.length * 16);
+    for (let i = 1; i < ring.length; i++) {
+      expect(ring[i].hash).toBeGreaterThan(ring[i - 1].hash);
+    }
+  });
+
+  test('should return distinct physical nodes in the preference list', () => {
+    const partitioner = new Partitioner(NODES, { virtualNodes: 32 });
+
+    for (let i = 0; i < 50; i++) {
+      const replicas = partitioner.getPreferenceList(`key-${i}`, 3);
+      expect(replicas).toHaveLength(3);
+      expect(new Set(replicas).size).toBe(3);
+    }
+  });
+
+  test('should not repeat nodes when fewer nodes than replicas exist', () => {
+    const partitioner = new Partitioner(['127.0.0.1:5000', '127.0.0.1:5001'], { virtualNodes: 8 });
+    expect(partitioner.getPreferenceList('test-key', 3).sort()).toEqual(['127.0.0.1:5000', '127.0.0.1:5001']);
+  });
+
+  test('should spread primary ownership more evenly than a single token', () => {
+    const keys = Array.from({ length: 2000 }, (_, i) => `list-${i}`);
+
+    const spread = (virtualNodes: number) => {
+      const partitioner = new Partitioner(NODES, { virtualNodes });
+      const counts = new Map<string, number>(NODES.map(n => [n, 0]));
+      keys.forEach(key => {
+        const primary = partitioner.getPrimary(key);
+        counts.set(primary, counts.get(primary)! + 1);
+      });
+      return Math.max(...counts.values()) - Math.min(...counts.values());
+    };
+
+    expect(spread(64)).toBeLessThan(spread(1));
+  });
+
+  test('should hand a failed node\'s keys to several peers', () => {
+    const keys = Array.from({ length: 500 }, (_, i) => `item-${i}`);
+    const fullRing = new Partitioner(NODES, { virtualNodes: 32 });
+    const reducedRing = fullRing.withNodes(NODES.filter(n => n !== '127.0.0.1:5002'));
+
+    const takeovers = new Set<string>();
+    keys.forEach(key => {
+      if (fullRing.getPrimary(key) === '127.0.0.1:5002') {
+        takeovers.add(reducedRing.getPrimary(key));
+      }
+    });
+
+    expect(takeovers.size).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { CoordinatorServer } from '../src/api/coordinator';
+import { MembershipView } from '../src/api/membership';
+import cloudConfig from '../src/api/cloudConfig.json';
+
+const [A, B, C] = cloudConfig.servers;
+const NEW_NODE = '127.0.0.1:5009';
+
+function reply(status: number, body: any): Response {
+  return { ok: status < 300, status, json: async () => body } as Response;
+}
+
+describe('Coordinator membership', () => {
+  let views: Record<string, MembershipView | null>; // What each node answers; null when unreachable
+  let requests: string[];
+
+  beforeEach(() => {
+    views = {};
+    requests = [];
+    jest.spyOn(global, 'fetch').mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      requests.push(`${init?.method ?? 'GET'} ${url.host}${url.pathname}`);
+      const view = views[url.host];
+      if (view === null) throw new Error('connect ECONNREFUSED');
+      if (url.pathname === '/api/cluster/members') return reply(200, view ?? { version: 0, members: cloudConfig.servers });
+
+      // The node proposes the next view from its own
+      const members = [...(view?.members ?? cloudConfig.servers), JSON.parse(String(init!.body)).address];
+      return reply(200, { version: (view?.version ?? 0) + 1, members });
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should adopt the newest view the nodes report instead of its own', async () => {
+    const coordinator = new CoordinatorServer();
+    views[B] = { version: 3, members: [A, B] };
+    views[C] = { version: 2, members: [A, B, C] };
+
+    expect(await coordinator.syncMembership()).toEqual({ version: 3, members: [A, B] });
+  });
+
+  test('should have a member number a join and take the view it announces', async () => {
+    const coordinator = new CoordinatorServer();
+    views[A] = null;
+    views[B] = { version: 4, members: cloudConfig.servers };
+
+    const { status, body } = await coordinator.changeMembership('join', NEW_NODE);
+
+    expect(status).toBe(200);
+    expect(body.version).toBe(5);
+    expect(requests.slice(0, 2)).toEqual([`POST ${A}/api/cluster/join`, `POST ${B}/api/cluster/join`]);
+    expect((await coordinator.syncMembership()).version).toBe(5);
+  });
+
+  test('should report when no member answers', async () => {
+    const coordinator = new CoordinatorServer();
+    cloudConfig.servers.forEach(node => (views[node] = null));
+
+    const { status, body } = await coordinator.changeMembership('leave', A);
+
+    expect(status).toBe(503);
+    expect(body.view.version).toBe(0);
+    expect(requests[requests.length - 1]).toBe(`POST ${A}/api/cluster/leave`); // The leaving node is asked last
+  });
+});
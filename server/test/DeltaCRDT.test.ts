@@ -0,0 +1,256 @@
+import { AWORSet, AWORSetDelta } from '../src/crdt/AWORSet';
+import { CRDTShoppingListItem } from '../src/crdt/CRDTShoppingListItem';
+import { GCounter } from '../src/crdt/GCounter';
+import { LWWRegister } from '../src/crdt/LWWRegister';
+import { PNCounter } from '../src/crdt/PNCounter';
+import { DeltaSync } from '../src/api/deltaSync';
+import { MemoryEngine } from '../src/storage/MemoryEngine';
+import { restartManager } from './helpers';
+import { ShoppingListServer } from '../src/api/server';
+import { localAddress } from '../src/api/addresses';
+
+describe('Delta-state CRDTs', () => {
+  it('should produce GCounter deltas that merge like the full state', () => {
+    const a = new GCounter('a');
+    const b = new GCounter('b');
+    const delta = a.incrementDelta(3);
+    a.increment(2);
+
+    expect(delta).toEqual([['a', 3]]);
+    b.mergeDelta(a.incrementDelta(1));
+    expect(b.value).toBe(6);
+
+    // Deltas are idempotent and may arrive out of order
+    b.mergeDelta(delta);
+    expect(b.value).toBe(6);
+  });
+
+  it('should produce PNCounter deltas for increments and decrements', () => {
+    const a = new PNCounter('a', 5);
+    const b = new PNCounter('b');
+    b.merge(a);
+
+    b.mergeDelta(a.decrementDelta(2));
+    b.mergeDelta(a.incrementDelta(4));
+    b.increment(1);
+
+    expect(b.value()).toBe(8);
+    expect(a.incrementDelta(1)).toEqual({ p: [['a', 10]], n: [] });
+  });
+
+  it('should produce LWWRegister deltas that keep last-writer-wins', () => {
+    const a = new LWWRegister('Milk', 'a');
+    const b = LWWRegister.fromState({ value: 'Milk', timestamp: Date.now() - 2000, nodeId: 'a' });
+
+    const newer = a.setValueDelta('Oat milk', 'a');
+    b.mergeDelta(newer);
+    b.mergeDelta({ ...newer, value: 'Stale', timestamp: newer.timestamp - 1000 });
+
+    expect(b.getValue()).toBe('Oat milk');
+  });
+
+  describe('AWORSet', () => {
+    it('should converge through deltas to the same state as a full merge', () => {
+      const origin = new AWORSet('a');
+      const viaDeltas = new AWORSet('b');
+      const viaState = new AWORSet('b');
+      const deltas: AWORSetDelta[] = [];
+      origin.onDelta((_itemId, delta) => deltas.push(delta));
+
+      origin.add(createTestItem('item1', 'list1'));
+      origin.updateField('item1', 'quantity', 4);
+      origin.updateField('item1', 'name', 'Eggs');
+      origin.add(createTestItem('item2', 'list1'));
+      origin.remove('item2');
+
+      deltas.forEach(delta => expect(viaDeltas.mergeDelta(delta)).toBe(true));
+      viaState.merge(origin);
+
+      expect(viaDeltas.get('item1')!.quantity.value()).toBe(4);
+      expect(viaDeltas.get('item1')!.name.getValue()).toBe('Eggs');
+      expect(viaDeltas.get('item2')).toBeUndefined();
+      expect(viaDeltas.getItemState('item1')!.elements).toEqual(viaState.getItemState('item1')!.elements);
+    });
+
+    it('should send only the changed field of an update', () => {
+      const set = new AWORSet('a');
+      set.add(createTestItem('item1', 'list1'));
+
+      const delta = set.updateFieldDelta('item1', 'quantity', 2)!;
+      const [, element] = delta.elements[0];
+
+      expect(element.quantity).toEqual({ p: [['test-node', 2]], n: [] });
+      expect(element.name).toBeUndefined();
+      expect(delta.addSet).toEqual([]);
+    });
+
+    it('should add up concurrent increments from different nodes', () => {
+      const a = new AWORSet('a');
+      const b = new AWORSet('b');
+      a.add(createTestItem('item1', 'list1'));
+      b.merge(a);
+
+      const fromA = a.updateFieldDelta('item1', 'quantity', 2)!;
+      const fromB = b.updateFieldDelta('item1', 'quantity', 3)!;
+      a.mergeDelta(fromB);
+      b.mergeDelta(fromA);
+
+      expect(a.get('item1')!.quantity.value()).toBe(5);
+      expect(b.get('item1')!.quantity.value()).toBe(5);
+    });
+
+    it('should adopt another node\'s values without emitting a delta or bumping the clock', () => {
+      const set = new AWORSet('a');
+      const deltas: AWORSetDelta[] = [];
+      set.add(createTestItem('item1', 'list1'));
+      set.onDelta((_itemId, delta) => deltas.push(delta));
+      const clock = { ...set.get('item1')!.vectorClock };
+
+      expect(set.adoptField('item1', 'quantity', 3)).toBe(true);
+      expect(set.adoptField('item1', 'name', 'Eggs')).toBe(true);
+
+      expect(set.get('item1')!.quantity.value()).toBe(3);
+      expect(set.get('item1')!.name.getValue()).toBe('Eggs');
+      expect(set.get('item1')!.vectorClock).toEqual(clock);
+      expect(deltas).toEqual([]);
+    });
+
+    it('should report an update for an unknown item as incomplete', () => {
+      const origin = new AWORSet('a');
+      origin.add(createTestItem('item1', 'list1'));
+      const update = origin.updateFieldDelta('item1', 'quantity', 2)!;
+
+      const replica = new AWORSet('b');
+      expect(replica.mergeDelta(update)).toBe(false);
+      expect(replica.get('item1')).toBeUndefined();
+    });
+  });
+});
+
+describe('Remote item versions', () => {
+  it('should be applied without being recorded as this node\'s deltas', async () => {
+    const manager = await restartManager(new MemoryEngine());
+    const list = await manager.createList('Groceries');
+    const item = (await manager.addItemToList(list.id, { name: 'Eggs', quantity: 1 }))!;
+    const recorded: string[] = [];
+    manager.onItemDelta(itemId => recorded.push(itemId));
+
+    const remote = { ...item, name: 'Free-range eggs', quantity: 6, vectorClock: { ...item.vectorClock, 'node-b': 1 } };
+    const applied = await manager.applyRemoteItem(remote);
+
+    expect(applied).toMatchObject({ name: 'Free-range eggs', quantity: 6, vectorClock: remote.vectorClock });
+    expect(recorded).toEqual([]);
+  });
+});
+
+describe('Client change batches', () => {
+  const address = localAddress(5750);
+  let server: ShoppingListServer;
+
+  const request = async (method: string, url: string, body?: unknown) => {
+    const res = await fetch(`http://${address}${url}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  beforeAll(async () => {
+    server = new ShoppingListServer(address, 'changes-5750', {}, 'memory');
+    await server.start();
+  });
+
+  afterAll(() => server.stop());
+
+  it('should apply the batch in one request and acknowledge each change it applied or found outdated', async () => {
+    const list = (await request('POST', '/api/lists', { name: 'Groceries' })).body;
+    const item = (await request('POST', `/api/lists/${list.id}/items`, { name: 'Eggs', quantity: 1, vectorClock: { client: 1 } })).body;
+
+    const reply = await request('POST', '/api/items/changes', {
+      changes: [
+        { id: 'c1', itemId: item.id, fields: { name: 'Free-range eggs', quantity: 6 }, vectorClock: { ...item.vectorClock, client: 3 }, lastUpdated: Date.now() },
+        { id: 'c2', itemId: item.id, fields: { name: 'Brown eggs' }, vectorClock: { client: 2 }, lastUpdated: 1 },
+        { id: 'c3', itemId: 'missing', fields: { acquired: 1 }, vectorClock: { client: 1 }, lastUpdated: 1 }
+      ]
+    });
+
+    expect(reply.status).toBe(200);
+    expect(reply.body).toEqual({ acknowledged: ['c1', 'c2'], failed: [{ id: 'c3', status: 404, error: 'Item not found' }] });
+    expect((await request('GET', `/api/items/${item.id}`)).body).toMatchObject({ name: 'Free-range eggs', quantity: 6, acquired: 0 });
+  });
+
+  it('should refuse a request without a list of changes', async () => {
+    expect((await request('POST', '/api/items/changes', {})).status).toBe(400);
+  });
+});
+
+describe('DeltaSync', () => {
+  const delta: AWORSetDelta = { elements: [], addSet: [], removeSet: [] };
+
+  it('should require full state until a peer acknowledges a key', () => {
+    const sync = new DeltaSync('a');
+    sync.record('item1', delta);
+    expect(sync.intervalFor('127.0.0.1:5001', 'item1')).toBeNull();
+
+    sync.acknowledge('127.0.0.1:5001', 'item1', sync.stamp().seq);
+    const interval = sync.intervalFor('127.0.0.1:5001', 'item1')!;
+    expect(interval.deltas).toEqual([]);
+    expect(interval.from).toBe(1);
+  });
+
+  it('should batch the deltas after the last acknowledgement', () => {
+    const sync = new DeltaSync('a');
+    sync.record('item1', delta);
+    sync.acknowledge('127.0.0.1:5001', 'item1', sync.stamp().seq);
+
+    sync.record('item1', delta);
+    sync.record('item2', delta);
+    sync.record('item1', delta);
+
+    const interval = sync.intervalFor('127.0.0.1:5001', 'item1')!;
+    expect(interval).toMatchObject({ origin: sync.origin, from: 1, to: 4 });
+    expect(interval.deltas).toHaveLength(2);
+  });
+
+  it('should fall back to full state once unacknowledged deltas are trimmed', () => {
+    const sync = new DeltaSync('a', { maxDeltasPerKey: 2 });
+    sync.record('item1', delta);
+    sync.acknowledge('127.0.0.1:5001', 'item1', 1);
+
+    sync.record('item1', delta);
+    expect(sync.intervalFor('127.0.0.1:5001', 'item1')).not.toBeNull();
+
+    sync.record('item1', delta);
+    sync.record('item1', delta);
+    expect(sync.intervalFor('127.0.0.1:5001', 'item1')).toBeNull();
+  });
+
+  it('should only apply intervals that start at or before what the replica holds', () => {
+    const origin = new DeltaSync('a');
+    const replica = new DeltaSync('b');
+    const interval = { origin: origin.origin, from: 3, to: 5, deltas: [] };
+
+    // A replica that never received state from this origin (e.g. restarted) has a gap
+    expect(replica.canApply(interval, 'item1')).toBe(false);
+
+    replica.markApplied(origin.origin, 'item1', 3);
+    expect(replica.canApply(interval, 'item1')).toBe(true);
+    expect(replica.canApply({ ...interval, from: 4 }, 'item1')).toBe(false);
+  });
+});
+
+/** Test item whose name was written a while ago, so later writes win regardless of node id. */
+function createTestItem(id: string, listId: string): CRDTShoppingListItem {
+  const now = Date.now();
+  return {
+    id,
+    listId,
+    name: LWWRegister.fromState({ value: 'Item ' + id, timestamp: now - 1000, nodeId: 'test-node' }),
+    quantity: new PNCounter('test-node'),
+    acquired: new PNCounter('test-node'),
+    createdAt: now,
+    lastUpdated: now,
+    vectorClock: {}
+  };
+}
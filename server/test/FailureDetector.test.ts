@@ -0,0 +1,108 @@
+import { clusterLiveness, HeartbeatGossip, PhiAccrualDetector } from '../src/api/failureDetector';
+
+const A = '127.0.0.1:5000';
+const B = '127.0.0.1:5001';
+const C = '127.0.0.1:5002';
+
+function detectorWithBeats(intervals: number[]) {
+  const detector = new PhiAccrualDetector({ threshold: 8, acceptableHeartbeatPauseMs: 0, minStdDeviationMs: 100 });
+  let now = 0;
+  detector.heartbeat(B, now);
+  for (const interval of intervals) {
+    now += interval;
+    detector.heartbeat(B, now);
+  }
+  return { detector, last: now };
+}
+
+describe('PhiAccrualDetector', () => {
+  test('should grow suspicion with silence and mark the node down past the threshold', () => {
+    const { detector, last } = detectorWithBeats(Array(20).fill(1000));
+
+    expect(detector.phi(B, last + 500)).toBeLessThan(1);
+    expect(detector.status(B, last + 1000)).toBe('up');
+    expect(detector.phi(B, last + 1500)).toBeGreaterThan(detector.phi(B, last + 1200));
+    expect(detector.status(B, last + 3000)).toBe('down');
+    expect(detector.isAvailable(B, last + 3000)).toBe(false);
+  });
+
+  test('should tolerate longer silences from nodes whose heartbeats are irregular', () => {
+    const regular = detectorWithBeats(Array(20).fill(1000));
+    const jittery = detectorWithBeats(Array.from({ length: 20 }, (_, i) => (i % 2 ? 400 : 1600)));
+
+    expect(jittery.detector.phi(B, jittery.last + 1800)).toBeLessThan(regular.detector.phi(B, regular.last + 1800));
+  });
+
+  test('should treat nodes it never heard from as unknown but available', () => {
+    const detector = new PhiAccrualDetector();
+
+    expect(detector.status(C)).toBe('unknown');
+    expect(detector.isAvailable(C)).toBe(true);
+    expect(detector.report(C)).toEqual({ node: C, status: 'unknown', phi: 0, lastHeartbeat: null });
+  });
+});
+
+describe('HeartbeatGossip', () => {
+  const gossipFor = (node: string, members: string[]) =>
+    new HeartbeatGossip({ node, peers: () => members, send: async () => null, fanout: 2 });
+
+  test('should count only heartbeats that advance as arrivals', () => {
+    const gossip = gossipFor(A, [A, B]);
+    const heartbeat = jest.spyOn(gossip.detector, 'heartbeat');
+
+    gossip.merge({ [B]: { generation: 1, beat: 3 } }, 1000);
+    gossip.merge({ [B]: { generation: 1, beat: 3 } }, 2000);
+    gossip.merge({ [B]: { generation: 1, beat: 2 } }, 3000);
+    gossip.merge({ [B]: { generation: 1, beat: 4 } }, 4000);
+
+    expect(heartbeat.mock.calls.map(call => call[1])).toEqual([1000, 4000]);
+  });
+
+  test('should start a fresh history for a restarted node and ignore non-members', () => {
+    const gossip = gossipFor(A, [A, B]);
+    const forget = jest.spyOn(gossip.detector, 'forget');
+
+    gossip.merge({ [B]: { generation: 1, beat: 50 } });
+    gossip.merge({ [B]: { generation: 2, beat: 1 }, [C]: { generation: 1, beat: 9 } });
+
+    expect(forget).toHaveBeenCalledWith(B);
+    expect(gossip.table()[B]).toEqual({ generation: 2, beat: 1 });
+    expect(gossip.table()[C]).toBeUndefined();
+  });
+
+  test('should exchange heartbeat tables in both directions', async () => {
+    const members = [A, B, C];
+    const nodes: Record<string, HeartbeatGossip> = {};
+    for (const node of members) {
+      nodes[node] = new HeartbeatGossip({
+        node,
+        peers: () => members,
+        send: async (peer, message) => nodes[peer].handleMessage(message),
+        fanout: 2
+      });
+    }
+
+    await nodes[A].runRound();
+
+    expect(nodes[A].detector.status(B)).toBe('up');
+    expect(nodes[A].detector.status(C)).toBe('up');
+    expect(nodes[B].table()[A].beat).toBe(1);
+    expect(nodes[C].table()[A].beat).toBe(1);
+  });
+});
+
+describe('clusterLiveness', () => {
+  test('should follow the majority of the other members and skip self-reports', () => {
+    const report = (node: string, status: 'up' | 'down' | 'unknown') => ({ node, status, phi: 0, lastHeartbeat: null });
+    const views = {
+      [A]: [report(A, 'up'), report(B, 'up'), report(C, 'down')],
+      [B]: [report(A, 'up'), report(B, 'up'), report(C, 'down')]
+    };
+
+    expect(clusterLiveness([A, B, C], views)).toEqual([
+      { node: A, status: 'up', up: 1, down: 0, reporting: true },
+      { node: B, status: 'up', up: 1, down: 0, reporting: true },
+      { node: C, status: 'down', up: 0, down: 2, reporting: false }
+    ]);
+  });
+});
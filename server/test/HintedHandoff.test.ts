@@ -0,0 +1,74 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { HintedHandoff } from '../src/api/hintedHandoff';
+
+describe('HintedHandoff', () => {
+  let dir: string;
+  let dbFile: string;
+  let store: SQLiteStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hints-'));
+    dbFile = path.join(dir, 'node.db');
+    store = new SQLiteStore(dbFile);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should keep hints in order per intended replica', async () => {
+    const handoff = new HintedHandoff(store);
+    await handoff.add('127.0.0.1:5001', { type: 'ADD_ITEM', n: 1 });
+    await handoff.add('127.0.0.1:5002', { type: 'ADD_ITEM', n: 2 });
+    await handoff.add('127.0.0.1:5001', { type: 'ADD_ITEM', n: 3 });
+
+    const pending = await handoff.pending('127.0.0.1:5001');
+    expect(pending.map(h => h.payload.n)).toEqual([1, 3]);
+    expect(pending.every(h => h.target === '127.0.0.1:5001')).toBe(true);
+  });
+
+  test('should survive reopening the database', async () => {
+    await new HintedHandoff(store).add('127.0.0.1:5003', { type: 'DELETE_LIST', listId: 'l1' });
+    store.close();
+
+    store = new SQLiteStore(dbFile);
+    const pending = await new HintedHandoff(store).pending('127.0.0.1:5003');
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0].payload).toEqual({ type: 'DELETE_LIST', listId: 'l1' });
+  });
+
+  test('should drop the oldest hints beyond the per-target cap', async () => {
+    const handoff = new HintedHandoff(store, { maxHintsPerTarget: 2 });
+    for (let n = 1; n <= 4; n++) {
+      await handoff.add('127.0.0.1:5001', { n });
+    }
+
+    expect((await handoff.pending('127.0.0.1:5001')).map(h => h.payload.n)).toEqual([3, 4]);
+  });
+
+  test('should expire hints older than the TTL and report the backlog', async () => {
+    const handoff = new HintedHandoff(store, { ttlMs: 1000 });
+    await store.saveHint('127.0.0.1:5001', { n: 'old' }, Date.now() - 5000);
+    await handoff.add('127.0.0.1:5001', { n: 'new' });
+    await handoff.add('127.0.0.1:5002', { n: 'other' });
+
+    expect(await handoff.expire()).toBe(1);
+
+    const backlog = await handoff.backlog();
+    expect(backlog.map(b => [b.target, b.count])).toEqual([['127.0.0.1:5001', 1], ['127.0.0.1:5002', 1]]);
+  });
+
+  test('should remove acknowledged hints', async () => {
+    const handoff = new HintedHandoff(store);
+    await handoff.add('127.0.0.1:5001', { n: 1 });
+    const [hint] = await handoff.pending('127.0.0.1:5001');
+
+    await handoff.acknowledge(hint);
+    expect(await handoff.pending('127.0.0.1:5001')).toEqual([]);
+  });
+});
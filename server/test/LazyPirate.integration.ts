@@ -1,5 +1,6 @@
 import fetch from 'node-fetch';
 import { ShoppingListCloud } from '../src/api/cloud';
+import { localAddress } from '../src/api/addresses';
 
 interface ListData {
   id: string;
@@ -22,7 +23,7 @@ async function main() {
   console.log('\n=== PHASE 1: Simulate Node Failure ===');
   
   // Stop Node 5002 to simulate failure
-  const node5002 = cloud['nodes'].find(n => n.port === 5002);
+  const node5002 = cloud['nodes'].find(n => n.address === localAddress(5002));
   if (!node5002) throw new Error('Node 5002 not found');
   await node5002.server.stop();
   console.log('✅ Node 5002 stopped.');
@@ -57,19 +58,17 @@ async function main() {
   await node5002.server.start();
   
   // Reinitialize its messaging (reconnect to ZeroMQ)
-  const node5002Index = cloud['nodes'].findIndex(n => n.port === 5002);
-  const neighborPorts: number[] = [];
+  const node5002Index = cloud['nodes'].findIndex(n => n.address === localAddress(5002));
+  const neighbors: string[] = [];
   const total = cloud['nodes'].length;
   const n = 2; // neighbors from cloudConfig
   
   for (let j = 1; j <= n; j++) {
-    const httpPort1 = cloud['nodes'][(node5002Index + j) % total].port;
-    const httpPort2 = cloud['nodes'][(node5002Index - j + total) % total].port;
-    neighborPorts.push(httpPort1 + 1000);
-    neighborPorts.push(httpPort2 + 1000);
+    neighbors.push(cloud['nodes'][(node5002Index + j) % total].address);
+    neighbors.push(cloud['nodes'][(node5002Index - j + total) % total].address);
   }
   
-  await node5002.server.initMessaging(6002, neighborPorts);
+  await node5002.server.initMessaging(neighbors);
   console.log('✅ Node 5002 restarted and reconnected');
 
   // Wait for reconnection
@@ -78,7 +77,7 @@ async function main() {
   // Flush hints (other nodes try to deliver queued updates)
   console.log('\n=== PHASE 5: Flush Hinted Handoff Queue ===');
   for (const node of cloud['nodes']) {
-    if (node.port !== 5002) {
+    if (node.address !== localAddress(5002)) {
       await node.server.flushHints();
     }
   }
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import { ClusterMembership } from '../src/api/membership';
+import { localAddress } from '../src/api/addresses';
+import { ShoppingListServer } from '../src/api/server';
+import { nodeDataFile } from '../src/storage/engines';
+
+describe('ClusterMembership', () => {
+  const NODES = [5000, 5001, 5002].map(localAddress);
+
+  test('should start at version 0 with sorted members', () => {
+    const membership = new ClusterMembership(['127.0.0.1:5002', '127.0.0.1:5000', '127.0.0.1:5001']);
+
+    expect(membership.getVersion()).toBe(0);
+    expect(membership.getMembers()).toEqual(NODES);
+  });
+
+  test('should build a join view without applying it', () => {
+    const membership = new ClusterMembership(NODES);
+    const view = membership.withJoined('127.0.0.1:5003');
+
+    expect(view).toEqual({ version: 1, members: ['127.0.0.1:5000', '127.0.0.1:5001', '127.0.0.1:5002', '127.0.0.1:5003'] });
+    expect(membership.has('127.0.0.1:5003')).toBe(false);
+  });
+
+  test('should refuse to join an existing member or remove an unknown one', () => {
+    const membership = new ClusterMembership(NODES);
+
+    expect(membership.withJoined('127.0.0.1:5001')).toBeNull();
+    expect(membership.withLeft('127.0.0.1:5009')).toBeNull();
+  });
+
+  test('should apply newer views and report the diff to listeners', async () => {
+    const membership = new ClusterMembership(NODES);
+    const changes: Array<{ added: string[]; removed: string[] }> = [];
+    membership.onChange((_view, added, removed) => {
+      changes.push({ added, removed });
+    });
+
+    await membership.applyView({ version: 1, members: ['127.0.0.1:5000', '127.0.0.1:5001', '127.0.0.1:5003'] });
+
+    expect(membership.getMembers()).toEqual(['127.0.0.1:5000', '127.0.0.1:5001', '127.0.0.1:5003']);
+    expect(changes).toEqual([{ added: ['127.0.0.1:5003'], removed: ['127.0.0.1:5002'] }]);
+  });
+
+  test('should ignore stale views', async () => {
+    const membership = new ClusterMembership(NODES, 3);
+    const applied = await membership.applyView({ version: 2, members: ['127.0.0.1:5000'] });
+
+    expect(applied).toBe(false);
+    expect(membership.getMembers()).toEqual(NODES);
+  });
+
+  test('should converge when two views share a version', async () => {
+    const a = new ClusterMembership(NODES);
+    const b = new ClusterMembership(NODES);
+
+    const viewA = a.withJoined('127.0.0.1:5003')!;
+    const viewB = b.withJoined('127.0.0.1:5004')!;
+    await a.applyView(viewA);
+    await b.applyView(viewB);
+
+    await a.applyView(viewB);
+    await b.applyView(viewA);
+
+    expect(a.getMembers()).toEqual(b.getMembers());
+  });
+});
+
+describe('Membership across restarts', () => {
+  const nodes = [5740, 5741, 5742].map(port => ({ address: localAddress(port), nodeId: `membership-${port}` }));
+  const [A, B, C] = nodes;
+  let servers: ShoppingListServer[] = [];
+
+  const startNode = async ({ address, nodeId }: { address: string; nodeId: string }, peers: string[]) => {
+    const server = new ShoppingListServer(address, nodeId, {}, 'sqlite');
+    servers.push(server);
+    await server.start();
+    await server.initMessaging(peers);
+    return server;
+  };
+
+  const waitUntilReady = async (address: string) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      if ((await fetch(`http://${address}/api/health`)).status === 200) return;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`Node ${address} did not become ready`);
+  };
+
+  const waitUntilRebalanced = async (address: string) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const { state } = await (await fetch(`http://${address}/api/admin/rebalance`)).json();
+      if (state !== 'streaming' && state !== 'waiting') return;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`Node ${address} did not finish rebalancing`);
+  };
+
+  const removeFiles = () => nodes.forEach(({ nodeId }) => fs.rmSync(nodeDataFile(nodeId, 'db'), { force: true }));
+
+  beforeEach(removeFiles);
+
+  afterEach(async () => {
+    for (const server of servers) await server.stop();
+    servers = [];
+    removeFiles();
+  });
+
+  test('should keep a node that joined at runtime after restarting with the original peers', async () => {
+    const a = await startNode(A, [B.address]);
+    await startNode(B, [A.address]);
+    await startNode(C, []);
+    for (const { address } of nodes) await waitUntilReady(address);
+
+    const joined = await a.joinNode(C.address);
+    expect(joined).toEqual({ version: 1, members: [A.address, B.address, C.address] });
+    for (const { address } of nodes) await waitUntilRebalanced(address);
+
+    await a.stop();
+    servers = servers.filter(server => server !== a);
+    const restarted = await startNode(A, [B.address]);
+    await waitUntilReady(A.address);
+
+    expect(restarted.getMembership()).toEqual(joined);
+    expect(restarted.livenessReport().map(report => report.node)).toEqual(joined!.members);
+  }, 30000);
+
+  test('should start from the peers it was wired to when no view is stored', async () => {
+    const a = await startNode(A, [B.address]);
+    await startNode(B, [A.address]);
+    for (const { address } of [A, B]) await waitUntilReady(address);
+
+    expect(a.getMembership()).toEqual({ version: 0, members: [A.address, B.address] });
+  }, 30000);
+});
@@ -0,0 +1,54 @@
+import { MerkleTree, digestOf } from '../src/api/merkle';
+
+describe('MerkleTree', () => {
+  const entries = Array.from({ length: 40 }, (_, i) => ({
+    key: `item:item-${i}`,
+    digest: digestOf({ id: `item-${i}`, quantity: i })
+  }));
+
+  test('should produce the same root regardless of entry order', () => {
+    const a = new MerkleTree(entries, 16);
+    const b = new MerkleTree([...entries].reverse(), 16);
+
+    expect(a.root()).toBe(b.root());
+    expect(a.diffLeaves(b.leaves())).toEqual([]);
+  });
+
+  test('should round the leaf count up to a power of two', () => {
+    expect(new MerkleTree([], 10).getLeafCount()).toBe(16);
+    expect(new MerkleTree([], 1).getLeafCount()).toBe(1);
+  });
+
+  test('should isolate a changed entry to a single leaf', () => {
+    const changed = entries.map(e =>
+      e.key === 'item:item-7' ? { ...e, digest: digestOf({ id: 'item-7', quantity: 99 }) } : e
+    );
+    const a = new MerkleTree(entries, 16);
+    const b = new MerkleTree(changed, 16);
+
+    expect(a.root()).not.toBe(b.root());
+
+    const differing = a.diffLeaves(b.leaves());
+    expect(differing).toEqual([MerkleTree.bucketOf('item:item-7', 16)]);
+    expect(a.keysIn(differing)).toContain('item:item-7');
+  });
+
+  test('should detect a missing entry', () => {
+    const a = new MerkleTree(entries, 8);
+    const b = new MerkleTree(entries.slice(1), 8);
+
+    expect(a.diffLeaves(b.leaves())).toEqual([MerkleTree.bucketOf(entries[0].key, 8)]);
+  });
+
+  test('should treat trees of a different shape as fully divergent', () => {
+    const a = new MerkleTree(entries, 8);
+    const b = new MerkleTree(entries, 16);
+
+    expect(a.diffLeaves(b.leaves())).toHaveLength(8);
+  });
+
+  test('should digest objects independently of key order', () => {
+    expect(digestOf({ a: 1, b: { c: 2, d: 3 } })).toBe(digestOf({ b: { d: 3, c: 2 }, a: 1 }));
+    expect(digestOf({ a: 1 })).not.toBe(digestOf({ a: 2 }));
+  });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { loadMigrations, migrate, Migration, schemaVersion, SchemaVersionError } from '../src/storage/migrations';
+
+const list = { id: 'list-1', name: 'Groceries', createdAt: 1, lastUpdated: 2, vectorClock: { a: 1 } };
+
+function open(file: string): sqlite3.Database {
+  return new sqlite3.Database(file);
+}
+
+function close(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve, reject) => db.close(err => (err ? reject(err) : resolve())));
+}
+
+function all(db: sqlite3.Database, sql: string): Promise<any[]> {
+  return new Promise((resolve, reject) => db.all(sql, (err, rows) => (err ? reject(err) : resolve(rows))));
+}
+
+function exec(db: sqlite3.Database, sql: string): Promise<void> {
+  return new Promise((resolve, reject) => db.exec(sql, err => (err ? reject(err) : resolve())));
+}
+
+describe('Schema migrations', () => {
+  let dir: string;
+  let dbFile: string;
+  const migrations = loadMigrations();
+  const addCategory: Migration = { version: migrations.length + 1, name: 'list_category', sql: 'ALTER TABLE lists ADD COLUMN category TEXT;' };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    dbFile = path.join(dir, 'node.db');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should keep data across restarts', async () => {
+    let store = new SQLiteStore(dbFile);
+    await store.saveList(list);
+    store.close();
+
+    store = new SQLiteStore(dbFile);
+    expect(await store.getList('list-1')).toMatchObject({ id: 'list-1', name: 'Groceries' });
+    store.close();
+  });
+
+  test('should adopt a database created before migrations without losing its data', async () => {
+    const legacy = open(dbFile);
+    await exec(legacy, `
+      CREATE TABLE lists (id TEXT PRIMARY KEY, name TEXT NOT NULL, created_at INTEGER NOT NULL,
+        last_updated INTEGER NOT NULL, vector_clock TEXT NOT NULL);
+      INSERT INTO lists VALUES ('list-1', 'Groceries', 1, 2, '{}');
+    `);
+    await close(legacy);
+
+    const store = new SQLiteStore(dbFile);
+    await store.ready();
+    expect(await store.getList('list-1')).toMatchObject({ name: 'Groceries' });
+    expect(await store.getAllTombstones()).toEqual([]);
+    // Rows from before the ring tokens still show up in range scans
+    expect((await store.scanRange({ start: 0n, end: 0n })).lists.map(l => l.id)).toEqual(['list-1']);
+    store.close();
+  });
+
+  test('should apply only the migrations a database has not seen, in order', async () => {
+    const db = open(dbFile);
+    expect(await migrate(db, migrations)).toBe(migrations.length);
+    await exec(db, `INSERT INTO lists (id, name, created_at, last_updated, vector_clock) VALUES ('list-1', 'Groceries', 1, 2, '{}')`);
+
+    expect(await migrate(db, [...migrations, addCategory])).toBe(addCategory.version);
+    expect(await migrate(db, [...migrations, addCategory])).toBe(addCategory.version);
+
+    const versions = await all(db, 'SELECT version, name FROM schema_version ORDER BY version');
+    expect(versions.map(v => v.version)).toEqual([...migrations, addCategory].map(m => m.version));
+    expect(await all(db, 'SELECT id, category FROM lists')).toEqual([{ id: 'list-1', category: null }]);
+    await close(db);
+  });
+
+  test('should roll back a failing migration and leave the version unchanged', async () => {
+    const db = open(dbFile);
+    await migrate(db, migrations);
+    const broken: Migration = { version: migrations.length + 1, name: 'broken', sql: 'CREATE TABLE extra (id TEXT); INSERT INTO missing VALUES (1);' };
+
+    await expect(migrate(db, [...migrations, broken])).rejects.toThrow(SchemaVersionError);
+
+    expect(await schemaVersion(db)).toBe(migrations.length);
+    expect(await all(db, "SELECT name FROM sqlite_master WHERE name = 'extra'")).toEqual([]);
+    await close(db);
+  });
+
+  test('should refuse a database written by a newer version', async () => {
+    const newer = new SQLiteStore(dbFile, [...migrations, addCategory]);
+    await newer.saveList(list);
+    newer.close();
+
+    const store = new SQLiteStore(dbFile, migrations);
+    await expect(store.ready()).rejects.toThrow('refusing to downgrade');
+    await expect(store.getList('list-1')).rejects.toThrow(SchemaVersionError);
+    store.close();
+  });
+
+  test('should reject migration files that skip a version', () => {
+    fs.writeFileSync(path.join(dir, '001_first.sql'), 'SELECT 1;');
+    fs.writeFileSync(path.join(dir, '003_third.sql'), 'SELECT 1;');
+
+    expect(() => loadMigrations(dir)).toThrow('Expected migration 2, found 3_third');
+  });
+});
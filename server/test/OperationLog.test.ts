@@ -0,0 +1,110 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { restartManager } from './helpers';
+import { OperationLog } from '../src/storage/OperationLog';
+import { StorageWrite } from '../src/shared/types';
+
+describe('Operation log', () => {
+  let dir: string;
+  let store: SQLiteStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'operation-log-'));
+    store = new SQLiteStore(path.join(dir, 'node.db'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should log each operation with its vector clock before writing it', async () => {
+    const manager = await restartManager(store);
+    const saveList = store.saveList.bind(store);
+    const loggedBeforeSave: number[] = [];
+    jest.spyOn(store, 'saveList').mockImplementation(async list => {
+      loggedBeforeSave.push((await store.getOperations()).length);
+      return saveList(list);
+    });
+    const { items, ...list } = await manager.createList('Groceries');
+
+    const [logged] = await store.getOperations();
+    expect(loggedBeforeSave).toEqual([1]);
+    expect(logged.operation).toBe('createList');
+    expect(logged.vectorClock).toEqual({ 'node-a': 1 });
+    expect(logged.writes).toEqual([{ type: 'saveList', list }]);
+  });
+
+  test('should replay an operation interrupted between its writes after a crash', async () => {
+    const manager = await restartManager(store);
+    const list = await manager.createList('Groceries');
+
+    // The list is saved, then the node dies before the item reaches storage
+    jest.spyOn(store, 'saveItem').mockRejectedValueOnce(new Error('crashed'));
+    expect(await manager.addItemToList(list.id, { id: 'item-1', name: 'Eggs', quantity: 2 })).toBeNull();
+    expect(await store.getItem('item-1')).toBeNull();
+
+    const restarted = await restartManager(store);
+    expect(await restarted.getItem('item-1')).toMatchObject({ name: 'Eggs', quantity: 2 });
+    expect(restarted.getItemState('item-1')).toEqual(manager.getItemState('item-1'));
+    expect(await store.getOperations()).toEqual([]);
+  });
+
+  test('should leave storage unchanged when replaying operations already applied', async () => {
+    const manager = await restartManager(store);
+    const list = await manager.createList('Groceries');
+    const item = await manager.addItemToList(list.id, { name: 'Milk' });
+    await manager.toggleItemCheck(item!.id);
+    await manager.removeItemFromList(item!.id);
+    const lists = await store.getAllLists();
+    const states = await store.getItemStates();
+
+    const restarted = await restartManager(store);
+
+    expect(await store.getAllLists()).toEqual(lists);
+    expect(await store.getItemStates()).toEqual(states);
+    expect(await restarted.getItem(item!.id)).toBeNull();
+  });
+
+  test('should log a delete together with its tombstone and replay both after a crash', async () => {
+    const manager = await restartManager(store);
+    const list = await manager.createList('Groceries');
+    const tombstone = { kind: 'list' as const, id: list.id, vectorClock: { 'node-a': 2 }, deletedAt: 1 };
+
+    // The tombstone is saved, then the node dies before the list row is deleted
+    jest.spyOn(store, 'deleteList').mockRejectedValueOnce(new Error('crashed'));
+    await manager.deleteList(list.id, [{ type: 'saveTombstone', tombstone }]);
+    const logged = (await store.getOperations()).filter(op => op.operation === 'deleteList');
+    expect(logged.map(op => op.writes.map(write => write.type))).toEqual([['saveTombstone', 'deleteList']]);
+    expect(await store.getList(list.id)).not.toBeNull();
+
+    const restarted = await restartManager(store);
+    expect(await restarted.getList(list.id)).toBeNull();
+    expect(await store.getTombstone('list', list.id)).toEqual(tombstone);
+    expect(await store.getOperations()).toEqual([]);
+  });
+
+  test('should truncate only entries whose writes have all been applied', async () => {
+    const log = new OperationLog(store);
+    const write: StorageWrite = { type: 'deleteList', listId: 'list-1' };
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => (release = resolve));
+
+    await log.record('first', { a: 1 }, [write], async () => {});
+    const pending = log.record('second', { a: 2 }, [write], () => blocked);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await log.record('third', { a: 3 }, [write], async () => {});
+
+    expect(await log.checkpoint()).toBe(1);
+    expect((await store.getOperations()).map(op => op.operation)).toEqual(['second', 'third']);
+
+    release();
+    await pending;
+    expect(await log.checkpoint()).toBe(2);
+    expect(await store.getOperations()).toEqual([]);
+    expect(log.getStats()).toEqual({ lastSeq: 3, checkpointedSeq: 3, inFlight: 0 });
+  });
+});
@@ -0,0 +1,79 @@
+import { Partitioner, RING_SIZE, hashKey, rangeContains, ringDistance } from '../src/api/partitioning';
+import { localAddress } from '../src/api/addresses';
+
+describe('Partitioner', () => {
+  const NODES = [5000, 5001, 5002, 5003, 5004].map(localAddress);
+
+  test('should compute exact circular distances', () => {
+    expect(ringDistance(10n, 25n)).toBe(15n);
+    expect(ringDistance(RING_SIZE - 5n, 5n)).toBe(10n);
+    expect(ringDistance(42n, 42n)).toBe(0n);
+  });
+
+  test('should handle wrapping ranges', () => {
+    const wrapping = { start: RING_SIZE - 10n, end: 10n };
+
+    expect(rangeContains(wrapping, 5n)).toBe(true);
+    expect(rangeContains(wrapping, RING_SIZE - 1n)).toBe(true);
+    expect(rangeContains(wrapping, 100n)).toBe(false);
+    expect(rangeContains({ start: 10n, end: 20n }, 10n)).toBe(false);
+    expect(rangeContains({ start: 10n, end: 20n }, 20n)).toBe(true);
+  });
+
+  test('should place every key inside the ownership ranges of its replicas', () => {
+    const partitioner = new Partitioner(NODES, { virtualNodes: 8, replicationFactor: 3 });
+
+    for (let i = 0; i < 200; i++) {
+      const key = `list-${i}`;
+      const hash = hashKey(key);
+      const replicas = partitioner.getPreferenceList(key);
+
+      for (const node of NODES) {
+        const owns = partitioner.getOwnershipRanges(node).some(r => rangeContains(r, hash));
+        expect(owns).toBe(replicas.includes(node));
+      }
+    }
+  });
+
+  test('should split primary ownership of the whole ring between nodes', () => {
+    const partitioner = new Partitioner(NODES, { virtualNodes: 16 });
+    const total = NODES.reduce((sum, node) => sum + partitioner.getOwnershipShare(node, true), 0);
+
+    expect(total).toBeCloseTo(1, 4);
+  });
+
+  test('should give a single node the full ring', () => {
+    const partitioner = new Partitioner(['127.0.0.1:5000'], { virtualNodes: 4 });
+
+    expect(partitioner.getOwnershipShare('127.0.0.1:5000')).toBe(1);
+    expect(partitioner.getOwnershipRanges('127.0.0.1:5000')).toHaveLength(1);
+  });
+
+  test('should report only keys replicated on a leaving node as moved', () => {
+    const partitioner = new Partitioner(NODES, { virtualNodes: 16, replicationFactor: 3 });
+    const keys = Array.from({ length: 300 }, (_, i) => `item-${i}`);
+    const moved = partitioner.getKeysMovedOnLeave('127.0.0.1:5003', keys);
+
+    expect(moved.length).toBeGreaterThan(0);
+    for (const movement of moved) {
+      expect(movement.previous).toContain('127.0.0.1:5003');
+      expect(movement.lost).toEqual(['127.0.0.1:5003']);
+      expect(movement.gained).toHaveLength(1);
+      expect(movement.next).not.toContain('127.0.0.1:5003');
+    }
+
+    const untouched = keys.filter(key => !partitioner.getPreferenceList(key).includes('127.0.0.1:5003'));
+    expect(moved.length + untouched.length).toBe(keys.length);
+  });
+
+  test('should agree with a rebuilt partitioner after add and remove', () => {
+    const partitioner = new Partitioner(NODES);
+    partitioner.addNode('127.0.0.1:5005');
+    partitioner.removeNode('127.0.0.1:5001');
+
+    const rebuilt = new Partitioner(['127.0.0.1:5000', '127.0.0.1:5002', '127.0.0.1:5003', '127.0.0.1:5004', '127.0.0.1:5005']);
+    for (let i = 0; i < 50; i++) {
+      expect(partitioner.getPreferenceList(`k-${i}`)).toEqual(rebuilt.getPreferenceList(`k-${i}`));
+    }
+  });
+});
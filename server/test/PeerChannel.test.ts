@@ -0,0 +1,103 @@
+import { Request, Router } from 'zeromq';
+import { decodeReply, encodeMessage, operationOf } from '../src/api/protocol';
+import { PeerChannel, serveRequests } from '../src/api/peerChannel';
+import { WireEndpoint } from '../src/api/wire';
+import { MessageAuthenticator } from '../src/api/auth';
+import { JSON_CODEC } from '../src/api/codec';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A ROUTER that answers READs after `delays[key]` ms with the key it was asked for.
+ */
+async function startPeer(delays: Record<string, number> = {}) {
+  const router = new Router({ linger: 0 });
+  await router.bind('tcp://127.0.0.1:*');
+  const wire = new WireEndpoint('peer');
+  let handled = 0;
+
+  const serving = serveRequests(router, async msg => {
+    const { envelope, codec } = wire.decodeRequest(msg);
+    const operation = operationOf(envelope);
+    if (operation.type === 'HELLO') {
+      return wire.encodeReply({ status: 'ok', codec: wire.chooseCodec(operation.codecs).name }, envelope, codec);
+    }
+    const key = operation.type === 'READ' ? operation.key : '';
+    await sleep(delays[key] ?? 0);
+    handled++;
+    return wire.encodeReply({ status: 'ok', data: key }, envelope, codec);
+  }, () => false).catch(() => undefined);
+
+  return { router, endpoint: router.lastEndpoint!, handled: () => handled, serving };
+}
+
+describe('PeerChannel', () => {
+  const closers: Array<() => void> = [];
+  afterEach(() => {
+    closers.splice(0).forEach(close => close());
+  });
+
+  test('should keep several requests to one peer in flight and match each reply to its request', async () => {
+    const peer = await startPeer({ slow: 300 });
+    const channel = new PeerChannel(peer.endpoint, new WireEndpoint('5000'));
+    closers.push(() => channel.close(), () => peer.router.close());
+
+    const finished: string[] = [];
+    const slow = channel.request({ type: 'READ', key: 'slow', dataType: 'item' }, 2000).then(reply => {
+      finished.push('slow');
+      return reply;
+    });
+    const fast = channel.request({ type: 'READ', key: 'fast', dataType: 'item' }, 2000).then(reply => {
+      finished.push('fast');
+      return reply;
+    });
+
+    expect((await fast)!.data).toBe('fast');
+    expect((await slow)!.data).toBe('slow');
+    // The fast request was not held up behind the slow one
+    expect(finished).toEqual(['fast', 'slow']);
+  });
+
+  test('should time out a request on its own and stay usable after its reply is lost', async () => {
+    const peer = await startPeer({ late: 300 });
+    const channel = new PeerChannel(peer.endpoint, new WireEndpoint('5000'));
+    closers.push(() => channel.close(), () => peer.router.close());
+
+    const late = channel.request({ type: 'READ', key: 'late', dataType: 'item' }, 100);
+    const onTime = channel.request({ type: 'READ', key: 'on-time', dataType: 'item' }, 1000);
+
+    expect(await late).toBeNull();
+    expect((await onTime)!.data).toBe('on-time');
+
+    // The late reply arrives with nobody waiting for it and is dropped
+    await sleep(300);
+    expect(peer.handled()).toBe(2);
+    expect(channel.inFlight()).toBe(0);
+    expect((await channel.request({ type: 'READ', key: 'after', dataType: 'item' }, 1000))!.data).toBe('after');
+  });
+
+  test('should resolve waiting requests as timed out when closed', async () => {
+    const peer = await startPeer({ slow: 1000 });
+    const channel = new PeerChannel(peer.endpoint, new WireEndpoint('5000'));
+    closers.push(() => peer.router.close());
+
+    const waiting = channel.request({ type: 'READ', key: 'slow', dataType: 'item' }, 5000);
+    await sleep(100);
+    expect(channel.inFlight()).toBe(1);
+    channel.close();
+
+    expect(await waiting).toBeNull();
+    expect(await channel.request({ type: 'READ', key: 'closed', dataType: 'item' }, 5000)).toBeNull();
+  });
+
+  test('should answer REQ sockets on the same ROUTER', async () => {
+    const peer = await startPeer();
+    const req = new Request({ linger: 0 });
+    req.connect(peer.endpoint);
+    closers.push(() => req.close(), () => peer.router.close());
+
+    await req.send(encodeMessage({ type: 'READ', key: 'legacy', dataType: 'list' }, '5000', JSON_CODEC, MessageAuthenticator.fromConfig()));
+    const [reply] = await req.receive();
+    expect(decodeReply(reply)).toEqual({ status: 'ok', data: 'legacy' });
+  });
+});
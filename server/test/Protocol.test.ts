@@ -0,0 +1,83 @@
+import {
+  decodeMessage,
+  decodeReply,
+  encodeMessage,
+  encodeReply,
+  errorReply,
+  operationOf,
+  ProtocolError,
+  PROTOCOL_VERSION
+} from '../src/api/protocol';
+
+function rejection(fn: () => unknown): ProtocolError {
+  try {
+    fn();
+  } catch (err) {
+    return err as ProtocolError;
+  }
+  throw new Error('Expected a ProtocolError');
+}
+
+describe('Wire protocol', () => {
+  test('should wrap an operation in a versioned envelope and unwrap it again', () => {
+    const raw = encodeMessage({ type: 'READ', key: 'list-1', dataType: 'list' }, '5000');
+    const envelope = decodeMessage(raw);
+
+    expect(envelope).toMatchObject({
+      version: PROTOCOL_VERSION,
+      sender: '5000',
+      type: 'READ',
+      payload: { key: 'list-1', dataType: 'list' }
+    });
+    expect(typeof envelope.id).toBe('string');
+    expect(operationOf(envelope)).toEqual({ type: 'READ', key: 'list-1', dataType: 'list' });
+  });
+
+  test('should give every message its own id and link replies to requests', () => {
+    const first = decodeMessage(encodeMessage({ type: 'BROADCAST', event: 'list-created', data: {} }, '5000'));
+    const second = decodeMessage(encodeMessage({ type: 'BROADCAST', event: 'list-created', data: {} }, '5000'));
+    expect(first.id).not.toBe(second.id);
+
+    const reply = decodeMessage(encodeReply({ status: 'ok', data: null }, '5001', first.id));
+    expect(reply.replyTo).toBe(first.id);
+    expect(decodeReply(encodeReply({ status: 'ok', data: null }, '5001'))).toEqual({ status: 'ok', data: null });
+  });
+
+  test('should reject versions it does not support', () => {
+    const envelope = JSON.parse(encodeMessage({ type: 'READ', key: 'k', dataType: 'item' }, '5000').toString());
+
+    const newer = rejection(() => decodeMessage(JSON.stringify({ ...envelope, version: PROTOCOL_VERSION + 1 })));
+    expect(newer).toBeInstanceOf(ProtocolError);
+    expect(newer.code).toBe('UNSUPPORTED_VERSION');
+
+    const legacy = rejection(() => decodeMessage(JSON.stringify({ type: 'READ', key: 'k', dataType: 'item' })));
+    expect(legacy.code).toBe('INVALID_MESSAGE');
+
+    expect(errorReply(newer)).toMatchObject({ status: 'error', code: 'UNSUPPORTED_VERSION' });
+  });
+
+  test('should validate payloads against the schema of their type', () => {
+    const send = (operation: any) => () => decodeMessage(encodeMessage(operation, '5000'));
+
+    expect(rejection(send({ type: 'READ', key: 'k', dataType: 'shelf' })).message).toContain("'dataType'");
+    expect(rejection(send({ type: 'UPDATE_QUANTITY' })).message).toContain("'item'");
+    expect(rejection(send({ type: 'NOT_A_TYPE' })).message).toContain('Unknown message type');
+    expect(rejection(() => decodeMessage('{not json')).code).toBe('INVALID_MESSAGE');
+
+    // Optional fields may be left out
+    expect(() => send({ type: 'REMOVE_ITEM', itemId: 'i' })()).not.toThrow();
+  });
+
+  test('should validate the write wrapped by a hinted write', () => {
+    const hinted = (operation: any) => () =>
+      decodeMessage(encodeMessage({ type: 'HINTED_WRITE', hintFor: '127.0.0.1:5002', operation }, '5000'));
+
+    expect(hinted({ type: 'ADD_ITEM', item: { id: 'i' } })).not.toThrow();
+    expect(rejection(hinted({ type: 'ADD_ITEM', item: 'i' })).code).toBe('INVALID_MESSAGE');
+  });
+
+  test('should not accept a request where a reply is expected', () => {
+    const request = encodeMessage({ type: 'READ', key: 'k', dataType: 'item' }, '5000');
+    expect(rejection(() => decodeReply(request)).message).toContain('Expected a reply');
+  });
+});
@@ -0,0 +1,384 @@
+import { QuorumCoordinator } from '../src/api/quorum';
+import cloudConfig from '../src/api/cloudConfig.json';
+import { PeerChannel } from '../src/api/peerChannel';
+import { localAddress } from '../src/api/addresses';
+
+type Handler = (message: any) => any;
+
+/**
+ * Minimal stand-in for a channel to a node that answers with a handler.
+ */
+class FakeChannel {
+  public received: any[] = [];
+
+  constructor(private handler: Handler) {}
+
+  async request(operation: any): Promise<any> {
+    this.received.push(operation);
+    return this.handler(operation);
+  }
+}
+
+const NODES = [5000, 5001, 5002, 5003, 5004].map(localAddress);
+const LOCAL_NODE = localAddress(9999); // Not a replica, so every replica is reached over a socket
+
+function buildCoordinator(handlers: Record<string, Handler>) {
+  const sockets = new Map<string, FakeChannel>();
+  for (const node of NODES) {
+    sockets.set(node, new FakeChannel(handlers[node] || (() => ({ status: 'ok' }))));
+  }
+  const coordinator = new QuorumCoordinator(sockets as unknown as Map<string, PeerChannel>, LOCAL_NODE, NODES);
+  return { coordinator, sockets };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('QuorumCoordinator read repair', () => {
+  const key = 'list-read-repair';
+
+  test('should return the newest version and repair stale or empty replicas', async () => {
+    const probe = buildCoordinator({});
+    const [newest, stale, empty] = probe.coordinator.getPartitioner().getPreferenceList(key);
+
+    const fresh = { id: key, name: 'Fresh', vectorClock: { a: 2 }, items: [] };
+    const old = { id: key, name: 'Old', vectorClock: { a: 1 }, items: [] };
+
+    const { coordinator, sockets } = buildCoordinator({
+      [newest]: msg => (msg.type === 'READ' ? { status: 'ok', data: fresh } : { status: 'ok' }),
+      [stale]: msg => (msg.type === 'READ' ? { status: 'ok', data: old } : { status: 'ok' }),
+      [empty]: msg => (msg.type === 'READ' ? { status: 'ok', data: null } : { status: 'ok' })
+    });
+
+    const result = await coordinator.quorumRead(key, 'list');
+    await flush();
+
+    expect(result.name).toBe('Fresh');
+
+    const socketFor = (node: string) => sockets.get(node)!;
+    expect(socketFor(stale).received.some(m => m.type === 'READ_REPAIR' && m.data.name === 'Fresh')).toBe(true);
+    expect(socketFor(empty).received.some(m => m.type === 'READ_REPAIR')).toBe(true);
+    expect(socketFor(newest).received.some(m => m.type === 'READ_REPAIR')).toBe(false);
+
+    expect(coordinator.getReadRepairStats()).toEqual({
+      divergentReads: 1,
+      repairsSent: 2,
+      repairsSucceeded: 2,
+      repairsFailed: 0
+    });
+  });
+
+  test('should not repair when all replicas agree', async () => {
+    const same = { id: key, name: 'Same', vectorClock: { a: 1 }, items: [] };
+    const handler: Handler = msg => (msg.type === 'READ' ? { status: 'ok', data: same } : { status: 'ok' });
+    const { coordinator } = buildCoordinator(Object.fromEntries(NODES.map(p => [p, handler])));
+
+    await coordinator.quorumRead(key, 'list');
+    await flush();
+
+    expect(coordinator.getReadRepairStats().divergentReads).toBe(0);
+  });
+});
+
+describe('QuorumCoordinator sloppy quorum', () => {
+  const key = 'list-sloppy-quorum';
+  const down: Handler = () => ({ status: 'error' });
+  const socketFor = (sockets: Map<string, FakeChannel>, node: string) =>
+    sockets.get(node)!;
+
+  test('should hand writes for an unreachable replica to the next node on the ring', async () => {
+    const probe = buildCoordinator({});
+    const ring = probe.coordinator.getPartitioner().getPreferenceList(key, NODES.length);
+    const [first, unreachable] = ring;
+    const fallback = ring[3];
+
+    const { coordinator, sockets } = buildCoordinator({ [unreachable]: down });
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list: { id: key } });
+
+    expect(result.success).toBe(true);
+    expect(result.failedNodes).toEqual([unreachable]);
+    expect(result.hintedNodes).toEqual([{ node: fallback, hintFor: unreachable }]);
+    expect(result.successfulNodes).toContain(first);
+
+    const hinted = socketFor(sockets, fallback).received[0];
+    expect(hinted).toEqual({ type: 'HINTED_WRITE', hintFor: unreachable, operation: { type: 'CREATE_LIST', list: { id: key } } });
+  });
+
+  test('should skip fallbacks that are also down', async () => {
+    const probe = buildCoordinator({});
+    const ring = probe.coordinator.getPartitioner().getPreferenceList(key, NODES.length);
+
+    const { coordinator } = buildCoordinator({ [ring[0]]: down, [ring[1]]: down, [ring[3]]: down });
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list: { id: key } });
+
+    expect(result.success).toBe(true);
+    expect(result.hintedNodes).toEqual([{ node: ring[4], hintFor: ring[0] }]);
+    expect(result.successfulNodes.sort()).toEqual([ring[2], ring[4]].sort());
+  });
+
+  test('should store the hint locally when this node is the fallback', async () => {
+    const probe = buildCoordinator({});
+    const ring = probe.coordinator.getPartitioner().getPreferenceList(key, NODES.length);
+    const local = ring[3];
+
+    const sockets = new Map<string, FakeChannel>();
+    for (const node of NODES.filter(n => n !== local)) {
+      sockets.set(node, new FakeChannel(node === ring[2] ? down : () => ({ status: 'ok' })));
+    }
+    const coordinator = new QuorumCoordinator(sockets as unknown as Map<string, PeerChannel>, local, NODES);
+    const handled: any[] = [];
+    coordinator.setLocalHandler(async operation => {
+      handled.push(operation);
+      return { status: 'ok' };
+    });
+
+    const result = await coordinator.quorumWrite(key, { type: 'ADD_ITEM', item: { id: key } });
+
+    expect(result.hintedNodes).toEqual([{ node: local, hintFor: ring[2] }]);
+    expect(handled).toEqual([{ type: 'HINTED_WRITE', hintFor: ring[2], operation: { type: 'ADD_ITEM', item: { id: key } } }]);
+  });
+
+  test('should not contact replicas the failure detector reports as down', async () => {
+    const probe = buildCoordinator({});
+    const ring = probe.coordinator.getPartitioner().getPreferenceList(key, NODES.length);
+    const dead = ring[1];
+
+    const { coordinator, sockets } = buildCoordinator({});
+    coordinator.setLivenessCheck(node => node !== dead);
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list: { id: key } });
+
+    expect(result.failedNodes).toEqual([dead]);
+    expect(result.hintedNodes).toEqual([{ node: ring[3], hintFor: dead }]);
+    expect(socketFor(sockets, dead).received).toEqual([]);
+  });
+});
+
+describe('QuorumCoordinator tombstones', () => {
+  const key = 'list-tombstone';
+  const tombstone = { kind: 'list', id: key, vectorClock: { a: 2 }, deletedAt: 100 };
+  const deletedReplica: Handler = msg =>
+    msg.type === 'READ' ? { status: 'ok', data: null, tombstone } : { status: 'ok' };
+
+  test('should report a key as deleted and push the tombstone to replicas that still hold it', async () => {
+    const probe = buildCoordinator({});
+    const [first, second, third] = probe.coordinator.getPartitioner().getPreferenceList(key);
+    const stale = { id: key, name: 'Stale', vectorClock: { a: 1 }, items: [] };
+
+    const { coordinator, sockets } = buildCoordinator({
+      [first]: deletedReplica,
+      [second]: deletedReplica,
+      [third]: msg => (msg.type === 'READ' ? { status: 'ok', data: stale } : { status: 'ok' })
+    });
+
+    const result = await coordinator.quorumReadResult(key, 'list');
+    await flush();
+
+    expect(result).toEqual({ data: null, deleted: true, siblings: [], context: null, quorumMet: true, level: 'QUORUM', achieved: 'ALL' });
+    expect(await coordinator.quorumRead(key, 'list')).toBeNull();
+
+    const repairs = sockets.get(third)!.received.filter(m => m.type === 'DELETE_LIST');
+    expect(repairs[0]).toEqual({ type: 'DELETE_LIST', listId: key, tombstone });
+  });
+
+  test('should prefer a live version that descends from the tombstone', async () => {
+    const probe = buildCoordinator({});
+    const [first, second] = probe.coordinator.getPartitioner().getPreferenceList(key);
+    const recreated = { id: key, name: 'Recreated', vectorClock: { a: 3 }, items: [] };
+
+    const { coordinator } = buildCoordinator({
+      [first]: deletedReplica,
+      [second]: msg => (msg.type === 'READ' ? { status: 'ok', data: recreated } : { status: 'ok' })
+    });
+
+    const result = await coordinator.quorumReadResult(key, 'list');
+    await flush();
+
+    expect(result.deleted).toBe(false);
+    expect(result.data.name).toBe('Recreated');
+  });
+});
+
+describe('QuorumCoordinator siblings', () => {
+  const key = 'item-siblings';
+  const reading = (data: any, siblings: any[] = []): Handler => msg =>
+    msg.type === 'READ' ? { status: 'ok', data, siblings } : { status: 'ok' };
+
+  test('should return concurrent versions as siblings with a merged causal context', async () => {
+    const probe = buildCoordinator({});
+    const [first, second, third] = probe.coordinator.getPartitioner().getPreferenceList(key);
+    const milk = { id: key, name: 'Milk', quantity: 1, acquired: 0, vectorClock: { a: 2 }, lastUpdated: 2 };
+    const oatMilk = { id: key, name: 'Oat milk', quantity: 1, acquired: 0, vectorClock: { a: 1, b: 1 }, lastUpdated: 1 };
+    const older = { ...milk, name: 'Mlk', vectorClock: { a: 1 } };
+
+    const { coordinator, sockets } = buildCoordinator({
+      [first]: reading(milk),
+      [second]: reading(oatMilk),
+      [third]: reading(older)
+    });
+
+    const result = await coordinator.quorumReadResult(key, 'item', 'ALL');
+    await flush();
+
+    expect(result.data.name).toBe('Milk');
+    expect(result.siblings.map(s => s.name).sort()).toEqual(['Milk', 'Oat milk']);
+    expect(result.context).toEqual({ a: 2, b: 1 });
+
+    // Each replica receives the siblings it is missing
+    const repairsFor = (node: string) => sockets.get(node)!.received
+      .filter(m => m.type === 'READ_REPAIR')
+      .map(m => m.data.name)
+      .sort();
+    expect(repairsFor(first)).toEqual(['Oat milk']);
+    expect(repairsFor(second)).toEqual(['Milk']);
+    expect(repairsFor(third)).toEqual(['Milk', 'Oat milk']);
+  });
+
+  test('should collapse concurrent versions holding the same value', async () => {
+    const probe = buildCoordinator({});
+    const [first, second] = probe.coordinator.getPartitioner().getPreferenceList(key);
+    const fromA = { id: key, name: 'Bread', quantity: 2, acquired: 0, vectorClock: { a: 1 } };
+    const fromB = { ...fromA, vectorClock: { b: 1 } };
+
+    const { coordinator } = buildCoordinator({ [first]: reading(fromA), [second]: reading(fromB) });
+
+    const result = await coordinator.quorumReadResult(key, 'item');
+
+    expect(result.siblings).toHaveLength(1);
+    expect(result.siblings[0].vectorClock).toEqual({ a: 1, b: 1 });
+  });
+
+  test('should include siblings held by a single replica', async () => {
+    const probe = buildCoordinator({});
+    const [first, second] = probe.coordinator.getPartitioner().getPreferenceList(key);
+    const eggs = { id: key, name: 'Eggs', quantity: 6, acquired: 0, vectorClock: { a: 1 } };
+    const duckEggs = { ...eggs, name: 'Duck eggs', vectorClock: { b: 1 } };
+
+    const { coordinator } = buildCoordinator({
+      [first]: reading(eggs, [duckEggs]),
+      [second]: reading(eggs, [duckEggs])
+    });
+
+    const result = await coordinator.quorumReadResult(key, 'item');
+
+    expect(result.siblings.map(s => s.name).sort()).toEqual(['Duck eggs', 'Eggs']);
+    expect(result.context).toEqual({ a: 1, b: 1 });
+  });
+});
+
+describe('QuorumCoordinator consistency levels', () => {
+  const key = 'list-consistency';
+  const down: Handler = () => ({ status: 'error' });
+  const list = { id: key, name: 'Shared', vectorClock: { a: 1 }, items: [] };
+  const holder: Handler = msg => (msg.type === 'READ' ? { status: 'ok', data: list } : { status: 'ok' });
+
+  function ring() {
+    return buildCoordinator({}).coordinator.getPartitioner().getPreferenceList(key, NODES.length);
+  }
+
+  test('should accept a ONE write with a single replica up', async () => {
+    const [first, second, third, ...rest] = ring();
+    const { coordinator } = buildCoordinator(Object.fromEntries([second, third, ...rest].map(p => [p, down])));
+
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list }, 'ONE');
+
+    expect(result.success).toBe(true);
+    expect(result.successfulNodes).toEqual([first]);
+    expect(result.achieved).toBe('ONE');
+  });
+
+  test('should not count hinted writes towards ALL', async () => {
+    const [, unreachable] = ring();
+    const { coordinator } = buildCoordinator({ [unreachable]: down });
+
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list }, 'ALL');
+
+    expect(result.hintedNodes).toHaveLength(1);
+    expect(result.success).toBe(false);
+    expect(result.achieved).toBe('QUORUM');
+  });
+
+  test('should report ALL when every replica acknowledges', async () => {
+    const { coordinator } = buildCoordinator({});
+
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list }, 'ALL');
+
+    expect(result.success).toBe(true);
+    expect(result.achieved).toBe('ALL');
+  });
+
+  test('should honour the read level and report what was achieved', async () => {
+    const [first, second] = ring();
+    const { coordinator } = buildCoordinator({ [first]: holder, [second]: holder });
+
+    const quorum = await coordinator.quorumReadResult(key, 'list', 'QUORUM');
+    const all = await coordinator.quorumReadResult(key, 'list', 'ALL');
+    const one = await coordinator.quorumReadResult(key, 'list', 'ONE');
+    await flush();
+
+    expect(quorum).toMatchObject({ quorumMet: true, achieved: 'QUORUM' });
+    expect(all).toMatchObject({ quorumMet: false, data: null, achieved: 'QUORUM' });
+    expect(one).toMatchObject({ quorumMet: true, achieved: 'QUORUM' });
+    expect(one.data.name).toBe('Shared');
+  });
+
+  test('should answer for the local replica through the local handler', async () => {
+    const [first, second, third] = ring();
+    const sockets = new Map<string, FakeChannel>();
+    for (const node of NODES.filter(n => n !== first)) {
+      sockets.set(node, new FakeChannel(node === second || node === third ? holder : down));
+    }
+    const coordinator = new QuorumCoordinator(sockets as unknown as Map<string, PeerChannel>, first, NODES);
+    coordinator.setLocalHandler(async operation => holder(operation));
+
+    const result = await coordinator.quorumReadResult(key, 'list', 'ALL');
+
+    expect(result).toMatchObject({ quorumMet: true, achieved: 'ALL' });
+  });
+
+  test('should translate levels into replica counts', () => {
+    const { coordinator } = buildCoordinator({});
+    const { N, R, W } = cloudConfig.quorum;
+
+    expect(coordinator.requiredReplicas('ONE', 'read')).toBe(1);
+    expect(coordinator.requiredReplicas('QUORUM', 'read')).toBe(R);
+    expect(coordinator.requiredReplicas('QUORUM', 'write')).toBe(W);
+    expect(coordinator.requiredReplicas('ALL', 'write')).toBe(N);
+  });
+});
+
+describe('QuorumCoordinator rebalancing', () => {
+  const previous = NODES.slice(0, 3);
+  const list = { id: 'moved', name: 'Moved', vectorClock: { a: 1 }, items: [] };
+  const holder: Handler = msg => (msg.type === 'READ' ? { status: 'ok', data: list } : { status: 'ok' });
+
+  // A key that lost a replica when the ring grew from the first three nodes to all five
+  function movedKey(coordinator: QuorumCoordinator): { key: string; replicas: string[]; lost: string[] } {
+    for (let i = 0; ; i++) {
+      const key = `list-moved-${i}`;
+      const replicas = coordinator.getPartitioner().getPreferenceList(key);
+      const lost = previous.filter(node => !replicas.includes(node));
+      if (lost.length > 0) return { key, replicas, lost };
+    }
+  }
+
+  test('should read from the previous owners and write to both until the rebalance finishes', async () => {
+    const { coordinator, sockets } = buildCoordinator(Object.fromEntries(NODES.map(node => [node, holder])));
+    const { key, replicas, lost } = movedKey(coordinator);
+    coordinator.beginRebalance(previous);
+
+    await coordinator.quorumRead(key, 'list');
+    const readFrom = NODES.filter(node => sockets.get(node)!.received.some(m => m.type === 'READ'));
+    expect(readFrom.sort()).toEqual([...previous].sort());
+
+    const result = await coordinator.quorumWrite(key, { type: 'CREATE_LIST', list });
+    expect(result.successfulNodes.sort()).toEqual([...replicas].sort());
+    for (const node of lost) {
+      expect(sockets.get(node)!.received.some(m => m.type === 'CREATE_LIST')).toBe(true);
+    }
+
+    coordinator.finishRebalance();
+    sockets.forEach(socket => (socket.received = []));
+    await coordinator.quorumRead(key, 'list');
+    const readAfter = NODES.filter(node => sockets.get(node)!.received.some(m => m.type === 'READ'));
+    expect(readAfter.sort()).toEqual([...replicas].sort());
+  });
+});
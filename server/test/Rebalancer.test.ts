@@ -0,0 +1,176 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { AntiEntropyEntry } from '../src/api/antiEntropy';
+import { hashKey, Partitioner, rangeContains } from '../src/api/partitioning';
+import { RebalancePlan, Rebalancer } from '../src/api/rebalancer';
+import { localAddress } from '../src/api/addresses';
+import cloudConfig from '../src/api/cloudConfig.json';
+
+const [A, B, C, D] = [5000, 5001, 5002, 5003].map(localAddress);
+const KEYS = Array.from({ length: 40 }, (_, i) => `list-${i}`);
+
+interface TestNode {
+  address: string;
+  store: SQLiteStore;
+  rebalancer: Rebalancer;
+  entries: Map<string, AntiEntropyEntry>;
+  received: AntiEntropyEntry[];
+  batches: number[];
+  begun: RebalancePlan[];
+  completed: RebalancePlan[];
+  receivedWhenCompleted: number[];
+}
+
+const partitionerFor = (nodes: string[]) => new Partitioner(nodes, { replicationFactor: cloudConfig.quorum.N });
+
+async function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the rebalance');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('Rebalancer', () => {
+  let dir: string;
+  let nodes: Record<string, TestNode>;
+  let failBatches: (from: string, to: string) => boolean;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rebalance-'));
+    nodes = {};
+    failBatches = () => false;
+  });
+
+  afterEach(() => {
+    for (const node of Object.values(nodes)) {
+      node.rebalancer.stop();
+      node.store.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * A node holding the keys it replicates on `ring`, wired to the other test nodes.
+   */
+  function addNode(address: string, ring: string[] | null, batchSize = 100): TestNode {
+    const entries = new Map<string, AntiEntropyEntry>();
+    for (const key of ring ? KEYS.filter(k => partitionerFor(ring).getPreferenceList(k).includes(address)) : []) {
+      entries.set(key, { kind: 'list', id: key, data: { id: key } });
+    }
+
+    const store = new SQLiteStore(path.join(dir, `${parseInt(address.split(':')[1])}.db`));
+    const node = { address, store, entries, received: [], batches: [], begun: [], completed: [], receivedWhenCompleted: [] } as any as TestNode;
+    node.rebalancer = new Rebalancer(store, {
+      node: address,
+      loadEntries: async range => [...node.entries.values()].filter(entry => rangeContains(range, hashKey(entry.id))),
+      applyEntry: async entry => {
+        node.received.push(entry);
+        node.entries.set(entry.id, entry);
+      },
+      send: async (peer, message) => {
+        if (message.type === 'REBALANCE_BATCH' && failBatches(address, peer)) throw new Error('unreachable');
+        if (message.type === 'REBALANCE_BATCH') nodes[peer].batches.push(message.entries.length);
+        const reply = await nodes[peer].rebalancer.handleMessage(message);
+        return reply?.ok ? { status: 'ok', ...reply } : { status: 'error' };
+      },
+      onBegin: plan => node.begun.push(plan),
+      onComplete: plan => {
+        node.completed.push(plan);
+        node.receivedWhenCompleted.push(node.received.length);
+      },
+      batchSize,
+      retryDelayMs: 10
+    });
+    nodes[address] = node;
+    return node;
+  }
+
+  /**
+   * Every entry a node should receive: keys it gained that it did not replicate before.
+   */
+  function gainedBy(node: string, from: string[], to: string[]): string[] {
+    return partitionerFor(from).getMovedKeys(KEYS, partitionerFor(to))
+      .filter(movement => movement.gained.includes(node))
+      .map(movement => movement.key)
+      .sort();
+  }
+
+  test('should stream moved keys once to a joining node and move its reads over when done', async () => {
+    const before = [A, B, C];
+    const after = [A, B, C, D];
+    for (const address of before) {
+      await addNode(address, before).rebalancer.resume(before);
+    }
+    const joiner = addNode(D, null);
+    await joiner.rebalancer.resume(after);
+
+    for (const address of before) nodes[address].rebalancer.moveTo(after);
+    await until(() => Object.values(nodes).every(n => n.rebalancer.getProgress().state === 'complete'));
+
+    expect(joiner.received.map(e => e.id).sort()).toEqual(gainedBy(D, before, after));
+    expect(joiner.begun).toEqual([{ from: before, to: after }]);
+    expect(joiner.completed).toEqual([{ from: before, to: after }]);
+    expect(await nodes[A].store.getClusterState('ring')).toBe(JSON.stringify(after));
+  });
+
+  test('should re-replicate the keys of a departed node from the first surviving replica', async () => {
+    const before = [A, B, C, D];
+    const after = [A, B, C];
+    for (const address of after) {
+      await addNode(address, before, 2).rebalancer.resume(before);
+    }
+
+    for (const address of after) nodes[address].rebalancer.moveTo(after);
+    await until(() => after.every(n => nodes[n].rebalancer.getProgress().state === 'complete'));
+
+    for (const address of after) {
+      expect(nodes[address].received.map(e => e.id).sort()).toEqual(gainedBy(address, before, after));
+      expect(nodes[address].batches.every(size => size <= 2)).toBe(true);
+    }
+  });
+
+  test('should keep reads on the old ring until every sender has delivered', async () => {
+    const before = [A, B, C];
+    const after = [A, B, C, D];
+    let failures = 3;
+    failBatches = (from, to) => from === A && to === D && failures-- > 0;
+
+    for (const address of before) {
+      await addNode(address, before).rebalancer.resume(before);
+    }
+    const joiner = addNode(D, null);
+    await joiner.rebalancer.resume(after);
+
+    for (const address of before) nodes[address].rebalancer.moveTo(after);
+    await until(() => joiner.rebalancer.getProgress().state === 'complete');
+
+    expect(nodes[A].rebalancer.getProgress().retries).toBe(3);
+    expect(joiner.receivedWhenCompleted).toEqual([gainedBy(D, before, after).length]);
+  });
+
+  test('should resume from the ring persisted before a restart', async () => {
+    const before = [A, B, C];
+    const after = [A, B, D];
+    const node = addNode(A, before);
+    await node.rebalancer.resume(before);
+    node.rebalancer.stop();
+
+    const begun: RebalancePlan[] = [];
+    node.rebalancer = new Rebalancer(node.store, {
+      node: A,
+      loadEntries: async () => [],
+      applyEntry: async () => {},
+      send: async () => ({ status: 'ok' }),
+      onBegin: plan => begun.push(plan),
+      onComplete: () => {}
+    });
+    await node.rebalancer.resume(after);
+    await until(() => node.rebalancer.getProgress().state === 'waiting');
+
+    expect(begun).toEqual([{ from: before, to: after }]);
+    expect(node.rebalancer.getProgress().waitingFor).toEqual([B]);
+  });
+});
@@ -0,0 +1,95 @@
+import { AntiEntropyEntry, AntiEntropyService } from '../src/api/antiEntropy';
+import { hashKey, Partitioner, rangeContains } from '../src/api/partitioning';
+import { localAddress } from '../src/api/addresses';
+
+const [A, B, C] = [5000, 5001, 5002].map(localAddress);
+const partitioner = new Partitioner([A, B, C], { replicationFactor: 3 });
+
+interface TestNode {
+  entries: Map<string, AntiEntropyEntry>;
+  service: AntiEntropyService;
+}
+
+describe('Recovery sync', () => {
+  let nodes: Record<string, TestNode>;
+  let reachable: (node: string) => boolean;
+
+  beforeEach(() => {
+    nodes = {};
+    reachable = () => true;
+    for (const address of [A, B, C]) addNode(address);
+  });
+
+  afterEach(() => {
+    Object.values(nodes).forEach(node => node.service.stop());
+  });
+
+  function addNode(address: string): void {
+    const entries = new Map<string, AntiEntropyEntry>();
+    const service = new AntiEntropyService({
+      node: address,
+      getPartitioner: () => partitioner,
+      loadEntries: async range => [...entries.values()].filter(entry => rangeContains(range, hashKey(entry.id))),
+      applyEntry: async entry => {
+        entries.set(entry.id, entry);
+      },
+      send: async (peer, message) => {
+        if (!reachable(peer)) throw new Error(`No connection to node ${peer}`);
+        const reply = await nodes[peer].service.handleMessage(message);
+        return reply?.ok ? { status: 'ok', ...reply } : { status: 'error' };
+      }
+    });
+    nodes[address] = { entries, service };
+  }
+
+  /** A write accepted while `missing` was down. */
+  function write(id: string, name: string, missing: string[] = []): void {
+    for (const address of [A, B, C].filter(node => !missing.includes(node))) {
+      nodes[address].entries.set(id, { kind: 'list', id, data: { id, name } });
+    }
+  }
+
+  test('should pull the writes a node missed while it was down from the other replicas', async () => {
+    write('list-1', 'Groceries');
+    write('list-2', 'Hardware', [A]);
+    write('list-3', 'Pharmacy', [A]);
+
+    const progress = await nodes[A].service.recover(Date.now() + 1000);
+
+    expect([...nodes[A].entries.keys()].sort()).toEqual(['list-1', 'list-2', 'list-3']);
+    expect(progress.synced).toBe(progress.ranges);
+    expect(progress.ranges).toBeGreaterThan(0);
+    expect(progress.peers.sort()).toEqual([B, C]);
+  });
+
+  test('should catch up through the replicas that answer and retry the rest until one does', async () => {
+    write('list-1', 'Groceries', [A]);
+    reachable = node => node !== B;
+
+    const progress = await nodes[A].service.recover(Date.now() + 1000, 10);
+    expect(progress.synced).toBe(progress.ranges);
+    expect(progress.peers).toEqual([C]);
+    expect(nodes[A].entries.has('list-1')).toBe(true);
+
+    // With no replica answering at first, recovery keeps retrying within the deadline
+    write('list-2', 'Hardware', [A]);
+    let attempts = 0;
+    reachable = () => ++attempts > 4;
+    const retried = await nodes[A].service.recover(Date.now() + 1000, 10);
+    expect(retried.synced).toBe(retried.ranges);
+    expect(nodes[A].entries.has('list-2')).toBe(true);
+  });
+
+  test('should give up at the deadline and report the ranges still behind', async () => {
+    write('list-1', 'Groceries', [A]);
+    reachable = () => false;
+
+    const started = Date.now();
+    const progress = await nodes[A].service.recover(started + 100, 10);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(progress.synced).toBe(0);
+    expect(progress.peers).toEqual([]);
+    expect(nodes[A].entries.has('list-1')).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { ShoppingListServer } from '../src/api/server';
+import { localAddress } from '../src/api/addresses';
+import { nodeDataFile } from '../src/storage/engines';
+import { SNAPSHOTS_DIR } from '../src/storage/snapshots';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const nodes = [5730, 5731, 5732].map(port => ({ address: localAddress(port), nodeId: `restore-${port}` }));
+const [A, B] = nodes;
+
+async function request(node: string, method: string, url: string, body?: unknown): Promise<{ status: number; body: any }> {
+  const res = await fetch(`http://${node}${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function waitUntilReady(node: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if ((await request(node, 'GET', '/api/health')).status === 200) return;
+    await sleep(100);
+  }
+  throw new Error(`Node ${node} did not become ready`);
+}
+
+function removeFiles(): void {
+  for (const { nodeId } of nodes) {
+    fs.rmSync(nodeDataFile(nodeId, 'db'), { force: true });
+    if (!fs.existsSync(SNAPSHOTS_DIR)) continue;
+    for (const id of fs.readdirSync(SNAPSHOTS_DIR).filter(id => id.startsWith(`${nodeId}-`))) {
+      fs.rmSync(path.join(SNAPSHOTS_DIR, id), { recursive: true, force: true });
+    }
+  }
+}
+
+describe('Restoring a running node', () => {
+  let servers: ShoppingListServer[];
+
+  beforeAll(async () => {
+    removeFiles();
+    servers = nodes.map(({ address, nodeId }) => new ShoppingListServer(address, nodeId, {}, 'sqlite'));
+    for (const server of servers) await server.start();
+    await Promise.all(servers.map((server, i) =>
+      server.initMessaging(nodes.filter((_, j) => j !== i).map(node => node.address))
+    ));
+    for (const { address } of nodes) await waitUntilReady(address);
+  }, 30000);
+
+  afterAll(async () => {
+    for (const server of servers) await server.stop();
+    removeFiles();
+  });
+
+  test('should refuse writes, including replicated ones, until it has caught up, then keep the writes made after the restore', async () => {
+    const created = await request(A.address, 'POST', '/api/lists', { name: 'Groceries' });
+    expect(created.status).toBe(201);
+    const listId = created.body.id;
+    const snapshot = await servers[0].snapshot();
+    expect((await request(A.address, 'PUT', `/api/lists/${listId}`, { name: 'Weekly groceries' })).status).toBe(200);
+
+    // The snapshot holds an older clock for the list than the other replicas do
+    const restoring = servers[0].restore(snapshot.id);
+    const replicated = { type: 'CREATE_LIST', list: { ...created.body, name: 'Lost', vectorClock: { other: 1 } } };
+    const refused = (servers[0] as any).handleRequest(replicated);
+    expect((await request(A.address, 'GET', '/api/health')).body.status).toBe('RECOVERING');
+    expect((await request(A.address, 'PUT', `/api/lists/${listId}`, { name: 'Lost' })).status).toBe(503);
+    expect(await refused).toMatchObject({ status: 'error' });
+    await restoring;
+
+    expect((await request(A.address, 'GET', '/api/health')).status).toBe(200);
+    expect((await request(A.address, 'PUT', `/api/lists/${listId}`, { name: 'Party' })).status).toBe(200);
+
+    const read = await request(B.address, 'GET', `/api/lists/${listId}?consistency=QUORUM`);
+    expect(read.status).toBe(200);
+    expect(read.body.name).toBe('Party');
+  }, 30000);
+});
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { SiblingRegistry } from '../src/api/siblings';
+import { resolvingClock, parseCausalContext } from '../src/api/causalContext';
+
+describe('Causal context', () => {
+  test('should parse contexts given as JSON or objects', () => {
+    expect(parseCausalContext('{"a":2,"b":1}')).toEqual({ a: 2, b: 1 });
+    expect(parseCausalContext({ a: 1 })).toEqual({ a: 1 });
+    expect(parseCausalContext('not json')).toBeNull();
+    expect(parseCausalContext({ a: -1 })).toBeNull();
+    expect(parseCausalContext(['a'])).toBeNull();
+  });
+
+  test('should build a clock that descends from the version and the context', () => {
+    expect(resolvingClock({ a: 2 }, { a: 1, b: 3 }, 'a')).toEqual({ a: 3, b: 3 });
+  });
+});
+
+describe('SiblingRegistry', () => {
+  let dir: string;
+  let store: SQLiteStore;
+  let siblings: SiblingRegistry;
+
+  const item = (name: string, vectorClock: Record<string, number>) =>
+    ({ id: 'i1', listId: 'l1', name, quantity: 1, acquired: 0, vectorClock, lastUpdated: 1 });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'siblings-'));
+    store = new SQLiteStore(path.join(dir, 'node.db'));
+    siblings = new SiblingRegistry(store);
+  });
+
+  // Applies the sibling write the server would log, as the manager does
+  const reconcile = async (kind: 'list' | 'item', current: any, incoming: any) => {
+    const outcome = await siblings.reconcile(kind, current, incoming);
+    if (outcome.action === 'sibling' && outcome.write.type === 'saveSibling') {
+      const { kind: writeKind, id, clock, data } = outcome.write;
+      await store.saveSibling(writeKind, id, clock, data);
+    }
+    return outcome;
+  };
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should apply newer versions and ignore older or equal ones', async () => {
+    const current = item('Milk', { a: 2 });
+
+    expect(await reconcile('item', current, item('Oat milk', { a: 3 }))).toEqual({ action: 'apply', version: item('Oat milk', { a: 3 }) });
+    expect(await reconcile('item', current, item('Mlk', { a: 1 }))).toEqual({ action: 'ignore' });
+    expect(await reconcile('item', current, item('Milk', { a: 2 }))).toEqual({ action: 'ignore' });
+  });
+
+  test('should keep a concurrent version with a different value as a sibling', async () => {
+    const current = item('Milk', { a: 1 });
+
+    expect(await reconcile('item', current, item('Oat milk', { b: 1 }))).toMatchObject({ action: 'sibling', write: { type: 'saveSibling', kind: 'item', id: 'i1' } });
+    expect(await siblings.get('item', 'i1')).toEqual([item('Oat milk', { b: 1 })]);
+
+    // Receiving the same sibling again changes nothing
+    expect(await reconcile('item', current, item('Oat milk', { b: 1 }))).toEqual({ action: 'ignore' });
+  });
+
+  test('should merge clocks of concurrent versions holding the same value', async () => {
+    const outcome = await reconcile('item', item('Milk', { a: 1 }), item('Milk', { b: 1 }));
+
+    expect(outcome).toEqual({ action: 'apply', version: item('Milk', { a: 1, b: 1 }) });
+    expect(await siblings.get('item', 'i1')).toEqual([]);
+  });
+
+  test('should drop siblings resolved by a version that descends from them', async () => {
+    const current = item('Milk', { a: 1 });
+    await reconcile('item', current, item('Oat milk', { b: 1 }));
+    await reconcile('item', current, item('Soy milk', { c: 1 }));
+
+    const resolution = item('Almond milk', { a: 2, b: 1, c: 1 });
+    expect(await reconcile('item', current, resolution)).toEqual({ action: 'apply', version: resolution });
+    expect(await siblings.get('item', 'i1')).toEqual([]);
+  });
+
+  test('should only resolve the siblings a clock covers', async () => {
+    const current = item('Milk', { a: 1 });
+    await reconcile('item', current, item('Oat milk', { b: 1 }));
+    await reconcile('item', current, item('Soy milk', { c: 1 }));
+
+    expect(await siblings.resolve('item', 'i1', { a: 2, b: 1 })).toBe(1);
+    expect((await siblings.get('item', 'i1')).map(s => s.name)).toEqual(['Soy milk']);
+  });
+
+  test('should store list siblings without their items', async () => {
+    const list = { id: 'l1', name: 'Groceries', vectorClock: { a: 1 }, items: [item('Milk', { a: 1 })] };
+    await reconcile('list', list, { ...list, name: 'Weekly shop', vectorClock: { b: 1 } });
+
+    const [sibling] = await siblings.get('list', 'l1');
+    expect(sibling).toEqual({ id: 'l1', name: 'Weekly shop', vectorClock: { b: 1 } });
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { ShoppingListManager } from '../src/storage/ShoppingListManager';
+import { loadMigrations } from '../src/storage/migrations';
+import { restartManager } from './helpers';
+import { createSnapshot, listSnapshots, restoreSnapshot, SnapshotError } from '../src/storage/snapshots';
+
+function exec(file: string, sql: string): Promise<void> {
+  const db = new sqlite3.Database(file);
+  return new Promise((resolve, reject) => {
+    db.exec(sql, err => db.close(() => (err ? reject(err) : resolve())));
+  });
+}
+
+describe('Snapshots', () => {
+  let dir: string;
+  let snapshots: string;
+  let store: SQLiteStore;
+  let manager: ShoppingListManager;
+  const source = { nodeId: '5000', node: '127.0.0.1:5000' };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-'));
+    snapshots = path.join(dir, 'snapshots');
+    store = new SQLiteStore(path.join(dir, 'node.db'));
+    manager = await restartManager(store, source.nodeId);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should restore data, CRDT state and hints as they were when the snapshot was taken', async () => {
+    const list = await manager.createList('Groceries');
+    const item = await manager.addItemToList(list.id, { name: 'Eggs', quantity: 2 });
+    await store.saveHint('127.0.0.1:5001', { type: 'ADD_ITEM', item });
+    await store.saveClusterState('ring', '["127.0.0.1:5000"]');
+    const itemState = structuredClone(manager.getItemState(item!.id));
+
+    const manifest = await createSnapshot(store, source, snapshots);
+    expect(manifest).toMatchObject({ nodeId: '5000', node: '127.0.0.1:5000', schemaVersion: loadMigrations().length });
+    expect(manifest.rows).toMatchObject({ lists: 1, items: 1, item_crdt: 1, hints: 1 });
+
+    // Changes after the snapshot are rolled back; the ring belongs to the live cluster and stays
+    await manager.updateItemQuantity(item!.id, 7);
+    await manager.createList('Hardware');
+    await store.deleteHintsForTarget('127.0.0.1:5001');
+    await store.saveClusterState('ring', '["127.0.0.1:5000","127.0.0.1:5001"]');
+
+    await restoreSnapshot(store, manifest.id, '5000', snapshots);
+    await manager.reload();
+
+    expect((await manager.getAllLists()).map(l => l.name)).toEqual(['Groceries']);
+    expect(manager.getItemState(item!.id)).toEqual(itemState);
+    expect(await store.getHints('127.0.0.1:5001')).toHaveLength(1);
+    expect(await store.getClusterState('ring')).toBe('["127.0.0.1:5000","127.0.0.1:5001"]');
+    expect(listSnapshots(snapshots, '5000').map(s => s.id)).toEqual([manifest.id]);
+  });
+
+  test('should bring a snapshot from an older schema up to date when restoring it', async () => {
+    await manager.createList('Groceries');
+    const manifest = await createSnapshot(store, source, snapshots);
+    await exec(path.join(snapshots, manifest.id, 'snapshot.db'), `
+      DROP TABLE operation_log;
+      ALTER TABLE hints RENAME COLUMN target TO target_port;
+      DROP INDEX idx_lists_ring_token;
+      DROP INDEX idx_items_ring_token;
+      DROP INDEX idx_tombstones_ring_token;
+      ALTER TABLE lists DROP COLUMN ring_token;
+      ALTER TABLE items DROP COLUMN ring_token;
+      ALTER TABLE tombstones DROP COLUMN ring_token;
+      DELETE FROM schema_version WHERE version > 1;
+    `);
+
+    await restoreSnapshot(store, manifest.id, '5000', snapshots);
+    await manager.reload();
+
+    expect((await manager.getAllLists()).map(l => l.name)).toEqual(['Groceries']);
+    expect((await store.scanRange({ start: 0n, end: 0n })).lists.map(l => l.name)).toEqual(['Groceries']);
+  });
+
+  test('should refuse snapshots of other nodes, from newer schemas or outside the snapshots folder', async () => {
+    await manager.createList('Groceries');
+    const manifest = await createSnapshot(store, source, snapshots);
+
+    await expect(restoreSnapshot(store, manifest.id, '5001', snapshots)).rejects.toMatchObject({ code: 'WRONG_NODE' });
+    await expect(restoreSnapshot(store, '../node', '5000', snapshots)).rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+    await exec(path.join(snapshots, manifest.id, 'snapshot.db'), `
+      INSERT INTO schema_version (version, name, applied_at) VALUES (99, 'future', 0);
+      DELETE FROM lists;
+    `);
+    await expect(restoreSnapshot(store, manifest.id, '5000', snapshots)).rejects.toThrow(SnapshotError);
+    expect(await store.getAllLists()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,181 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ShoppingList, ShoppingListItem } from '../src/shared/types';
+import { hashKey, RING_SIZE } from '../src/api/partitioning';
+import { StorageEngine } from '../src/storage/StorageEngine';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { MemoryEngine } from '../src/storage/MemoryEngine';
+import { LogStructuredEngine } from '../src/storage/LogStructuredEngine';
+import { engineFor } from '../src/storage/engines';
+import { restartManager } from './helpers';
+
+function list(id: string, lastUpdated: number): ShoppingList {
+  return { id, name: id, createdAt: 1, lastUpdated, vectorClock: { a: lastUpdated } };
+}
+
+function item(id: string, listId: string, createdAt: number): ShoppingListItem {
+  return { id, listId, name: id, quantity: 1, acquired: 0, createdAt, lastUpdated: createdAt, vectorClock: { a: 1 } };
+}
+
+const engines: Array<[string, (dir: string) => StorageEngine]> = [
+  ['sqlite', dir => new SQLiteStore(path.join(dir, 'node.db'))],
+  ['memory', () => new MemoryEngine()],
+  ['log', dir => new LogStructuredEngine(path.join(dir, 'node.log'))]
+];
+
+describe.each(engines)('%s storage engine', (_name, open) => {
+  let dir: string;
+  let engine: StorageEngine;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-'));
+    engine = open(dir);
+  });
+
+  afterEach(() => {
+    engine.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should store lists and items and cascade list deletes to items but not their CRDT state', async () => {
+    await engine.saveList(list('l1', 10));
+    await engine.saveList(list('l2', 20));
+    await engine.saveItem(item('b', 'l1', 1));
+    await engine.saveItem(item('a', 'l1', 2));
+    await engine.saveItemState({ id: 'a', listId: 'l1', element: null, addTags: ['t1'], removeTags: [] });
+    await expect(engine.saveItem(item('c', 'missing', 3))).rejects.toThrow();
+
+    // Saving a list again keeps its items
+    await engine.saveList({ ...list('l1', 30), name: 'Groceries' });
+    const lists = await engine.getAllLists();
+    expect(lists.map(l => [l.name, l.items.map(i => i.id)])).toEqual([['Groceries', ['a', 'b']], ['l2', []]]);
+    expect((await engine.getAllItems()).map(i => i.id)).toEqual(['a', 'b']);
+
+    await engine.deleteList('l1');
+    expect(await engine.getList('l1')).toBeNull();
+    expect(await engine.getItem('a')).toBeNull();
+    expect(await engine.getItemStates()).toEqual([{ id: 'a', listId: 'l1', element: null, addTags: ['t1'], removeTags: [] }]);
+  });
+
+  test('should queue hints per target, trim the oldest and never reuse an id', async () => {
+    for (let n = 1; n <= 4; n++) {
+      await engine.saveHint('127.0.0.1:5001', { n }, 1000 * n);
+    }
+    const other = await engine.saveHint('127.0.0.1:5002', { n: 5 }, 5000);
+
+    expect(await engine.trimHints('127.0.0.1:5001', 2)).toBe(2);
+    expect((await engine.getHints('127.0.0.1:5001')).map(h => h.payload.n)).toEqual([3, 4]);
+    expect((await engine.getHints('127.0.0.1:5001', 1)).map(h => h.payload.n)).toEqual([3]);
+    expect(await engine.getHintBacklog()).toEqual([
+      { target: '127.0.0.1:5001', count: 2, oldest: 3000, newest: 4000 },
+      { target: '127.0.0.1:5002', count: 1, oldest: 5000, newest: 5000 }
+    ]);
+
+    await engine.deleteHint(other);
+    expect(await engine.deleteHintsBefore(4000)).toBe(1);
+    expect(await engine.deleteHintsForTarget('127.0.0.1:5001')).toBe(1);
+    expect(await engine.saveHint('127.0.0.1:5002', {})).toBeGreaterThan(other);
+  });
+
+  test('should keep tombstones, siblings, cluster state and the operation log', async () => {
+    await engine.saveTombstone({ kind: 'item', id: 'i1', listId: 'l1', vectorClock: { a: 2 }, deletedAt: 200 });
+    await engine.saveTombstone({ kind: 'list', id: 'l1', vectorClock: { a: 1 }, deletedAt: 100 });
+    expect((await engine.getAllTombstones()).map(t => t.id)).toEqual(['l1', 'i1']);
+    expect(await engine.getTombstone('item', 'i1')).toMatchObject({ listId: 'l1', vectorClock: { a: 2 } });
+    expect(await engine.deleteTombstonesBefore(150)).toBe(1);
+    await engine.deleteTombstone('item', 'i1');
+    expect(await engine.getAllTombstones()).toEqual([]);
+
+    await engine.saveSibling('list', 'l1', 'b:1', { name: 'B' });
+    await engine.saveSibling('list', 'l1', 'a:1', { name: 'A' });
+    expect(await engine.getSiblings('list', 'l1')).toEqual([
+      { clock: 'a:1', data: { name: 'A' } },
+      { clock: 'b:1', data: { name: 'B' } }
+    ]);
+    await engine.deleteSibling('list', 'l1', 'a:1');
+    expect(await engine.deleteSiblings('list', 'l1')).toBe(1);
+
+    await engine.saveClusterState('ring', '["a"]');
+    expect(await engine.getClusterState('ring')).toBe('["a"]');
+    expect(await engine.getClusterState('missing')).toBeNull();
+
+    const first = await engine.appendOperation('createList', { a: 1 }, [{ type: 'deleteList', listId: 'l1' }]);
+    const second = await engine.appendOperation('deleteList', { a: 2 }, []);
+    expect(await engine.truncateOperations(first)).toBe(1);
+    expect((await engine.getOperations()).map(op => [op.seq, op.operation])).toEqual([[second, 'deleteList']]);
+  });
+
+  test('should scan lists, items and tombstones by key hash, across the top of the ring', async () => {
+    await engine.saveList(list('l1', 1));
+    await engine.saveItem(item('i1', 'l1', 1));
+    await engine.saveTombstone({ kind: 'list', id: 'l2', vectorClock: {}, deletedAt: 1 });
+
+    const l1 = hashKey('l1');
+    const wrapping = await engine.scanRange({ start: l1, end: l1 - 1n < 0n ? RING_SIZE - 1n : l1 - 1n });
+    expect(wrapping.lists).toEqual([]);
+    expect(wrapping.items.map(i => i.id)).toEqual(['i1']);
+    expect(wrapping.tombstones.map(t => t.id)).toEqual(['l2']);
+
+    const only = await engine.scanRange({ start: l1 - 1n, end: l1 });
+    expect(only).toEqual({ lists: [list('l1', 1)], items: [], tombstones: [] });
+  });
+});
+
+describe('Log-structured storage engine', () => {
+  let dir: string;
+  let file: string;
+  let engine: LogStructuredEngine;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'log-engine-'));
+    file = path.join(dir, 'node.log');
+  });
+
+  afterEach(() => {
+    engine.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should rebuild a node\'s data and CRDT state by replaying its file', async () => {
+    engine = new LogStructuredEngine(file);
+    const manager = await restartManager(engine);
+    const groceries = await manager.createList('Groceries');
+    const eggs = await manager.addItemToList(groceries.id, { name: 'Eggs', quantity: 2 });
+    await manager.updateItemQuantity(eggs!.id, 5);
+    await manager.deleteList((await manager.createList('Hardware')).id);
+    const hint = await engine.saveHint('127.0.0.1:5001', { n: 1 });
+    engine.close();
+
+    engine = new LogStructuredEngine(file);
+    const restarted = await restartManager(engine);
+
+    expect((await restarted.getAllLists()).map(l => l.name)).toEqual(['Groceries']);
+    expect(await restarted.getItem(eggs!.id)).toMatchObject({ name: 'Eggs', quantity: 5 });
+    expect(restarted.getItemState(eggs!.id)).toEqual(manager.getItemState(eggs!.id));
+    expect(await engine.saveHint('127.0.0.1:5001', { n: 2 })).toBe(hint + 1);
+  });
+
+  test('should drop a record cut short by a crash and compact the file to its live state', async () => {
+    engine = new LogStructuredEngine(file, { compactAfter: 10 });
+    await engine.saveList(list('l1', 1));
+    for (let n = 1; n <= 12; n++) {
+      await engine.saveList(list('l1', n));
+    }
+    await engine.compact();
+    expect(engine.getStats().records).toBe(2); // Id sequences and the list
+    const seq = await engine.appendOperation('createList', {}, []);
+    engine.close();
+
+    fs.appendFileSync(file, '{"type":"saveList","list":{"id":"l2"');
+    engine = new LogStructuredEngine(file);
+
+    expect((await engine.getAllLists()).map(l => [l.id, l.lastUpdated])).toEqual([['l1', 12]]);
+    expect(await engine.appendOperation('addItem', {}, [])).toBe(seq + 1);
+    expect(fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean)).toHaveLength(4);
+  });
+
+  test('should use the engine configured for a node address', () => {
+    expect(engineFor('127.0.0.1:5000')).toBe('sqlite');
+  });
+});
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SQLiteStore } from '../src/storage/SQLiteStore';
+import { TombstoneRegistry } from '../src/api/tombstones';
+import { Tombstone } from '../src/shared/types';
+
+describe('TombstoneRegistry.create', () => {
+  test('should create a tombstone that dominates the deleted version', () => {
+    const tombstone = TombstoneRegistry.create('item', 'i1', { a: 2, b: 1 }, 'b', 'l1');
+
+    expect(tombstone).toMatchObject({ kind: 'item', id: 'i1', listId: 'l1', vectorClock: { a: 2, b: 2 } });
+  });
+});
+
+describe('TombstoneRegistry', () => {
+  let dir: string;
+  let store: SQLiteStore;
+  let tombstones: TombstoneRegistry;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tombstones-'));
+    store = new SQLiteStore(path.join(dir, 'node.db'));
+    tombstones = new TombstoneRegistry(store, { gcGracePeriod: 1000 });
+  });
+
+  const record = async (tombstone: Tombstone) => {
+    const merged = await tombstones.merge(tombstone);
+    await store.saveTombstone(merged);
+    return merged;
+  };
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should shadow older and concurrent versions but not newer ones', async () => {
+    await record(TombstoneRegistry.create('list', 'l1', { a: 1 }, 'a'));
+
+    expect(await tombstones.shadows('list', 'l1', { a: 1 })).toBe(true);
+    expect(await tombstones.shadows('list', 'l1', { a: 1, b: 1 })).toBe(true);
+    expect(await tombstones.shadows('list', 'other', { a: 1 })).toBe(false);
+
+    // A version that saw the delete resurrects the key and clears the tombstone
+    expect(await tombstones.shadows('list', 'l1', { a: 3 })).toBe(false);
+    expect(await tombstones.get('list', 'l1')).toBeNull();
+  });
+
+  test('should merge clocks when the same key is deleted twice', async () => {
+    await record({ kind: 'item', id: 'i1', vectorClock: { a: 2 }, deletedAt: 10 });
+    const merged = await record({ kind: 'item', id: 'i1', vectorClock: { b: 3 }, deletedAt: 5 });
+
+    expect(merged.vectorClock).toEqual({ a: 2, b: 3 });
+    expect(merged.deletedAt).toBe(10);
+    expect(await tombstones.get('item', 'i1')).toEqual(merged);
+  });
+
+  test('should collect tombstones older than the grace period', async () => {
+    const now = Date.now();
+    await record({ kind: 'list', id: 'old', vectorClock: { a: 1 }, deletedAt: now - 5000 });
+    await record({ kind: 'list', id: 'recent', vectorClock: { a: 1 }, deletedAt: now });
+
+    expect(await tombstones.collectGarbage(now)).toBe(1);
+    expect((await tombstones.all()).map(t => t.id)).toEqual(['recent']);
+  });
+});
@@ -0,0 +1,11 @@
+import { ShoppingListManager } from '../src/storage/ShoppingListManager';
+import { StorageEngine } from '../src/storage/StorageEngine';
+
+/**
+ * Simulates a node (re)start: a fresh manager loading from the given storage.
+ */
+export async function restartManager(store: StorageEngine, nodeId: string = 'node-a'): Promise<ShoppingListManager> {
+  const manager = new ShoppingListManager(nodeId, store);
+  await manager.initialize();
+  return manager;
+}